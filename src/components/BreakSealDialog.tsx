@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Unlock } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import type { BreakSealDialogProps } from '../lib/types';
+
+// Confirm opening a sealed letter before its send date. The reason is stored
+// with the audit event.
+export function BreakSealDialog({
+  letter,
+  onClose,
+  onBreakSeal,
+  isSubmitting = false,
+}: BreakSealDialogProps) {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (letter) setReason('');
+  }, [letter]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!letter) return;
+
+    try {
+      await onBreakSeal(letter, reason.trim());
+      onClose();
+    } catch {
+      // The error toast is already handled by the hook; keep the dialog open
+    }
+  };
+
+  return (
+    <Dialog open={!!letter} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Break the seal?</DialogTitle>
+            <DialogDescription>
+              "{letter?.title}" is sealed until{' '}
+              {letter ? format(parseISO(letter.send_date), 'MMMM d, yyyy') : ''}. Opening it early
+              is recorded in the letter's history.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="break-seal-reason">Why are you opening it? (optional)</Label>
+            <Textarea
+              id="break-seal-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              className="min-h-[80px] resize-none"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Keep it sealed
+            </Button>
+            <Button type="submit" variant="destructive" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Unlock className="h-4 w-4 mr-2" />
+              )}
+              Break the seal
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,61 +1,291 @@
-import { useState, memo } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo, memo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Sparkles, Loader2, CheckCircle, X } from 'lucide-react';
+import { Sparkles, Loader2, CheckCircle, X, Undo2, RefreshCw, Layers, GitCompare } from 'lucide-react';
 import { useEnhancement } from '../hooks/useEnhancement';
-import type { FieldEnhancerProps } from '../lib/types';
+import { describeQuota } from '../lib/ai-quota';
+import { applyHunks, diffWords } from '../lib/text-diff';
+import {
+  ENHANCEMENT_STYLE_LABELS,
+  getEnhancementStyles,
+} from '../../supabase/functions/_shared/enhancement-styles.ts';
+import type { FieldEnhancementResponse, FieldEnhancerProps } from '../lib/types';
 
-function FieldEnhancerComponent({ field, value, onApply, context, placeholder }: FieldEnhancerProps) {
-  const { enhanceField, isEnhancingField } = useEnhancement();
-  const [suggestion, setSuggestion] = useState<{ suggestion: string; explanation: string } | null>(null);
+function FieldEnhancerComponent({
+  field,
+  value,
+  onApply,
+  context,
+  placeholder,
+  autoApply = false,
+  onUndo,
+}: FieldEnhancerProps) {
+  const { enhanceField, enhanceFieldStream, isEnhancingField, reportSuggestionOutcome, quota } = useEnhancement();
+  const quotaLabel = quota ? describeQuota(quota) : null;
+  const [suggestion, setSuggestion] = useState<FieldEnhancementResponse | null>(null);
   const [showSuggestion, setShowSuggestion] = useState(false);
+  // An auto-applied suggestion and the text it replaced
+  const [applied, setApplied] = useState<(FieldEnhancementResponse & { previous: string }) | null>(null);
+
+  // The suggestion streams into the card; the controller stops it and the
+  // value it was asked for tells when the field has been edited since
+  const [isStreaming, setIsStreaming] = useState(false);
+  const streamRef = useRef<AbortController | null>(null);
+  const requestedValueRef = useRef(value);
+
+  // Alternatives come in one go, not streamed
+  const [isLoadingAlternatives, setIsLoadingAlternatives] = useState(false);
+  const [selected, setSelected] = useState(0);
+  // Every suggestion shown since Enhance was clicked, so trying again
+  // doesn't bring one back
+  const seenRef = useRef<string[]>([]);
+
+  // Reviewing shows the suggestion as word changes that can be left out
+  const [reviewing, setReviewing] = useState(false);
+  const [rejectedHunks, setRejectedHunks] = useState<Set<number>>(new Set());
+
+  const choices: FieldEnhancementResponse[] = suggestion?.alternatives ?? (suggestion ? [suggestion] : []);
+  const current = choices[selected] ?? choices[0];
+  const segments = useMemo(
+    () => (reviewing && current ? diffWords(value, current.suggestion) : []),
+    [reviewing, current, value]
+  );
+  const acceptedHunks = new Set(
+    segments.flatMap((segment) =>
+      segment.type === 'change' && !rejectedHunks.has(segment.index) ? [segment.index] : []
+    )
+  );
+  const hunkCount = segments.filter((segment) => segment.type === 'change').length;
+
+  // Undo only makes sense until the field is edited again
+  const canUndo = !!applied && value === applied.suggestion;
+
+  const abortStream = useCallback(() => {
+    streamRef.current?.abort();
+    streamRef.current = null;
+  }, []);
+
+  const cancelStream = useCallback(() => {
+    abortStream();
+    setIsStreaming(false);
+    setSuggestion(null);
+    setShowSuggestion(false);
+  }, [abortStream]);
+
+  // Editing the field makes a half-written suggestion pointless
+  useEffect(() => {
+    if (streamRef.current && value !== requestedValueRef.current) {
+      cancelStream();
+    }
+  }, [value, cancelStream]);
+
+  useEffect(() => abortStream, [abortStream]);
+
+  const reportOutcome = (response: FieldEnhancementResponse, wasApplied: boolean) => {
+    if (response.eventId) {
+      reportSuggestionOutcome({ eventId: response.eventId, applied: wasApplied });
+    }
+  };
 
   const shouldShowEnhanceButton = () => {
     return value.trim().length > 0;
   };
 
-  const handleGetSuggestion = async () => {
+  const showResponse = (response: FieldEnhancementResponse | null) => {
+    setSuggestion(response);
+    setSelected(0);
+    setRejectedHunks(new Set());
+  };
+
+  const handleGetSuggestion = async (avoid: string[] = []) => {
     if (!value.trim()) return;
 
+    abortStream();
+    const controller = new AbortController();
+    streamRef.current = controller;
+    requestedValueRef.current = value;
+    showResponse({ suggestion: '', explanation: '' });
+    setShowSuggestion(true);
+    setIsStreaming(true);
+
+    try {
+      const response = await enhanceFieldStream(
+        {
+          field,
+          value,
+          context,
+          ...(avoid.length > 0 && { avoid }),
+        },
+        {
+          signal: controller.signal,
+          onText: (text) => setSuggestion({ suggestion: text, explanation: '' }),
+        }
+      );
+
+      if (autoApply) {
+        onApply(response.suggestion);
+        setApplied({ previous: value, ...response });
+        reportOutcome(response, true);
+        setSuggestion(null);
+        setShowSuggestion(false);
+        return;
+      }
+
+      setSuggestion(response);
+    } catch (error) {
+      // Error handled by hook; a cancelled stream has already closed the card
+      if (!controller.signal.aborted) {
+        setSuggestion(null);
+        setShowSuggestion(false);
+      }
+    } finally {
+      if (streamRef.current === controller) {
+        streamRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  };
+
+  const handleGetAlternatives = async (avoid: string[] = []) => {
+    setIsLoadingAlternatives(true);
+
     try {
       const response = await enhanceField({
         field,
         value,
         context,
+        alternatives: getEnhancementStyles(field).length,
+        ...(avoid.length > 0 && { avoid }),
       });
-      
-      setSuggestion(response);
-      setShowSuggestion(true);
+      showResponse(response);
     } catch (error) {
       // Error handled by hook
+      showResponse(null);
+      setShowSuggestion(false);
+    } finally {
+      setIsLoadingAlternatives(false);
     }
   };
 
+  const handleEnhance = () => {
+    seenRef.current = [];
+    setReviewing(false);
+    handleGetSuggestion();
+  };
+
+  // Another take in the same form, steering clear of everything shown so far
+  const handleRegenerate = () => {
+    if (!suggestion) return;
+    reportOutcome(suggestion, false);
+    seenRef.current = [...seenRef.current, ...choices.map((choice) => choice.suggestion)];
+
+    if (suggestion.alternatives) {
+      handleGetAlternatives(seenRef.current);
+    } else {
+      handleGetSuggestion(seenRef.current);
+    }
+  };
+
+  const handleShowAlternatives = () => {
+    if (!suggestion) return;
+    reportOutcome(suggestion, false);
+    seenRef.current = [...seenRef.current, suggestion.suggestion];
+    handleGetAlternatives(seenRef.current);
+  };
+
+  const handleSelect = (index: number) => {
+    setSelected(index);
+    setRejectedHunks(new Set());
+  };
+
+  const toggleHunk = (index: number) => {
+    setRejectedHunks((rejected) => {
+      const next = new Set(rejected);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
   const handleApply = () => {
-    if (suggestion) {
-      onApply(suggestion.suggestion);
+    if (suggestion && current) {
+      onApply(reviewing ? applyHunks(segments, acceptedHunks) : current.suggestion);
+      reportOutcome(suggestion, true);
       setSuggestion(null);
       setShowSuggestion(false);
     }
   };
 
   const handleDismiss = () => {
+    if (isStreaming) {
+      cancelStream();
+      return;
+    }
+    if (suggestion) reportOutcome(suggestion, false);
     setSuggestion(null);
     setShowSuggestion(false);
   };
 
-  if (!shouldShowEnhanceButton() && !showSuggestion) {
+  const handleUndo = () => {
+    if (!applied) return;
+    (onUndo ?? onApply)(applied.previous);
+    reportOutcome(applied, false);
+    setApplied(null);
+  };
+
+  if (!shouldShowEnhanceButton() && !showSuggestion && !canUndo) {
     return null;
   }
 
   return (
     <div className="mt-2">
-      {shouldShowEnhanceButton() && !showSuggestion && (
-        <div className="flex justify-end">
+      {canUndo && applied && (
+        <div className="flex items-center justify-between gap-2 rounded border border-emerald-200 bg-emerald-50 px-3 py-2 mb-2">
+          <div className="flex items-start gap-2">
+            <Sparkles className="h-3 w-3 text-emerald-600 mt-0.5" />
+            <p className="text-xs text-emerald-700">
+              <span className="font-medium text-emerald-900">AI suggestion applied.</span> {applied.explanation}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              onClick={handleUndo}
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs text-gray-600 hover:text-gray-800"
+            >
+              <Undo2 className="h-3 w-3 mr-1" />
+              Undo
+            </Button>
+            <Button
+              type="button"
+              onClick={() => setApplied(null)}
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs text-emerald-700 hover:text-emerald-800"
+            >
+              <CheckCircle className="h-3 w-3 mr-1" />
+              Keep
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {shouldShowEnhanceButton() && !showSuggestion && !canUndo && (
+        <div className="flex items-center justify-end gap-2">
+          {quotaLabel && (
+            <span className="text-xs text-muted-foreground" data-testid="ai-quota">
+              {quotaLabel}
+            </span>
+          )}
           <Button
             type="button"
-            onClick={handleGetSuggestion}
+            onClick={handleEnhance}
             disabled={isEnhancingField}
             size="sm"
             variant="outline"
@@ -76,7 +306,7 @@ function FieldEnhancerComponent({ field, value, onApply, context, placeholder }:
         </div>
       )}
 
-      {showSuggestion && suggestion && (
+      {showSuggestion && suggestion && current && (
         <Card className="mt-2 border-emerald-200 bg-emerald-50">
           <CardContent className="p-4">
             <div className="flex items-start gap-2 mb-3">
@@ -88,21 +318,116 @@ function FieldEnhancerComponent({ field, value, onApply, context, placeholder }:
                     {field}
                   </Badge>
                 </div>
-                <p className="text-xs text-emerald-700 mb-3">
-                  {suggestion.explanation}
-                </p>
+                {isStreaming || isLoadingAlternatives ? (
+                  <p className="flex items-center text-xs text-emerald-700 mb-3">
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    {isStreaming ? 'Writing a suggestion...' : 'Writing alternatives...'}
+                  </p>
+                ) : (
+                  <p className="text-xs text-emerald-700 mb-3">
+                    {current.explanation}
+                  </p>
+                )}
               </div>
             </div>
 
-            <div className="bg-white p-3 rounded border border-emerald-200 mb-3">
+            {choices.length > 1 && (
+              <div className="flex flex-wrap gap-1 mb-2" role="group" aria-label="Alternatives">
+                {choices.map((choice, index) => (
+                  <Button
+                    key={choice.style ?? index}
+                    type="button"
+                    onClick={() => handleSelect(index)}
+                    disabled={isLoadingAlternatives}
+                    aria-pressed={index === selected}
+                    size="sm"
+                    variant={index === selected ? 'default' : 'outline'}
+                    className="h-6 px-2 text-xs"
+                  >
+                    {choice.style ? ENHANCEMENT_STYLE_LABELS[choice.style] : `Option ${index + 1}`}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            <div className="bg-white p-3 rounded border border-emerald-200 mb-3" aria-live="polite" aria-busy={isStreaming || isLoadingAlternatives}>
               <p className={`text-sm text-gray-800 ${field === 'content' ? 'whitespace-pre-wrap' : ''}`}>
-                {suggestion.suggestion}
+                {reviewing
+                  ? segments.map((segment, index) =>
+                      segment.type === 'equal' ? (
+                        <span key={index}>{segment.text}</span>
+                      ) : (
+                        <button
+                          key={index}
+                          type="button"
+                          onClick={() => toggleHunk(segment.index)}
+                          aria-pressed={!rejectedHunks.has(segment.index)}
+                          title={rejectedHunks.has(segment.index) ? 'Keep this change' : 'Leave this change out'}
+                          className={`rounded px-0.5 ${rejectedHunks.has(segment.index) ? 'opacity-60' : ''}`}
+                        >
+                          {segment.removed && (
+                            <del className={rejectedHunks.has(segment.index) ? 'no-underline' : 'bg-destructive/10'}>
+                              {segment.removed}
+                            </del>
+                          )}
+                          {segment.added && (
+                            <ins className={rejectedHunks.has(segment.index) ? 'line-through' : 'no-underline bg-emerald-100'}>
+                              {segment.added}
+                            </ins>
+                          )}
+                        </button>
+                      )
+                    )
+                  : current.suggestion}
               </p>
             </div>
 
+            {!isStreaming && (
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <Button
+                  type="button"
+                  onClick={handleRegenerate}
+                  disabled={isLoadingAlternatives}
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2 text-xs text-emerald-700 hover:text-emerald-800"
+                >
+                  <RefreshCw className="h-3 w-3 mr-1" />
+                  Try again
+                </Button>
+                {!suggestion.alternatives && (
+                  <Button
+                    type="button"
+                    onClick={handleShowAlternatives}
+                    disabled={isLoadingAlternatives}
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2 text-xs text-emerald-700 hover:text-emerald-800"
+                  >
+                    <Layers className="h-3 w-3 mr-1" />
+                    More options
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  onClick={() => setReviewing(!reviewing)}
+                  disabled={isLoadingAlternatives}
+                  aria-pressed={reviewing}
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2 text-xs text-emerald-700 hover:text-emerald-800"
+                >
+                  <GitCompare className="h-3 w-3 mr-1" />
+                  Review changes
+                </Button>
+              </div>
+            )}
+
             <div className="flex items-center justify-between">
               <div className="text-xs text-emerald-600">
-                This will replace your current {field}
+                {reviewing
+                  ? `${acceptedHunks.size} of ${hunkCount} changes selected`
+                  : `This will replace your current ${field}`}
               </div>
               <div className="flex items-center gap-2">
                 <Button
@@ -113,11 +438,12 @@ function FieldEnhancerComponent({ field, value, onApply, context, placeholder }:
                   className="h-7 px-2 text-xs text-gray-600 hover:text-gray-800"
                 >
                   <X className="h-3 w-3 mr-1" />
-                  Not now
+                  {isStreaming ? 'Stop' : 'Not now'}
                 </Button>
                 <Button
                   type="button"
                   onClick={handleApply}
+                  disabled={isStreaming || isLoadingAlternatives || (reviewing && acceptedHunks.size === 0)}
                   size="sm"
                   className="h-7 px-3 text-xs bg-emerald-600 hover:bg-emerald-700"
                 >
@@ -137,6 +463,7 @@ export const FieldEnhancer = memo(FieldEnhancerComponent, (prevProps, nextProps)
   return (
     prevProps.value === nextProps.value && 
     prevProps.field === nextProps.field &&
+    prevProps.autoApply === nextProps.autoApply &&
     JSON.stringify(prevProps.context) === JSON.stringify(nextProps.context)
   );
 });
@@ -2,6 +2,7 @@ import { Button } from "@/components/ui/button";
 import { User, PenTool, LogOut } from "lucide-react";
 import { supabase } from '../lib/supabase';
 import { useToast } from '@/components/ui/use-toast';
+import { NotificationCenter } from './NotificationCenter';
 import type { HeaderProps } from '../lib/types';
 
 const Header = ({ user, onCreateClick }: HeaderProps) => {
@@ -38,6 +39,8 @@ const Header = ({ user, onCreateClick }: HeaderProps) => {
             Write Future Letter
           </Button>
           
+          <NotificationCenter compact align="end" />
+
           <div className="flex items-center space-x-2 text-sm text-muted-foreground">
             <User className="h-4 w-4" />
             <span>{user?.email}</span>
@@ -8,9 +8,30 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Sidebar } from './Sidebar';
 import { supabase } from '../lib/supabase';
+import { useProfile } from '../hooks/useProfile';
+import { clearLocalDrafts } from '../lib/drafts';
 import { Loader2 } from 'lucide-react';
 import type { LayoutProps } from '../lib/types';
 
+const TEXT_SIZE_CLASSES = ['text-size-small', 'text-size-large'];
+
+// Applies the profile's language and accessibility settings to the whole page
+function ProfilePreferences() {
+  const { preferences } = useProfile();
+  const { language } = preferences;
+  const { high_contrast, text_size } = preferences.accessibility;
+
+  useEffect(() => {
+    const root = document.documentElement;
+    root.lang = language;
+    root.classList.toggle('high-contrast', high_contrast);
+    root.classList.remove(...TEXT_SIZE_CLASSES);
+    if (text_size !== 'normal') root.classList.add(`text-size-${text_size}`);
+  }, [language, high_contrast, text_size]);
+
+  return null;
+}
+
 export function Layout({ children }: LayoutProps) {
   const navigate = useNavigate();
   const [user, setUser] = useState<any>(null);
@@ -41,6 +62,8 @@ export function Layout({ children }: LayoutProps) {
 
     // Listen for auth state changes
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      // Unsaved drafts stay with whoever wrote them, not with the device
+      if (event === 'SIGNED_OUT') clearLocalDrafts();
       setUser(session?.user || null);
       if (!session?.user) {
         navigate('/', { replace: true });
@@ -72,6 +95,8 @@ export function Layout({ children }: LayoutProps) {
 
   return (
     <div className="flex h-screen bg-background">
+      <ProfilePreferences />
+
       {/* Sidebar - dynamic width based on collapse state */}
       <div className="hidden md:flex md:flex-col">
         <Sidebar 
@@ -21,24 +21,45 @@ import {
   Clock,
   CheckCircle,
   Archive,
+  AlertTriangle,
+  RotateCw,
+  CalendarClock,
+  XCircle,
+  Lock,
+  Unlock,
 } from 'lucide-react';
-import { format, differenceInDays, parseISO } from 'date-fns';
+import { format, parseISO } from 'date-fns';
+import { getDaysUntilDelivery, getLocalTimeZone } from '../lib/timezone';
+import { getFailedDelivery, isLetterSealed } from '../lib/delivery';
+import { getMilestoneProgress } from '../lib/milestones';
 import type { Letter, LetterCardProps } from '../lib/types';
 
 function LetterCardComponent({ 
   letter, 
+  timeZone,
   onView, 
   onEdit, 
   onDelete, 
-  onStatusChange 
+  onStatusChange,
+  onRetryDelivery,
+  onCancelDelivery,
+  onReschedule,
+  onSeal,
+  onBreakSeal,
+  hidePreview = false,
 }: LetterCardProps) {
   
-  const daysUntilSend = differenceInDays(parseISO(letter.send_date), new Date());
+  const daysUntilSend = getDaysUntilDelivery(letter.send_date, timeZone ?? getLocalTimeZone());
   const isOverdue = daysUntilSend < 0 && letter.status === 'scheduled';
+  const failedDelivery = getFailedDelivery(letter);
+  const isRetrying = failedDelivery?.status === 'pending';
+  const isSealed = isLetterSealed(letter);
   
-  const totalMilestones = letter.milestones?.length || 0;
-  const completedMilestones = letter.milestones?.filter(m => m.completed).length || 0;
-  const progress = totalMilestones > 0 ? Math.round((completedMilestones / totalMilestones) * 100) : 0;
+  const {
+    total: totalMilestones,
+    completed: completedMilestones,
+    percent: progress,
+  } = getMilestoneProgress(letter.milestones);
 
   const getStatusInfo = () => {
     switch (letter.status) {
@@ -97,6 +118,22 @@ function LetterCardComponent({
                 {statusInfo.icon}
                 <span className="ml-1">{statusInfo.label}</span>
               </Badge>
+              {failedDelivery && (
+                <Badge
+                  variant={isRetrying ? 'outline' : 'destructive'}
+                  className="text-xs"
+                  title={failedDelivery.last_error}
+                >
+                  {isRetrying ? <RotateCw className="h-3 w-3" /> : <AlertTriangle className="h-3 w-3" />}
+                  <span className="ml-1">{isRetrying ? 'Retrying delivery' : 'Delivery failed'}</span>
+                </Badge>
+              )}
+              {isSealed && (
+                <Badge variant="outline" className="text-xs" title="Sealed until delivery">
+                  <Lock className="h-3 w-3" />
+                  <span className="ml-1">Sealed</span>
+                </Badge>
+              )}
               {letter.ai_enhanced && (
                 <Badge variant="outline" className="text-xs">
                   ✨ Enhanced
@@ -117,10 +154,12 @@ function LetterCardComponent({
                 <Eye className="h-4 w-4 mr-2" />
                 View Details
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => onEdit(letter)}>
-                <Edit className="h-4 w-4 mr-2" />
-                Edit Letter
-              </DropdownMenuItem>
+              {!isSealed && (
+                <DropdownMenuItem onClick={() => onEdit(letter)}>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit Letter
+                </DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
               
               {letter.status === 'draft' && (
@@ -130,14 +169,49 @@ function LetterCardComponent({
                 </DropdownMenuItem>
               )}
               
-              {letter.status === 'scheduled' && (
+              {letter.status === 'scheduled' && !isSealed && (
                 <DropdownMenuItem onClick={() => handleStatusChange('sent')}>
                   <Send className="h-4 w-4 mr-2" />
                   Send Now
                 </DropdownMenuItem>
               )}
+
+              {letter.status === 'scheduled' && onReschedule && (
+                <DropdownMenuItem onClick={() => onReschedule(letter)}>
+                  <CalendarClock className="h-4 w-4 mr-2" />
+                  Reschedule
+                </DropdownMenuItem>
+              )}
+
+              {letter.status === 'scheduled' && !letter.is_locked && onSeal && (
+                <DropdownMenuItem onClick={() => onSeal(letter)}>
+                  <Lock className="h-4 w-4 mr-2" />
+                  Seal Letter
+                </DropdownMenuItem>
+              )}
+
+              {isSealed && onBreakSeal && (
+                <DropdownMenuItem onClick={() => onBreakSeal(letter)}>
+                  <Unlock className="h-4 w-4 mr-2" />
+                  Break Seal
+                </DropdownMenuItem>
+              )}
+
+              {letter.status === 'scheduled' && !isSealed && onCancelDelivery && (
+                <DropdownMenuItem onClick={() => onCancelDelivery(letter)}>
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Cancel Delivery
+                </DropdownMenuItem>
+              )}
+
+              {failedDelivery && onRetryDelivery && (
+                <DropdownMenuItem onClick={() => onRetryDelivery(letter)}>
+                  <RotateCw className="h-4 w-4 mr-2" />
+                  Retry Delivery
+                </DropdownMenuItem>
+              )}
               
-              {letter.status !== 'archived' && (
+              {letter.status !== 'archived' && !isSealed && (
                 <DropdownMenuItem onClick={() => handleStatusChange('archived')}>
                   <Archive className="h-4 w-4 mr-2" />
                   Archive
@@ -159,11 +233,13 @@ function LetterCardComponent({
       </CardHeader>
 
       <CardContent data-section="card-content" className="space-y-4" onClick={() => onView(letter)}>
-        <div data-section="goal-preview">
-          <p className="text-sm text-muted-foreground line-clamp-2">
-            {letter.goal}
-          </p>
-        </div>
+        {!hidePreview && !isSealed && (
+          <div data-section="goal-preview">
+            <p className="text-sm text-muted-foreground line-clamp-2">
+              {letter.goal}
+            </p>
+          </div>
+        )}
 
         <div data-section="milestone-progress">
           {totalMilestones > 0 && (
@@ -195,13 +271,35 @@ function LetterCardComponent({
   );
 }
 
+// Changes whenever a delivery attempt fails, is retried or gives up
+const deliveryKey = (letter: Letter) => {
+  const delivery = getFailedDelivery(letter);
+  return delivery ? `${delivery.id}:${delivery.status}:${delivery.attempt_count}` : '';
+};
+
+// Changes whenever a milestone is added, removed, ticked off or reweighted
+const progressKey = (letter: Letter) => {
+  const { total, completed, percent } = getMilestoneProgress(letter.milestones);
+  return `${total}:${completed}:${percent}`;
+};
+
 export const LetterCard = memo(LetterCardComponent, (prevProps, nextProps) => {
   return (
     prevProps.letter.id === nextProps.letter.id &&
+    prevProps.timeZone === nextProps.timeZone &&
+    prevProps.hidePreview === nextProps.hidePreview &&
     prevProps.letter.title === nextProps.letter.title &&
     prevProps.letter.status === nextProps.letter.status &&
     prevProps.letter.updated_at === nextProps.letter.updated_at &&
-    prevProps.letter.milestones?.length === nextProps.letter.milestones?.length
+    progressKey(prevProps.letter) === progressKey(nextProps.letter) &&
+    prevProps.letter.send_date === nextProps.letter.send_date &&
+    prevProps.letter.is_locked === nextProps.letter.is_locked &&
+    deliveryKey(prevProps.letter) === deliveryKey(nextProps.letter) &&
+    !!prevProps.onRetryDelivery === !!nextProps.onRetryDelivery &&
+    !!prevProps.onCancelDelivery === !!nextProps.onCancelDelivery &&
+    !!prevProps.onReschedule === !!nextProps.onReschedule &&
+    !!prevProps.onSeal === !!nextProps.onSeal &&
+    !!prevProps.onBreakSeal === !!nextProps.onBreakSeal
   );
 });
 
@@ -0,0 +1,130 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Save } from 'lucide-react';
+import { MAX_SEND_DATE_OFFSET } from '../lib/profile';
+import type { ProfilePreferences, SettingsFormProps } from '../lib/types';
+
+const letterDefaultsSchema = z.object({
+  default_send_date_offset: z.coerce
+    .number()
+    .int('Use a whole number of days')
+    .min(1, 'At least one day')
+    .max(MAX_SEND_DATE_OFFSET, 'At most ten years'),
+  default_goal_format: z.string().max(500, 'Goal format must be less than 500 characters'),
+  default_letter_template: z.string().max(5000, 'Template must be less than 5000 characters'),
+});
+
+type LetterDefaultsValues = z.infer<typeof letterDefaultsSchema>;
+
+const toFormValues = (preferences: ProfilePreferences): LetterDefaultsValues => ({
+  default_send_date_offset: preferences.sendDateOffset,
+  default_goal_format: preferences.goalFormat,
+  default_letter_template: preferences.letterTemplate,
+});
+
+// What a new letter starts with
+export function LetterDefaultsForm({ profile, preferences, onSave, isSaving = false }: SettingsFormProps) {
+  const form = useForm<LetterDefaultsValues>({
+    resolver: zodResolver(letterDefaultsSchema),
+    defaultValues: toFormValues(preferences),
+  });
+
+  const { sendDateOffset, goalFormat, letterTemplate } = preferences;
+  useEffect(() => {
+    if (!profile) return;
+    form.reset({
+      default_send_date_offset: sendDateOffset,
+      default_goal_format: goalFormat,
+      default_letter_template: letterTemplate,
+    });
+  }, [profile, sendDateOffset, goalFormat, letterTemplate, form]);
+
+  const onSubmit = async (values: LetterDefaultsValues) => {
+    try {
+      // Blank means "no template", stored as NULL
+      await onSave({
+        default_send_date_offset: values.default_send_date_offset,
+        default_goal_format: values.default_goal_format.trim() ? values.default_goal_format : null,
+        default_letter_template: values.default_letter_template.trim() ? values.default_letter_template : null,
+      });
+    } catch {
+      // The hook reports the failure
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="default_send_date_offset"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Default delivery (days from today)</FormLabel>
+              <FormControl>
+                <Input type="number" className="w-32" {...field} />
+              </FormControl>
+              <FormDescription>New letters are scheduled this far ahead. You can still change it per letter.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="default_goal_format"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Goal format</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., By [date], I will ... so that ..." {...field} />
+              </FormControl>
+              <FormDescription>Pre-fills the goal of every new letter.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="default_letter_template"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Letter template</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder={'Dear Future Me,\n\nRight now I am ...'}
+                  className="min-h-[120px] resize-y"
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>Pre-fills the content of every new letter.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={isSaving || !form.formState.isDirty}>
+            {isSaving ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Save className="h-3 w-3 mr-1" />}
+            Save
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
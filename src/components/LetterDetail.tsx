@@ -5,6 +5,7 @@ import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
   Calendar,
   Target,
@@ -15,15 +16,36 @@ import {
   CheckCircle,
   Archive,
   Trash2,
+  AlertTriangle,
+  RotateCw,
+  CalendarClock,
+  XCircle,
+  Lock,
+  Unlock,
+  Mic,
+  History,
 } from 'lucide-react';
-import { format, differenceInDays, parseISO } from 'date-fns';
+import { format, parseISO } from 'date-fns';
+import { getDaysUntilDelivery, getLocalTimeZone } from '../lib/timezone';
+import { DEFAULT_RETRY_POLICY, getFailedDelivery, isLetterSealed } from '../lib/delivery';
+import { getMilestoneProgress } from '../lib/milestones';
 import type { LetterDetailProps } from '../lib/types';
+import { MilestoneChecklist } from './MilestoneChecklist';
+import { VoiceMemoPlayer } from './VoiceMemoRecorder';
+import { LetterHistory } from './LetterHistory';
 
 export function LetterDetail({ 
   letter, 
+  timeZone,
   onEdit, 
   onDelete, 
-  onUpdateComments 
+  onUpdateComments,
+  onRetryDelivery,
+  isRetryingDelivery = false,
+  onCancelDelivery,
+  onReschedule,
+  onSeal,
+  onBreakSeal,
 }: LetterDetailProps) {
   
   const [personalComments, setPersonalComments] = useState(letter.personal_comments || '');
@@ -31,13 +53,17 @@ export function LetterDetail({
   const [showOriginalTitle, setShowOriginalTitle] = useState(false);
   const [showOriginalGoal, setShowOriginalGoal] = useState(false);
   const [showOriginalContent, setShowOriginalContent] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   
-  const daysUntilSend = differenceInDays(parseISO(letter.send_date), new Date());
-  const totalMilestones = letter.milestones?.length || 0;
-  const completedMilestones = letter.milestones?.filter(m => m.completed).length || 0;
-  const overallProgress = totalMilestones > 0 
-    ? Math.round((completedMilestones / totalMilestones) * 100) 
-    : 0;
+  const daysUntilSend = getDaysUntilDelivery(letter.send_date, timeZone ?? getLocalTimeZone());
+  const failedDelivery = getFailedDelivery(letter);
+  const isRetrying = failedDelivery?.status === 'pending';
+  const isSealed = isLetterSealed(letter);
+  const {
+    total: totalMilestones,
+    completed: completedMilestones,
+    percent: overallProgress,
+  } = getMilestoneProgress(letter.milestones);
 
   const getStatusInfo = () => {
     const isOverdue = daysUntilSend < 0 && letter.status === 'scheduled';
@@ -111,9 +137,27 @@ export function LetterDetail({
           </div>
           
           <div data-section="detail-actions" className="flex items-center gap-2">
-            <Button onClick={() => onEdit(letter)} disabled={letter.is_locked}>
-              <Edit className="h-4 w-4 mr-2" />
-              {letter.is_locked ? 'Locked' : 'Edit'}
+            {letter.status === 'scheduled' && onReschedule && (
+              <Button variant="outline" onClick={() => onReschedule(letter)}>
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Reschedule
+              </Button>
+            )}
+            {letter.status === 'scheduled' && !letter.is_locked && onSeal && (
+              <Button variant="outline" onClick={() => onSeal(letter)}>
+                <Lock className="h-4 w-4 mr-2" />
+                Seal
+              </Button>
+            )}
+            {letter.status === 'scheduled' && !isSealed && onCancelDelivery && (
+              <Button variant="outline" onClick={() => onCancelDelivery(letter)}>
+                <XCircle className="h-4 w-4 mr-2" />
+                Cancel delivery
+              </Button>
+            )}
+            <Button onClick={() => onEdit(letter)} disabled={isSealed}>
+              {isSealed ? <Lock className="h-4 w-4 mr-2" /> : <Edit className="h-4 w-4 mr-2" />}
+              {isSealed ? 'Sealed' : 'Edit'}
             </Button>
             <Button 
               onClick={() => onDelete(letter)}
@@ -137,38 +181,73 @@ export function LetterDetail({
         </div>
       </div>
 
+      {failedDelivery && (
+        <Alert data-section="delivery-failure" variant={isRetrying ? 'default' : 'destructive'}>
+          {isRetrying ? <RotateCw className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+          <AlertTitle>{isRetrying ? 'Delivery is being retried' : 'Delivery failed'}</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <p>
+              {failedDelivery.last_error || failedDelivery.error_message || 'The email could not be sent.'}
+            </p>
+            <p className="text-xs">
+              {isRetrying && failedDelivery.next_attempt_at
+                ? `Attempt ${failedDelivery.attempt_count} of ${DEFAULT_RETRY_POLICY.maxAttempts} failed. Next attempt ${format(parseISO(failedDelivery.next_attempt_at), 'MMM d, h:mm a')}.`
+                : 'We stopped retrying automatically.'}
+            </p>
+            {onRetryDelivery && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onRetryDelivery(letter)}
+                disabled={isRetryingDelivery}
+              >
+                {isRetryingDelivery ? (
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                ) : (
+                  <RotateCw className="h-3 w-3 mr-1" />
+                )}
+                Retry now
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Separator />
 
-      <div data-section="goal-section" className="space-y-3">
-        <div className="flex items-center justify-between">
-          <h2 className="text-lg font-semibold flex items-center">
-            <Target className="h-5 w-5 mr-2" />
-            Goal
-          </h2>
-          {hasEnhancement && letter.ai_enhanced_goal && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setShowOriginalGoal(!showOriginalGoal)}
-              className="text-xs"
-            >
-              Show {showOriginalGoal ? 'Enhanced' : 'Original'}
-            </Button>
-          )}
-        </div>
+      {/* The seal covers the goal as well as the content */}
+      {!isSealed && (
+        <div data-section="goal-section" className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold flex items-center">
+              <Target className="h-5 w-5 mr-2" />
+              Goal
+            </h2>
+            {hasEnhancement && letter.ai_enhanced_goal && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowOriginalGoal(!showOriginalGoal)}
+                className="text-xs"
+              >
+                Show {showOriginalGoal ? 'Enhanced' : 'Original'}
+              </Button>
+            )}
+          </div>
         
-        <div className={`p-4 rounded-lg ${
-          hasEnhancement && letter.ai_enhanced_goal && !showOriginalGoal
-            ? 'bg-primary/10 border border-primary/20'
-            : 'bg-muted/50'
-        }`}>
-          <p className="text-sm leading-relaxed">
-            {hasEnhancement && letter.ai_enhanced_goal && !showOriginalGoal
-              ? letter.ai_enhanced_goal
-              : letter.goal}
-          </p>
+          <div className={`p-4 rounded-lg ${
+            hasEnhancement && letter.ai_enhanced_goal && !showOriginalGoal
+              ? 'bg-primary/10 border border-primary/20'
+              : 'bg-muted/50'
+          }`}>
+            <p className="text-sm leading-relaxed">
+              {hasEnhancement && letter.ai_enhanced_goal && !showOriginalGoal
+                ? letter.ai_enhanced_goal
+                : letter.goal}
+            </p>
+          </div>
         </div>
-      </div>
+      )}
 
       <div data-section="progress-section">
         {totalMilestones > 0 && (
@@ -183,6 +262,7 @@ export function LetterDetail({
             <div className="text-sm text-muted-foreground">
               {completedMilestones} of {totalMilestones} milestones completed
             </div>
+            <MilestoneChecklist letterId={letter.id} milestones={letter.milestones ?? []} />
           </div>
           </div>
         )}
@@ -191,7 +271,7 @@ export function LetterDetail({
       <div data-section="content-section" className="space-y-3">
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-semibold">Letter Content</h2>
-          {hasEnhancement && letter.ai_enhanced_content && (
+          {hasEnhancement && letter.ai_enhanced_content && !isSealed && (
             <Button
               variant="ghost"
               size="sm"
@@ -203,19 +283,65 @@ export function LetterDetail({
           )}
         </div>
         
-        <div className={`p-4 rounded-lg ${
-          hasEnhancement && letter.ai_enhanced_content && !showOriginalContent
-            ? 'bg-primary/10 border border-primary/20'
-            : 'bg-muted/30'
-        }`}>
-          <p className="text-sm whitespace-pre-wrap leading-relaxed">
-            {hasEnhancement && letter.ai_enhanced_content && !showOriginalContent
-              ? letter.ai_enhanced_content
-              : letter.content}
-          </p>
-        </div>
+        {isSealed ? (
+          <div data-section="sealed-content" className="p-6 rounded-lg border border-dashed text-center space-y-3">
+            <Lock className="h-8 w-8 mx-auto text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              This letter is sealed until {format(parseISO(letter.send_date), 'MMMM d, yyyy')}.
+              You'll read it again when it arrives.
+            </p>
+            {onBreakSeal && (
+              <Button variant="outline" size="sm" onClick={() => onBreakSeal(letter)}>
+                <Unlock className="h-3 w-3 mr-1" />
+                Break the seal
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className={`p-4 rounded-lg ${
+            hasEnhancement && letter.ai_enhanced_content && !showOriginalContent
+              ? 'bg-primary/10 border border-primary/20'
+              : 'bg-muted/30'
+          }`}>
+            <p className="text-sm whitespace-pre-wrap leading-relaxed">
+              {hasEnhancement && letter.ai_enhanced_content && !showOriginalContent
+                ? letter.ai_enhanced_content
+                : letter.content}
+            </p>
+          </div>
+        )}
       </div>
 
+      {letter.voice_memo_url && !isSealed && (
+        <div data-section="voice-memo-section" className="space-y-3">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Mic className="h-4 w-4" />
+            Voice Memo
+          </h2>
+          <VoiceMemoPlayer value={letter.voice_memo_url} />
+        </div>
+      )}
+
+      {!isSealed && (
+        <div data-section="history-section" className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Version History
+            </h2>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowHistory(!showHistory)}
+              className="text-xs"
+            >
+              {showHistory ? 'Hide' : 'Show'} history
+            </Button>
+          </div>
+          {showHistory && <LetterHistory letter={letter} />}
+        </div>
+      )}
+
       <div data-section="comments-section" className="space-y-3">
         <h2 className="text-lg font-semibold">Personal Comments & Reflections</h2>
         <div className="space-y-3">
@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import { DEFAULT_LETTER_QUERY, LETTER_SORT_OPTIONS, hasActiveFilters } from '../lib/letter-query';
+import type { FilterOptions, LetterFiltersProps, LetterSortKey, LetterStatus } from '../lib/types';
+
+const STATUS_OPTIONS: { value: LetterStatus | 'all'; label: string }[] = [
+  { value: 'all', label: 'All statuses' },
+  { value: 'draft', label: 'Draft' },
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'archived', label: 'Archived' },
+];
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Search box, status and send-date filters and sort order for the letters page
+export function LetterFilters({ query, onChange }: LetterFiltersProps) {
+  const [searchText, setSearchText] = useState(query.filters.search ?? '');
+  const { status, dateRange } = query.filters;
+
+  // Follow the URL when it changes underneath us (back button, cleared filters)
+  useEffect(() => {
+    setSearchText(query.filters.search ?? '');
+  }, [query.filters.search]);
+
+  // Any filter change starts again from the first page
+  const updateFilters = (filters: FilterOptions) => {
+    onChange({ ...query, filters, page: 1 });
+  };
+
+  // The debounced search applies to whatever the query is when it fires
+  const latest = useRef({ query, onChange });
+  latest.current = { query, onChange };
+
+  useEffect(() => {
+    const search = searchText.trim() || undefined;
+    if (search === latest.current.query.filters.search) return;
+
+    const timer = setTimeout(() => {
+      const { query, onChange } = latest.current;
+      onChange({ ...query, filters: { ...query.filters, search }, page: 1 });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const updateDateRange = (key: 'start' | 'end', value: string) => {
+    const next = { ...dateRange, [key]: value || undefined };
+    updateFilters({
+      ...query.filters,
+      dateRange: next.start || next.end ? next : undefined,
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4 lg:flex-row lg:items-end">
+      <div className="flex-1 space-y-1">
+        <Label htmlFor="letter-search">Search</Label>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            id="letter-search"
+            type="search"
+            placeholder="Search titles, goals and content..."
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="letter-status">Status</Label>
+        <Select
+          value={status ?? 'all'}
+          onValueChange={(value) =>
+            updateFilters({
+              ...query.filters,
+              status: value === 'all' ? undefined : (value as LetterStatus),
+            })
+          }
+        >
+          <SelectTrigger id="letter-status" className="w-full lg:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STATUS_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="letter-send-from">Delivers from</Label>
+          <Input
+            id="letter-send-from"
+            type="date"
+            value={dateRange?.start ?? ''}
+            max={dateRange?.end}
+            onChange={(e) => updateDateRange('start', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="letter-send-to">to</Label>
+          <Input
+            id="letter-send-to"
+            type="date"
+            value={dateRange?.end ?? ''}
+            min={dateRange?.start}
+            onChange={(e) => updateDateRange('end', e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="letter-sort">Sort by</Label>
+        <Select
+          value={query.sort}
+          onValueChange={(value) => onChange({ ...query, sort: value as LetterSortKey, page: 1 })}
+        >
+          <SelectTrigger id="letter-sort" className="w-full lg:w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(LETTER_SORT_OPTIONS).map(([value, option]) => (
+              <SelectItem key={value} value={value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {hasActiveFilters(query) && (
+        <Button
+          variant="ghost"
+          onClick={() => {
+            setSearchText('');
+            onChange({ ...DEFAULT_LETTER_QUERY, sort: query.sort });
+          }}
+        >
+          <X className="h-4 w-4 mr-2" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,7 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { format, addDays } from 'date-fns';
 
 import { Button } from '@/components/ui/button';
 import {
@@ -16,15 +15,33 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { Save, Plus, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Save, Plus, Loader2, History, AlertTriangle, Cloud, HardDrive } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 
 import { useLetters } from '../hooks/useLetters';
 import { useMilestones } from '../hooks/useMilestones';
-import type { Letter, CreateLetterData, UpdateLetterData, LetterFormProps } from '../lib/types';
+import { useProfile } from '../hooks/useProfile';
+import { useVoiceMemo } from '../hooks/useVoiceMemo';
+import { useDraftAutosave } from '../hooks/useDraftAutosave';
+import { addDaysToDate, getTodayInTimeZone } from '../lib/timezone';
+import { sortMilestones, toMilestoneUIData, toSyncMilestoneData } from '../lib/milestones';
+import type {
+  Letter,
+  CreateLetterData,
+  UpdateLetterData,
+  LetterFormProps,
+  LetterEditSource,
+  MilestoneUIData,
+  DraftSnapshot,
+  AutosaveStatus,
+} from '../lib/types';
 import { FieldEnhancer } from './FieldEnhancer';
 import { MilestoneManager } from './MilestoneManager';
+import { VoiceMemoRecorder } from './VoiceMemoRecorder';
 
-const letterFormSchema = z.object({
+// Send dates are calendar days in the user's profile timezone
+const buildLetterFormSchema = (timeZone: string) => z.object({
   title: z
     .string()
     .min(1, 'Title is required')
@@ -40,28 +57,71 @@ const letterFormSchema = z.object({
   send_date: z
     .string()
     .refine(
-      (date) => new Date(date) > new Date(),
+      (date) => date > getTodayInTimeZone(timeZone),
       'Send date must be in the future'
     ),
   personal_comments: z.string().max(1000).optional().default(''),
 });
 
-type LetterFormValues = z.infer<typeof letterFormSchema>;
+type LetterFormValues = z.infer<ReturnType<typeof buildLetterFormSchema>>;
+
+function AutosaveIndicator({ status, lastSavedAt }: { status: AutosaveStatus; lastSavedAt?: string }) {
+  switch (status) {
+    case 'pending':
+      return <span className="text-xs text-muted-foreground">Unsaved changes</span>;
+    case 'saving':
+      return (
+        <span className="flex items-center text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          Saving draft...
+        </span>
+      );
+    case 'saved':
+      return (
+        <span className="flex items-center text-xs text-muted-foreground">
+          <Cloud className="h-3 w-3 mr-1" />
+          Draft saved{lastSavedAt ? ` at ${format(parseISO(lastSavedAt), 'h:mm a')}` : ''}
+        </span>
+      );
+    case 'local':
+      return (
+        <span className="flex items-center text-xs text-muted-foreground">
+          <HardDrive className="h-3 w-3 mr-1" />
+          Saved on this device
+        </span>
+      );
+    default:
+      return null;
+  }
+}
 
 export function LetterForm({ letter, onClose, onSuccess }: LetterFormProps) {
   const isEditMode = !!letter;
   const { createLetter, updateLetter } = useLetters();
-  const { createMilestones, updateMilestones } = useMilestones();
+  const { updateMilestones } = useMilestones();
+  const { profile, timeZone, preferences } = useProfile();
+  const { removeVoiceMemo } = useVoiceMemo();
+  const autosave = useDraftAutosave(letter, profile?.user_id);
+  const today = getTodayInTimeZone(timeZone);
+  const letterFormSchema = useMemo(() => buildLetterFormSchema(timeZone), [timeZone]);
   
-  const [milestones, setMilestones] = useState(letter?.milestones || []);
+  const [milestones, setMilestones] = useState<MilestoneUIData[]>(() =>
+    sortMilestones(letter?.milestones).map(toMilestoneUIData)
+  );
+  const [voiceMemo, setVoiceMemo] = useState<string | null>(letter?.voice_memo_url || null);
+  // Accepted AI suggestions, so the saved revision can say where its text came from
+  const [appliedSuggestions, setAppliedSuggestions] = useState<Partial<Record<keyof LetterFormValues, string>>>({});
+  // Bumped when the whole form is replaced, so MilestoneManager starts over
+  const [formVersion, setFormVersion] = useState(0);
 
   const form = useForm<LetterFormValues>({
     resolver: zodResolver(letterFormSchema),
     defaultValues: {
       title: letter?.title || '',
-      content: letter?.content || '',
-      goal: letter?.goal || '',
-      send_date: letter?.send_date || format(addDays(new Date(), 30), 'yyyy-MM-dd'),
+      // New letters start from the user's template and goal format
+      content: letter?.content || (isEditMode ? '' : preferences.letterTemplate),
+      goal: letter?.goal || (isEditMode ? '' : preferences.goalFormat),
+      send_date: letter?.send_date || addDaysToDate(today, preferences.sendDateOffset),
       personal_comments: letter?.personal_comments || '',
     },
   });
@@ -78,18 +138,99 @@ export function LetterForm({ letter, onClose, onSuccess }: LetterFormProps) {
         send_date: letter.send_date,
         personal_comments: letter.personal_comments || '',
       });
+      setVoiceMemo(letter.voice_memo_url || null);
     }
   }, [letter, form]);
 
+  // Counts as AI-written only if a suggestion survived the user's own edits
+  const getEditSource = (values: Partial<LetterFormValues>): LetterEditSource =>
+    (['title', 'goal', 'content'] as const).some(
+      (field) => appliedSuggestions[field] !== undefined && appliedSuggestions[field] === values[field]
+    )
+      ? 'ai'
+      : 'manual';
+
+  const snapshot: DraftSnapshot = {
+    title: formValues.title ?? '',
+    goal: formValues.goal ?? '',
+    content: formValues.content ?? '',
+    send_date: formValues.send_date ?? '',
+    personal_comments: formValues.personal_comments,
+    voice_memo_url: voiceMemo,
+    last_edit_source: getEditSource(formValues),
+    milestones,
+  };
+
+  // Hand every change to autosave; the key keeps re-renders that change
+  // nothing from restarting its timer
+  const snapshotKey = JSON.stringify(snapshot);
+  const latest = useRef({ snapshot, queueDraft: autosave.queueDraft });
+  latest.current = { snapshot, queueDraft: autosave.queueDraft };
+  useEffect(() => {
+    latest.current.queueDraft(latest.current.snapshot);
+  }, [snapshotKey]);
+
+  const replaceForm = (next: DraftSnapshot) => {
+    form.reset({
+      title: next.title,
+      content: next.content,
+      goal: next.goal,
+      send_date: next.send_date,
+      personal_comments: next.personal_comments || '',
+    });
+    setVoiceMemo(next.voice_memo_url);
+    setMilestones(next.milestones);
+    setFormVersion((version) => version + 1);
+  };
+
+  const handleRestoreDraft = () => {
+    if (!autosave.recoveredDraft) return;
+    replaceForm(autosave.recoveredDraft.snapshot);
+    autosave.dismissRecoveredDraft();
+  };
+
+  const handleKeepTheirs = () => {
+    const theirs = autosave.conflict;
+    if (!theirs) return;
+    autosave.resolveConflict('theirs');
+    replaceForm({
+      title: theirs.title,
+      goal: theirs.goal,
+      content: theirs.content,
+      send_date: theirs.send_date,
+      personal_comments: theirs.personal_comments,
+      voice_memo_url: theirs.voice_memo_url || null,
+      last_edit_source: 'manual',
+      milestones,
+    });
+  };
+
   const handleFieldEnhancement = (field: keyof LetterFormValues, enhancedValue: string) => {
     form.setValue(field, enhancedValue, { 
       shouldValidate: true,
       shouldDirty: true 
     });
+    setAppliedSuggestions((applied) => ({ ...applied, [field]: enhancedValue }));
+  };
+
+  // Undoing an auto-applied suggestion puts the user's own text back
+  const handleUndoEnhancement = (field: keyof LetterFormValues, previousValue: string) => {
+    form.setValue(field, previousValue, {
+      shouldValidate: true,
+      shouldDirty: true
+    });
+    setAppliedSuggestions((applied) => {
+      const next = { ...applied };
+      delete next[field];
+      return next;
+    });
   };
   const onSubmit = async (data: LetterFormValues) => {
     try {
       let result: Letter;
+      const lastEditSource = getEditSource(data);
+      // Autosave may already have created the row for a new letter
+      const draftId = await autosave.settle();
 
       if (isEditMode && letter) {
         const updateData: UpdateLetterData = {
@@ -98,18 +239,36 @@ export function LetterForm({ letter, onClose, onSuccess }: LetterFormProps) {
           goal: data.goal,
           send_date: data.send_date,
           personal_comments: data.personal_comments,
+          voice_memo_url: voiceMemo,
+          last_edit_source: lastEditSource,
         };
         result = await updateLetter(letter.id, updateData);
+
+        // The old recording was replaced or removed; drop it from storage
+        if (letter.voice_memo_url && letter.voice_memo_url !== voiceMemo) {
+          await removeVoiceMemo(letter.voice_memo_url).catch(() => undefined);
+        }
       } else {
         const createData: CreateLetterData = {
           title: data.title,
           content: data.content,
           goal: data.goal,
           send_date: data.send_date,
+          voice_memo_url: voiceMemo || undefined,
+          last_edit_source: lastEditSource,
         };
-        result = await createLetter(createData);
+        result = draftId
+          ? await updateLetter(draftId, createData)
+          : await createLetter(createData);
+      }
+
+      // Existing rows are matched by id, so completion state survives the edit
+      if (isEditMode || milestones.length > 0) {
+        const saved = await updateMilestones(result.id, toSyncMilestoneData(milestones));
+        result = { ...result, milestones: saved };
       }
 
+      autosave.clearDraft();
       onSuccess(result);
     } catch (error) {
       console.error('Form submission error:', error);
@@ -131,6 +290,48 @@ export function LetterForm({ letter, onClose, onSuccess }: LetterFormProps) {
         </p>
       </div>
 
+      {autosave.recoveredDraft && (
+        <Alert data-section="recovered-draft">
+          <History className="h-4 w-4" />
+          <AlertTitle>Restore unsaved draft?</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <p>
+              You have changes from {format(parseISO(autosave.recoveredDraft.savedAt), 'MMM d, h:mm a')} that
+              were never saved.
+            </p>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" onClick={handleRestoreDraft}>
+                Restore draft
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={autosave.dismissRecoveredDraft}>
+                Discard
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {autosave.conflict && (
+        <Alert data-section="draft-conflict" variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>This draft was changed somewhere else</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <p>
+              A newer version was saved at {format(parseISO(autosave.conflict.updated_at), 'MMM d, h:mm a')},
+              probably from another tab. Autosave is paused until you choose which to keep.
+            </p>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" variant="outline" onClick={handleKeepTheirs}>
+                Load the newer version
+              </Button>
+              <Button type="button" size="sm" onClick={() => autosave.resolveConflict('mine')}>
+                Keep my changes
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           <div data-section="basic-fields" className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -147,15 +348,19 @@ export function LetterForm({ letter, onClose, onSuccess }: LetterFormProps) {
                     />
                   </FormControl>
                   <FormMessage />
-                  <FieldEnhancer
-                    field="title"
-                    value={field.value}
-                    onApply={(enhanced) => handleFieldEnhancement('title', enhanced)}
-                    context={{
-                      goal: formValues.goal,
-                      content: formValues.content,
-                    }}
-                  />
+                  {preferences.ai.enabled && (
+                    <FieldEnhancer
+                      field="title"
+                      value={field.value}
+                      onApply={(enhanced) => handleFieldEnhancement('title', enhanced)}
+                      onUndo={(previous) => handleUndoEnhancement('title', previous)}
+                      autoApply={preferences.ai.auto_apply}
+                      context={{
+                        goal: formValues.goal,
+                        content: formValues.content,
+                      }}
+                    />
+                  )}
                 </FormItem>
               )}
             />
@@ -169,12 +374,12 @@ export function LetterForm({ letter, onClose, onSuccess }: LetterFormProps) {
                   <FormControl>
                     <Input
                       type="date"
-                      min={format(addDays(new Date(), 1), 'yyyy-MM-dd')}
+                      min={addDaysToDate(today, 1)}
                       {...field}
                     />
                   </FormControl>
                   <FormDescription>
-                    When should this letter be delivered?
+                    When should this letter be delivered? ({timeZone})
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -200,15 +405,19 @@ export function LetterForm({ letter, onClose, onSuccess }: LetterFormProps) {
                   What do you hope to accomplish by the time you receive this letter?
                 </FormDescription>
                 <FormMessage />
-                <FieldEnhancer
-                  field="goal"
-                  value={field.value}
-                  onApply={(enhanced) => handleFieldEnhancement('goal', enhanced)}
-                  context={{
-                    title: formValues.title,
-                    content: formValues.content,
-                  }}
-                />
+                {preferences.ai.enabled && (
+                  <FieldEnhancer
+                    field="goal"
+                    value={field.value}
+                    onApply={(enhanced) => handleFieldEnhancement('goal', enhanced)}
+                    onUndo={(previous) => handleUndoEnhancement('goal', previous)}
+                    autoApply={preferences.ai.auto_apply}
+                    context={{
+                      title: formValues.title,
+                      content: formValues.content,
+                    }}
+                  />
+                )}
               </FormItem>
             )}
           />
@@ -232,26 +441,45 @@ export function LetterForm({ letter, onClose, onSuccess }: LetterFormProps) {
                   Write your message to your future self. Be specific about your hopes, dreams, and current situation.
                 </FormDescription>
                 <FormMessage />
-                <FieldEnhancer
-                  field="content"
-                  value={field.value}
-                  onApply={(enhanced) => handleFieldEnhancement('content', enhanced)}
-                  context={{
-                    title: formValues.title,
-                    goal: formValues.goal,
-                  }}
-                />
+                {preferences.ai.enabled && (
+                  <FieldEnhancer
+                    field="content"
+                    value={field.value}
+                    onApply={(enhanced) => handleFieldEnhancement('content', enhanced)}
+                    onUndo={(previous) => handleUndoEnhancement('content', previous)}
+                    autoApply={preferences.ai.auto_apply}
+                    context={{
+                      title: formValues.title,
+                      goal: formValues.goal,
+                    }}
+                  />
+                )}
               </FormItem>
             )}
           />
           </div>
 
+          <div data-section="voice-memo" className="space-y-2">
+            <h3 className="text-sm font-medium">Voice Memo</h3>
+            <p className="text-sm text-muted-foreground">
+              Record a message in your own voice. It arrives with the letter.
+            </p>
+            <VoiceMemoRecorder
+              value={voiceMemo}
+              onChange={setVoiceMemo}
+              disabled={isSubmitting}
+            />
+          </div>
+
           <div data-section="milestones" className="border-t pt-6">
             <MilestoneManager
               goal={formValues.goal}
               content={formValues.content}
               title={formValues.title}
+              sendDate={formValues.send_date}
+              key={formVersion}
               initialMilestones={milestones}
+              aiEnabled={preferences.ai.enabled}
               onChange={setMilestones}
             />
           </div>
@@ -282,18 +510,21 @@ export function LetterForm({ letter, onClose, onSuccess }: LetterFormProps) {
           </div>
 
           <div data-section="form-actions" className="flex items-center justify-between pt-6 border-t">
-            <Button 
-              type="button" 
-              variant="outline" 
-              onClick={onClose}
-              disabled={isSubmitting}
-            >
-              Cancel
-            </Button>
+            <div className="flex items-center gap-4">
+              <Button 
+                type="button" 
+                variant="outline" 
+                onClick={onClose}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <AutosaveIndicator status={autosave.status} lastSavedAt={autosave.lastSavedAt} />
+            </div>
             
             <Button 
               type="submit" 
-              disabled={isSubmitting || !form.formState.isValid}
+              disabled={isSubmitting || !form.formState.isValid || !!autosave.conflict}
               className="min-w-[120px]"
             >
               {isSubmitting ? (
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { History, Loader2, RotateCcw, Save, Sparkles } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useLetterRevisions } from '../hooks/useLetterRevisions';
+import { diffLines, hasChanges, toSideBySide } from '../lib/text-diff';
+import type { DiffLine, LetterHistoryProps, LetterRevision, RevisionDiffProps } from '../lib/types';
+
+const DIFF_FIELDS = [
+  { key: 'title', label: 'Title' },
+  { key: 'goal', label: 'Goal' },
+  { key: 'content', label: 'Letter Content' },
+] as const;
+
+const lineClass = (line?: DiffLine) => {
+  if (!line) return 'bg-muted/30';
+  if (line.type === 'removed') return 'bg-destructive/10';
+  if (line.type === 'added') return 'bg-emerald-50';
+  return '';
+};
+
+// Two columns per field: the earlier text on the left, the newer on the right
+export function RevisionDiff({ before, after }: RevisionDiffProps) {
+  const fields = DIFF_FIELDS.map((field) => ({
+    ...field,
+    lines: diffLines(before[field.key], after[field.key]),
+  })).filter((field) => hasChanges(field.lines));
+
+  if (fields.length === 0) {
+    return <p className="text-sm text-muted-foreground">No differences from the current version.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {fields.map((field) => (
+        <div key={field.key} data-field={field.key} className="space-y-1">
+          <h4 className="text-sm font-medium">{field.label}</h4>
+          <div className="grid grid-cols-2 gap-px rounded-md border bg-border text-xs overflow-hidden">
+            {toSideBySide(field.lines).map((row, index) => (
+              <div key={index} className="contents">
+                <div
+                  data-side="before"
+                  data-type={row.left?.type}
+                  className={`bg-background px-2 py-1 whitespace-pre-wrap ${lineClass(row.left)}`}
+                >
+                  {row.left?.text}
+                </div>
+                <div
+                  data-side="after"
+                  data-type={row.right?.type}
+                  className={`bg-background px-2 py-1 whitespace-pre-wrap ${lineClass(row.right)}`}
+                >
+                  {row.right?.text}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Saved versions of a letter, with a diff against the current text and a
+// way back to any of them
+export function LetterHistory({ letter }: LetterHistoryProps) {
+  const { revisions, isLoading, restoreRevision, isRestoring } = useLetterRevisions(letter.id);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selected = revisions.find((r) => r.id === selectedId);
+
+  const isCurrent = (revision: LetterRevision) =>
+    revision.title === letter.title &&
+    revision.goal === letter.goal &&
+    revision.content === letter.content;
+
+  const authorOf = (revision: LetterRevision) => {
+    if (!revision.created_by) return 'System';
+    return revision.created_by === letter.user_id ? 'You' : 'Someone else';
+  };
+
+  const handleRestore = async (revision: LetterRevision) => {
+    try {
+      await restoreRevision(revision);
+      setSelectedId(null);
+    } catch {
+      // The hook reports the failure
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No earlier versions yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-2" aria-label="Revisions">
+        {revisions.map((revision) => {
+          const restoredFrom = revisions.find((r) => r.id === revision.restored_from);
+
+          return (
+            <li key={revision.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedId(revision.id === selectedId ? null : revision.id)}
+                aria-pressed={revision.id === selectedId}
+                className={`w-full text-left p-3 rounded-lg border transition-colors hover:bg-muted/50 ${
+                  revision.id === selectedId ? 'border-primary bg-primary/5' : ''
+                }`}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <History className="h-3 w-3 text-muted-foreground" />
+                  <span className="text-sm font-medium">Revision {revision.revision_number}</span>
+                  {isCurrent(revision) && <Badge variant="secondary">Current</Badge>}
+                  {revision.source === 'ai' && (
+                    <Badge variant="outline">
+                      <Sparkles className="h-3 w-3 mr-1" />
+                      AI suggestion
+                    </Badge>
+                  )}
+                  {revision.autosave && (
+                    <Badge variant="outline">
+                      <Save className="h-3 w-3 mr-1" />
+                      Autosaved draft
+                    </Badge>
+                  )}
+                  {revision.source === 'restore' && (
+                    <Badge variant="outline">
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      {restoredFrom ? `Restored revision ${restoredFrom.revision_number}` : 'Restored'}
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">
+                  {authorOf(revision)} · {format(parseISO(revision.created_at), 'MMM d, yyyy h:mm a')}
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {selected && (
+        <div data-section="revision-diff" className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">
+              Revision {selected.revision_number} compared with the current version
+            </h3>
+            {!isCurrent(selected) && (
+              <Button size="sm" variant="outline" onClick={() => handleRestore(selected)} disabled={isRestoring}>
+                {isRestoring ? (
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                )}
+                Restore this version
+              </Button>
+            )}
+          </div>
+          <RevisionDiff before={selected} after={letter} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ArrowDown, ArrowUp, Check, Edit, Trash2, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useMilestones } from '../hooks/useMilestones';
+import { sortMilestones } from '../lib/milestones';
+import type { Milestone, MilestoneChecklistProps, UpdateMilestoneData } from '../lib/types';
+
+interface MilestoneDraft {
+  title: string;
+  target_date: string;
+  percentage: string;
+}
+
+// Tick off, edit, reorder and delete a letter's milestones
+export function MilestoneChecklist({ letterId, milestones }: MilestoneChecklistProps) {
+  const { toggleMilestone, updateMilestone, reorderMilestones, deleteMilestone } = useMilestones();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<MilestoneDraft>({ title: '', target_date: '', percentage: '' });
+
+  const ordered = sortMilestones(milestones);
+
+  // Failures are reported by the hook's toast and rolled back in the cache
+  const run = (action: Promise<unknown>) => {
+    action.catch(() => undefined);
+  };
+
+  const startEditing = (milestone: Milestone) => {
+    setEditingId(milestone.id);
+    setDraft({
+      title: milestone.title,
+      target_date: milestone.target_date.slice(0, 10),
+      percentage: String(milestone.percentage),
+    });
+  };
+
+  const draftPercentage = Number(draft.percentage);
+  const isDraftValid =
+    draft.title.trim().length > 0 &&
+    !!draft.target_date &&
+    draft.percentage !== '' &&
+    draftPercentage >= 0 &&
+    draftPercentage <= 100;
+
+  const saveEdit = (milestone: Milestone) => {
+    if (!isDraftValid) return;
+
+    const data: UpdateMilestoneData = {
+      title: draft.title.trim(),
+      target_date: draft.target_date,
+      percentage: draftPercentage,
+    };
+    setEditingId(null);
+    run(updateMilestone(milestone, data));
+  };
+
+  const move = (index: number, offset: number) => {
+    const ids = ordered.map((m) => m.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    run(reorderMilestones(letterId, ids));
+  };
+
+  return (
+    <ul className="space-y-2" aria-label="Milestones">
+      {ordered.map((milestone, index) => {
+        const checkboxId = `milestone-${milestone.id}`;
+
+        if (editingId === milestone.id) {
+          return (
+            <li key={milestone.id} className="p-3 rounded-lg border space-y-2">
+              <Input
+                aria-label="Milestone title"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              />
+              <div className="flex gap-2">
+                <Input
+                  aria-label="Target date"
+                  type="date"
+                  value={draft.target_date}
+                  onChange={(e) => setDraft({ ...draft, target_date: e.target.value })}
+                />
+                <Input
+                  aria-label="Weight (%)"
+                  type="number"
+                  min={0}
+                  max={100}
+                  className="w-24"
+                  value={draft.percentage}
+                  onChange={(e) => setDraft({ ...draft, percentage: e.target.value })}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                  <X className="h-3 w-3 mr-1" />
+                  Cancel
+                </Button>
+                <Button type="button" size="sm" onClick={() => saveEdit(milestone)} disabled={!isDraftValid}>
+                  <Check className="h-3 w-3 mr-1" />
+                  Save
+                </Button>
+              </div>
+            </li>
+          );
+        }
+
+        return (
+          <li key={milestone.id} className="flex items-start gap-3 p-3 rounded-lg border">
+            <Checkbox
+              id={checkboxId}
+              checked={milestone.completed}
+              onCheckedChange={(checked) => run(toggleMilestone(milestone, checked === true))}
+              className="mt-0.5"
+            />
+            <div className="flex-1 min-w-0">
+              <label
+                htmlFor={checkboxId}
+                className={`text-sm font-medium cursor-pointer ${
+                  milestone.completed ? 'line-through text-muted-foreground' : ''
+                }`}
+              >
+                {milestone.title}
+              </label>
+              <div className="text-xs text-muted-foreground">
+                {milestone.completed && milestone.completed_at
+                  ? `Completed ${format(parseISO(milestone.completed_at), 'MMM d, yyyy')}`
+                  : `Due ${format(parseISO(milestone.target_date), 'MMM d, yyyy')}`}
+                {' · '}
+                {Number(milestone.percentage)}% of goal
+              </div>
+            </div>
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label="Move up"
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label="Move down"
+                disabled={index === ordered.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label="Edit milestone"
+                onClick={() => startEditing(milestone)}
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-destructive"
+                aria-label="Delete milestone"
+                onClick={() => run(deleteMilestone(milestone))}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -23,8 +23,10 @@ function MilestoneManagerComponent({
   goal, 
   content, 
   title, 
+  sendDate,
   initialMilestones = [], 
-  onChange 
+  onChange,
+  aiEnabled = true,
 }: MilestoneManagerProps) {
   const { inferMilestones, isInferringMilestones } = useEnhancement();
   const [milestones, setMilestones] = useState<MilestoneUIData[]>(initialMilestones);
@@ -37,7 +39,8 @@ function MilestoneManagerComponent({
   useEffect(() => {
     const shouldInfer = goal.trim().length > 20 && content.trim().length > 50;
     
-    if (shouldInfer && 
+    if (aiEnabled &&
+        shouldInfer && 
         milestones.length === 0 && 
         inferredSuggestions.length === 0 && 
         !showInferred) {
@@ -53,7 +56,7 @@ function MilestoneManagerComponent({
     if (!goal.trim() || !content.trim()) return;
 
     try {
-      const response = await inferMilestones({ goal, content, title });
+      const response = await inferMilestones({ goal, content, title, sendDate: sendDate || undefined });
       setInferredSuggestions(response.suggestedMilestones);
       setShowInferred(true);
     } catch (error) {
@@ -131,7 +134,7 @@ function MilestoneManagerComponent({
     setEditingText('');
   };
 
-  const canInfer = goal.trim().length > 10 && content.trim().length > 20;
+  const canInfer = aiEnabled && goal.trim().length > 10 && content.trim().length > 20;
 
   return (
     <div data-section="milestone-manager" className="space-y-4">
@@ -389,6 +392,8 @@ export const MilestoneManager = memo(MilestoneManagerComponent, (prevProps, next
     prevProps.goal === nextProps.goal &&
     prevProps.content === nextProps.content &&
     prevProps.title === nextProps.title &&
+    prevProps.sendDate === nextProps.sendDate &&
+    prevProps.aiEnabled === nextProps.aiEnabled &&
     prevProps.initialMilestones?.length === nextProps.initialMilestones?.length
   );
 });
@@ -0,0 +1,179 @@
+/**
+ * NOTIFICATION CENTER
+ *
+ * Bell button with an unread badge that opens a list of the user's letter
+ * deliveries and milestone reminders. Each entry links to its letter.
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Bell, CheckCircle, Clock, RotateCw, AlertTriangle, XCircle } from 'lucide-react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { useNotifications } from '../hooks/useNotifications';
+import {
+  NOTIFICATION_STATE_LABELS,
+  NOTIFICATION_TYPE_LABELS,
+  getNotificationState,
+  getNotificationTime,
+  isUnreadNotification,
+} from '../lib/notifications';
+import type { Notification, NotificationState, NotificationType } from '../lib/types';
+
+type NotificationFilter = 'all' | NotificationType;
+
+const FILTERS: { value: NotificationFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'letter_delivery', label: 'Deliveries' },
+  { value: 'milestone_reminder', label: 'Reminders' },
+];
+
+const STATE_ICONS: Record<NotificationState, JSX.Element> = {
+  scheduled: <Clock className="h-4 w-4 text-muted-foreground" />,
+  sent: <CheckCircle className="h-4 w-4 text-green-600" />,
+  retrying: <RotateCw className="h-4 w-4 text-amber-600" />,
+  failed: <AlertTriangle className="h-4 w-4 text-destructive" />,
+  cancelled: <XCircle className="h-4 w-4 text-muted-foreground" />,
+};
+
+interface NotificationCenterProps {
+  // Icon-only trigger for the collapsed sidebar
+  compact?: boolean;
+  align?: 'start' | 'center' | 'end';
+}
+
+export function NotificationCenter({ compact = false, align = 'start' }: NotificationCenterProps) {
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+  const { notifications, unreadCount, isLoading, markAsRead, markAllAsRead } = useNotifications();
+
+  const visible = filter === 'all'
+    ? notifications
+    : notifications.filter((n) => n.type === filter);
+
+  const handleSelect = (notification: Notification) => {
+    if (isUnreadNotification(notification)) {
+      markAsRead([notification.id]).catch(() => {
+        // The error toast is already handled by the hook
+      });
+    }
+    setOpen(false);
+  };
+
+  const describe = (notification: Notification) => {
+    if (notification.type === 'milestone_reminder' && notification.milestone) {
+      return notification.milestone.title;
+    }
+    return notification.letter?.title ?? notification.subject ?? 'Deleted letter';
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size={compact ? 'sm' : 'default'}
+          className={`relative ${compact ? 'h-8 w-8 p-0' : 'w-full justify-start'}`}
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+          title={compact ? 'Notifications' : undefined}
+        >
+          <Bell className="h-4 w-4" />
+          {!compact && <span className="ml-2">Notifications</span>}
+          {unreadCount > 0 && (
+            <Badge
+              variant="destructive"
+              className={`h-5 min-w-5 px-1 justify-center text-[10px] ${
+                compact ? 'absolute -top-1 -right-1' : 'ml-auto'
+              }`}
+            >
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+
+      <PopoverContent align={align} className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h3 className="font-semibold">Notifications</h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0}
+            onClick={() => markAllAsRead().catch(() => {})}
+          >
+            Mark all as read
+          </Button>
+        </div>
+
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as NotificationFilter)}>
+          <TabsList className="w-full rounded-none border-b bg-transparent">
+            {FILTERS.map(({ value, label }) => (
+              <TabsTrigger key={value} value={value} className="flex-1">
+                {label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">Loading...</p>
+          ) : visible.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">
+              No notifications yet
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {visible.map((notification) => {
+                const state = getNotificationState(notification);
+                const unread = isUnreadNotification(notification);
+                const content = (
+                  <div className="flex gap-3 px-4 py-3">
+                    <div className="mt-0.5">{STATE_ICONS[state]}</div>
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm truncate ${unread ? 'font-semibold' : ''}`}>
+                        {describe(notification)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {NOTIFICATION_TYPE_LABELS[notification.type]} · {NOTIFICATION_STATE_LABELS[state]} ·{' '}
+                        {formatDistanceToNow(parseISO(getNotificationTime(notification)), { addSuffix: true })}
+                      </p>
+                      {state === 'failed' && (notification.last_error || notification.error_message) && (
+                        <p className="text-xs text-destructive truncate">
+                          {notification.last_error || notification.error_message}
+                        </p>
+                      )}
+                    </div>
+                    {unread && (
+                      <span className="mt-1.5 h-2 w-2 rounded-full bg-primary" aria-label="Unread" />
+                    )}
+                  </div>
+                );
+
+                return (
+                  <li key={notification.id}>
+                    {notification.letter_id ? (
+                      <Link
+                        to={`/letters?letter=${notification.letter_id}`}
+                        onClick={() => handleSelect(notification)}
+                        className="block hover:bg-accent"
+                      >
+                        {content}
+                      </Link>
+                    ) : (
+                      content
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, LocateFixed, Save } from 'lucide-react';
+import { DEFAULT_DELIVERY_HOUR, getLocalTimeZone, resolveTimeZone } from '../lib/timezone';
+import { LANGUAGE_OPTIONS } from '../lib/profile';
+import type { SettingsFormProps } from '../lib/types';
+
+const profileSettingsSchema = z.object({
+  full_name: z.string().trim().max(100, 'Name must be less than 100 characters'),
+  language: z.string().min(2),
+  timezone: z
+    .string()
+    .trim()
+    .min(1, 'Timezone is required')
+    .refine((zone) => resolveTimeZone(zone) === zone, 'Unknown timezone, e.g. Europe/Berlin'),
+  delivery_hour: z.coerce.number().int().min(0).max(23),
+});
+
+type ProfileSettingsValues = z.infer<typeof profileSettingsSchema>;
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Name, language, timezone and the hour letters arrive
+export function ProfileSettingsForm({ profile, preferences, onSave, isSaving = false }: SettingsFormProps) {
+  const form = useForm<ProfileSettingsValues>({
+    resolver: zodResolver(profileSettingsSchema),
+    defaultValues: {
+      full_name: profile?.full_name ?? '',
+      language: preferences.language,
+      timezone: profile?.timezone ?? getLocalTimeZone(),
+      delivery_hour: profile?.delivery_hour ?? DEFAULT_DELIVERY_HOUR,
+    },
+  });
+
+  // The profile usually arrives after the first render
+  useEffect(() => {
+    if (!profile) return;
+    form.reset({
+      full_name: profile.full_name ?? '',
+      language: profile.language || preferences.language,
+      timezone: profile.timezone,
+      delivery_hour: profile.delivery_hour ?? DEFAULT_DELIVERY_HOUR,
+    });
+  }, [profile, preferences.language, form]);
+
+  const onSubmit = async (values: ProfileSettingsValues) => {
+    try {
+      await onSave(values);
+    } catch {
+      // The hook reports the failure
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="full_name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="How your letters greet you" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="language"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Language</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {LANGUAGE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>AI suggestions are written in this language.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="timezone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Timezone</FormLabel>
+                <div className="flex gap-2">
+                  <FormControl>
+                    <Input placeholder="Europe/Berlin" {...field} />
+                  </FormControl>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    aria-label="Use this device's timezone"
+                    onClick={() =>
+                      form.setValue('timezone', getLocalTimeZone(), { shouldDirty: true, shouldValidate: true })
+                    }
+                  >
+                    <LocateFixed className="h-4 w-4" />
+                  </Button>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="delivery_hour"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Delivery time</FormLabel>
+                <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {HOURS.map((hour) => (
+                      <SelectItem key={hour} value={String(hour)}>
+                        {`${String(hour).padStart(2, '0')}:00`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Letters and reminders arrive at this local time.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={isSaving || !form.formState.isDirty}>
+            {isSaving ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Save className="h-3 w-3 mr-1" />}
+            Save
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CalendarClock, Loader2 } from 'lucide-react';
+import { addDaysToDate, getTodayInTimeZone } from '../lib/timezone';
+import { isLetterSealed } from '../lib/delivery';
+import type { RescheduleDialogProps } from '../lib/types';
+
+// Pick a new send date for an already scheduled letter
+export function RescheduleDialog({
+  letter,
+  timeZone,
+  onClose,
+  onReschedule,
+  isSubmitting = false,
+}: RescheduleDialogProps) {
+  const [sendDate, setSendDate] = useState('');
+  const tomorrow = addDaysToDate(getTodayInTimeZone(timeZone), 1);
+  // A sealed letter can only move later; earlier would open it without
+  // breaking the seal
+  const sealedFrom = letter && isLetterSealed(letter) ? letter.send_date.slice(0, 10) : '';
+  const minDate = sealedFrom > tomorrow ? sealedFrom : tomorrow;
+
+  // Start from the current send date whenever a letter is opened
+  useEffect(() => {
+    if (letter) setSendDate(letter.send_date.slice(0, 10));
+  }, [letter]);
+
+  const isValid = sendDate >= minDate && sendDate !== letter?.send_date.slice(0, 10);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!letter || !isValid) return;
+
+    try {
+      await onReschedule(letter, sendDate);
+      onClose();
+    } catch {
+      // The error toast is already handled by the hook; keep the dialog open
+    }
+  };
+
+  return (
+    <Dialog open={!!letter} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Reschedule delivery</DialogTitle>
+            <DialogDescription>
+              Choose when "{letter?.title}" should arrive. It is delivered at your preferred hour ({timeZone}).
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="reschedule-send-date">New send date</Label>
+            <Input
+              id="reschedule-send-date"
+              type="date"
+              min={minDate}
+              value={sendDate}
+              onChange={(e) => setSendDate(e.target.value)}
+            />
+            {sendDate && sendDate < minDate && (
+              <p className="text-sm text-destructive">
+                {minDate === sealedFrom
+                  ? 'A sealed letter can only be moved to a later date'
+                  : 'Send date must be in the future'}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Keep current date
+            </Button>
+            <Button type="submit" disabled={!isValid || isSubmitting}>
+              {isSubmitting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <CalendarClock className="h-4 w-4 mr-2" />
+              )}
+              Reschedule
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -21,6 +21,7 @@ import {
   Wrench
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { NotificationCenter } from './NotificationCenter';
 
 const navigationItems = [
   {
@@ -208,6 +209,8 @@ export function Sidebar({ className = '', isCollapsed, onToggleCollapse, user }:
           )}
         </div>
         
+        <NotificationCenter compact={isCollapsed} />
+
         <Button
           variant="ghost"
           onClick={handleSignOut}
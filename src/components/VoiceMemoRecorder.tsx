@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, Mic, Square, Trash2 } from 'lucide-react';
+import { useVoiceMemo, useVoiceMemoUrl } from '../hooks/useVoiceMemo';
+import type { VoiceMemoPlayerProps, VoiceMemoRecorderProps } from '../lib/types';
+
+// Keeps uploads well under the bucket's 10 MB limit
+const MAX_RECORDING_SECONDS = 5 * 60;
+
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg', 'audio/mp4'];
+
+function isRecordingSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof window.MediaRecorder !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia
+  );
+}
+
+function pickMimeType(): string | undefined {
+  if (typeof MediaRecorder.isTypeSupported !== 'function') return undefined;
+  return PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Play a stored voice memo through a signed link
+export function VoiceMemoPlayer({ value, className }: VoiceMemoPlayerProps) {
+  const { url, isLoading, error } = useVoiceMemoUrl(value);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading voice memo...
+      </div>
+    );
+  }
+
+  if (error || !url) {
+    return <p className="text-sm text-destructive">Voice memo is unavailable right now.</p>;
+  }
+
+  return <audio controls preload="none" src={url} className={className ?? 'w-full'} />;
+}
+
+// Record a voice memo in the browser and upload it when recording stops
+export function VoiceMemoRecorder({ value, onChange, disabled = false }: VoiceMemoRecorderProps) {
+  const { uploadVoiceMemo, isUploading } = useVoiceMemo();
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+
+  const releaseStream = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  };
+
+  // Never leave the microphone open after the form goes away
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current?.state === 'recording') {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stop();
+      }
+      releaseStream();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const timer = setInterval(() => setElapsed((seconds) => seconds + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  useEffect(() => {
+    if (isRecording && elapsed >= MAX_RECORDING_SECONDS) {
+      recorderRef.current?.stop();
+    }
+  }, [isRecording, elapsed]);
+
+  const handleRecordingStopped = async (mimeType: string) => {
+    setIsRecording(false);
+    releaseStream();
+
+    const recording = new Blob(chunksRef.current, { type: mimeType });
+    chunksRef.current = [];
+    if (recording.size === 0) return;
+
+    try {
+      onChange(await uploadVoiceMemo(recording));
+    } catch {
+      // The error toast is already handled by the hook
+    }
+  };
+
+  const startRecording = async () => {
+    setPermissionError(null);
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+      streamRef.current = stream;
+      recorderRef.current = recorder;
+      chunksRef.current = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorder.onstop = () => handleRecordingStopped(recorder.mimeType || mimeType || 'audio/webm');
+
+      recorder.start();
+      setElapsed(0);
+      setIsRecording(true);
+    } catch (error) {
+      releaseStream();
+      setPermissionError(
+        error instanceof DOMException && error.name === 'NotAllowedError'
+          ? 'Microphone access was denied. Allow it in your browser to record a memo.'
+          : 'Could not start recording.'
+      );
+    }
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+  };
+
+  // The stored file is cleaned up once the letter is saved without it
+  const handleRemove = () => onChange(null);
+
+  if (!isRecordingSupported()) {
+    return (
+      <div className="space-y-2">
+        {value && <VoiceMemoPlayer value={value} />}
+        <p className="text-sm text-muted-foreground">
+          Voice recording is not supported in this browser.
+        </p>
+        {value && (
+          <Button type="button" variant="outline" size="sm" onClick={handleRemove} disabled={disabled}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Remove voice memo
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {value && !isRecording && <VoiceMemoPlayer value={value} />}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {isRecording ? (
+          <>
+            <Button type="button" variant="destructive" size="sm" onClick={stopRecording}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop recording
+            </Button>
+            <span className="flex items-center gap-2 text-sm text-muted-foreground" aria-live="polite">
+              <span className="h-2 w-2 rounded-full bg-destructive animate-pulse" />
+              {formatDuration(elapsed)} / {formatDuration(MAX_RECORDING_SECONDS)}
+            </span>
+          </>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={startRecording}
+            disabled={disabled || isUploading}
+          >
+            {isUploading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Mic className="h-4 w-4 mr-2" />
+            )}
+            {isUploading ? 'Saving...' : value ? 'Record again' : 'Record voice memo'}
+          </Button>
+        )}
+
+        {value && !isRecording && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={handleRemove}
+            disabled={disabled || isUploading}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Remove
+          </Button>
+        )}
+      </div>
+
+      {permissionError && <p className="text-sm text-destructive">{permissionError}</p>}
+    </div>
+  );
+}
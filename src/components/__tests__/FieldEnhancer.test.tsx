@@ -2,16 +2,26 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, waitFor } from '@/test/utils'
 import userEvent from '@testing-library/user-event'
 import { FieldEnhancer } from '../FieldEnhancer'
+import type { AIQuota } from '@/lib/types'
 
 // Mock the useEnhancement hook
 const mockEnhanceField = vi.fn()
+const mockEnhanceFieldStream = vi.fn()
+const mockReportSuggestionOutcome = vi.fn()
+let mockQuota: AIQuota | null = null
 vi.mock('../../hooks/useEnhancement', () => ({
   useEnhancement: () => ({
     enhanceField: mockEnhanceField,
+    enhanceFieldStream: mockEnhanceFieldStream,
     isEnhancingField: false,
+    reportSuggestionOutcome: mockReportSuggestionOutcome,
+    quota: mockQuota,
   }),
 }))
 
+// The stream can be stopped and reports the suggestion as it grows
+const streamOptions = { signal: expect.any(AbortSignal), onText: expect.any(Function) }
+
 describe('FieldEnhancer', () => {
   const mockOnApply = vi.fn()
   const defaultProps = {
@@ -26,6 +36,7 @@ describe('FieldEnhancer', () => {
 
   beforeEach(() => {
     vi.clearAllMocks()
+    mockQuota = null
   })
 
   describe('Basic rendering', () => {
@@ -61,34 +72,34 @@ describe('FieldEnhancer', () => {
   })
 
   describe('Enhancement process', () => {
-    it('should call enhanceField when clicked', async () => {
+    it('should stream the enhancement when clicked', async () => {
       const user = userEvent.setup()
       const mockResponse = {
         suggestion: 'Enhanced title',
         explanation: 'This is better because...',
       }
 
-      mockEnhanceField.mockResolvedValue(mockResponse)
+      mockEnhanceFieldStream.mockResolvedValue(mockResponse)
 
       render(<FieldEnhancer {...defaultProps} />)
 
       const button = screen.getByRole('button')
       await user.click(button)
 
-      expect(mockEnhanceField).toHaveBeenCalledWith({
+      expect(mockEnhanceFieldStream).toHaveBeenCalledWith({
         field: 'title',
         value: 'Original title',
         context: {
           goal: 'Test goal',
           content: 'Test content',
         },
-      })
+      }, streamOptions)
     })
 
     it('should show loading state during enhancement', () => {
       vi.doMock('../../hooks/useEnhancement', () => ({
         useEnhancement: () => ({
-          enhanceField: mockEnhanceField,
+          enhanceFieldStream: mockEnhanceFieldStream,
           isEnhancingField: true,
         }),
       }))
@@ -123,7 +134,7 @@ describe('FieldEnhancer', () => {
         explanation: 'This title is better because it is more descriptive',
       }
 
-      mockEnhanceField.mockResolvedValue(mockResponse)
+      mockEnhanceFieldStream.mockResolvedValue(mockResponse)
 
       render(<FieldEnhancer {...defaultProps} />)
 
@@ -142,7 +153,7 @@ describe('FieldEnhancer', () => {
     it('should handle enhancement error gracefully', async () => {
       const user = userEvent.setup()
 
-      mockEnhanceField.mockRejectedValue(new Error('Enhancement failed'))
+      mockEnhanceFieldStream.mockRejectedValue(new Error('Enhancement failed'))
 
       render(<FieldEnhancer {...defaultProps} />)
 
@@ -164,7 +175,7 @@ describe('FieldEnhancer', () => {
         explanation: 'Better title',
       }
 
-      mockEnhanceField.mockResolvedValue(mockResponse)
+      mockEnhanceFieldStream.mockResolvedValue(mockResponse)
 
       render(<FieldEnhancer {...defaultProps} />)
 
@@ -188,7 +199,7 @@ describe('FieldEnhancer', () => {
         explanation: 'Better title',
       }
 
-      mockEnhanceField.mockResolvedValue(mockResponse)
+      mockEnhanceFieldStream.mockResolvedValue(mockResponse)
 
       render(<FieldEnhancer {...defaultProps} />)
 
@@ -213,7 +224,7 @@ describe('FieldEnhancer', () => {
         explanation: 'Better title',
       }
 
-      mockEnhanceField.mockResolvedValue(mockResponse)
+      mockEnhanceFieldStream.mockResolvedValue(mockResponse)
 
       render(<FieldEnhancer {...defaultProps} />)
 
@@ -232,6 +243,294 @@ describe('FieldEnhancer', () => {
     })
   })
 
+  describe('Quota', () => {
+    it('should show how much of the monthly quota is left', () => {
+      mockQuota = { remainingRequests: 8, tokensUsed: 50_000, tokenBudget: 200_000, resetsAt: '2025-09-01T00:00:00Z' }
+      render(<FieldEnhancer {...defaultProps} />)
+
+      expect(screen.getByTestId('ai-quota')).toHaveTextContent("75% of this month's AI quota left")
+    })
+
+    it('should not show a quota without a monthly budget', () => {
+      mockQuota = { remainingRequests: 8, tokensUsed: 50_000, tokenBudget: null, resetsAt: '2025-09-01T00:00:00Z' }
+      render(<FieldEnhancer {...defaultProps} />)
+
+      expect(screen.queryByTestId('ai-quota')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Streaming', () => {
+    // Sends `text` through onText and keeps the enhancement open until resolved
+    const streamUntilResolved = (text: string) => {
+      let resolve: (response: { suggestion: string; explanation: string }) => void = () => {}
+      let signal: AbortSignal | undefined
+      mockEnhanceFieldStream.mockImplementation((_request, options) => {
+        signal = options.signal
+        options.onText(text)
+        return new Promise((res, reject) => {
+          resolve = res
+          options.signal.addEventListener('abort', () => reject(new DOMException('Enhancement cancelled', 'AbortError')))
+        })
+      })
+      return { resolve: (response: { suggestion: string; explanation: string }) => resolve(response), signal: () => signal }
+    }
+
+    it('should fill in the suggestion as it arrives', async () => {
+      const user = userEvent.setup()
+      const stream = streamUntilResolved('Enhanced ti')
+
+      render(<FieldEnhancer {...defaultProps} />)
+      await user.click(screen.getByRole('button'))
+
+      expect(await screen.findByText('Enhanced ti')).toBeInTheDocument()
+      expect(screen.getByText(/writing a suggestion/i)).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: /use this/i })).toBeDisabled()
+
+      stream.resolve({ suggestion: 'Enhanced title', explanation: 'More specific' })
+
+      expect(await screen.findByText('Enhanced title')).toBeInTheDocument()
+      expect(screen.getByText('More specific')).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: /use this/i })).toBeEnabled()
+    })
+
+    it('should stop the stream when dismissed', async () => {
+      const user = userEvent.setup()
+      const stream = streamUntilResolved('Enhanced ti')
+
+      render(<FieldEnhancer {...defaultProps} />)
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByRole('button', { name: /stop/i }))
+
+      expect(stream.signal()?.aborted).toBe(true)
+      expect(screen.queryByText('Enhanced ti')).not.toBeInTheDocument()
+      expect(screen.getByRole('button', { name: /enhance/i })).toBeInTheDocument()
+      expect(mockReportSuggestionOutcome).not.toHaveBeenCalled()
+    })
+
+    it('should stop the stream when the field is edited', async () => {
+      const user = userEvent.setup()
+      const stream = streamUntilResolved('Enhanced ti')
+
+      const { rerender } = render(<FieldEnhancer {...defaultProps} />)
+      await user.click(screen.getByRole('button'))
+      await screen.findByText('Enhanced ti')
+
+      rerender(<FieldEnhancer {...defaultProps} value="Original title, edited" />)
+
+      expect(stream.signal()?.aborted).toBe(true)
+      await waitFor(() => {
+        expect(screen.queryByText('Enhanced ti')).not.toBeInTheDocument()
+      })
+    })
+
+    it('should stop the stream when unmounted', async () => {
+      const user = userEvent.setup()
+      const stream = streamUntilResolved('Enhanced ti')
+
+      const { unmount } = render(<FieldEnhancer {...defaultProps} />)
+      await user.click(screen.getByRole('button'))
+      unmount()
+
+      expect(stream.signal()?.aborted).toBe(true)
+    })
+  })
+
+  describe('Alternatives', () => {
+    const alternatives = [
+      { style: 'concise' as const, suggestion: 'Small steps', explanation: 'Shorter' },
+      { style: 'vivid' as const, suggestion: 'Every sunrise a step closer', explanation: 'More colour' },
+    ]
+
+    it('should offer one suggestion per style and apply the chosen one', async () => {
+      const user = userEvent.setup()
+      mockEnhanceFieldStream.mockResolvedValue({ suggestion: 'Enhanced title', explanation: 'Better', eventId: 'event-1' })
+      mockEnhanceField.mockResolvedValue({ ...alternatives[0], alternatives, eventId: 'event-2' })
+
+      render(<FieldEnhancer {...defaultProps} />)
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByRole('button', { name: /more options/i }))
+
+      expect(mockEnhanceField).toHaveBeenCalledWith({
+        field: 'title',
+        value: 'Original title',
+        context: defaultProps.context,
+        alternatives: 2,
+        avoid: ['Enhanced title'],
+      })
+      expect(mockReportSuggestionOutcome).toHaveBeenCalledWith({ eventId: 'event-1', applied: false })
+      expect(await screen.findByText('Small steps')).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: 'Vivid' }))
+
+      expect(screen.getByRole('button', { name: 'Vivid' })).toHaveAttribute('aria-pressed', 'true')
+      expect(screen.getByText('More colour')).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: /use this/i }))
+
+      expect(mockOnApply).toHaveBeenCalledWith('Every sunrise a step closer')
+    })
+
+    it('should try again without repeating earlier suggestions', async () => {
+      const user = userEvent.setup()
+      mockEnhanceFieldStream
+        .mockResolvedValueOnce({ suggestion: 'Enhanced title', explanation: 'Better' })
+        .mockResolvedValueOnce({ suggestion: 'Another title', explanation: 'Different' })
+
+      render(<FieldEnhancer {...defaultProps} />)
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByRole('button', { name: /try again/i }))
+
+      expect(await screen.findByText('Another title')).toBeInTheDocument()
+      expect(mockEnhanceFieldStream).toHaveBeenLastCalledWith(
+        { field: 'title', value: 'Original title', context: defaultProps.context, avoid: ['Enhanced title'] },
+        streamOptions
+      )
+    })
+
+    it('should try again with alternatives once they are shown', async () => {
+      const user = userEvent.setup()
+      mockEnhanceFieldStream.mockResolvedValue({ suggestion: 'Enhanced title', explanation: 'Better' })
+      mockEnhanceField.mockResolvedValue({ ...alternatives[0], alternatives })
+
+      render(<FieldEnhancer {...defaultProps} />)
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByRole('button', { name: /more options/i }))
+      await user.click(await screen.findByRole('button', { name: /try again/i }))
+
+      expect(mockEnhanceField).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          alternatives: 2,
+          avoid: ['Enhanced title', 'Small steps', 'Every sunrise a step closer'],
+        })
+      )
+    })
+  })
+
+  describe('Reviewing changes', () => {
+    it('should apply only the changes that were kept', async () => {
+      const user = userEvent.setup()
+      mockEnhanceFieldStream.mockResolvedValue({ suggestion: 'My ambitious goals for this coming year', explanation: 'Better' })
+
+      render(<FieldEnhancer {...defaultProps} value="My goals for the year" />)
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByRole('button', { name: /review changes/i }))
+
+      expect(screen.getByText('2 of 2 changes selected')).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: 'the this coming' }))
+
+      expect(screen.getByRole('button', { name: 'the this coming' })).toHaveAttribute('aria-pressed', 'false')
+      expect(screen.getByText('1 of 2 changes selected')).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: /use this/i }))
+
+      expect(mockOnApply).toHaveBeenCalledWith('My ambitious goals for the year')
+    })
+
+    it('should not apply when every change is left out', async () => {
+      const user = userEvent.setup()
+      mockEnhanceFieldStream.mockResolvedValue({ suggestion: 'Better title', explanation: 'Better' })
+
+      render(<FieldEnhancer {...defaultProps} />)
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByRole('button', { name: /review changes/i }))
+      await user.click(screen.getByRole('button', { name: 'Original Better' }))
+
+      expect(screen.getByRole('button', { name: /use this/i })).toBeDisabled()
+    })
+  })
+
+  describe('Suggestion outcome', () => {
+    it('should report an applied suggestion', async () => {
+      const user = userEvent.setup()
+      mockEnhanceFieldStream.mockResolvedValue({ suggestion: 'Enhanced title', explanation: 'Better', eventId: 'event-1' })
+
+      render(<FieldEnhancer {...defaultProps} />)
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByRole('button', { name: /use this/i }))
+
+      expect(mockReportSuggestionOutcome).toHaveBeenCalledWith({ eventId: 'event-1', applied: true })
+    })
+
+    it('should report a dismissed suggestion', async () => {
+      const user = userEvent.setup()
+      mockEnhanceFieldStream.mockResolvedValue({ suggestion: 'Enhanced title', explanation: 'Better', eventId: 'event-1' })
+
+      render(<FieldEnhancer {...defaultProps} />)
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByRole('button', { name: /not now/i }))
+
+      expect(mockReportSuggestionOutcome).toHaveBeenCalledWith({ eventId: 'event-1', applied: false })
+    })
+
+    it('should not report suggestions that were not recorded', async () => {
+      const user = userEvent.setup()
+      mockEnhanceFieldStream.mockResolvedValue({ suggestion: 'Enhanced title', explanation: 'Better' })
+
+      render(<FieldEnhancer {...defaultProps} />)
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByRole('button', { name: /use this/i }))
+
+      expect(mockReportSuggestionOutcome).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Auto-apply', () => {
+    const mockResponse = {
+      suggestion: 'Enhanced title',
+      explanation: 'Better title',
+    }
+
+    it('should apply the suggestion without asking', async () => {
+      const user = userEvent.setup()
+      mockEnhanceFieldStream.mockResolvedValue(mockResponse)
+
+      const { rerender } = render(<FieldEnhancer {...defaultProps} autoApply />)
+      await user.click(screen.getByRole('button', { name: /enhance/i }))
+
+      await waitFor(() => {
+        expect(mockOnApply).toHaveBeenCalledWith('Enhanced title')
+      })
+      rerender(<FieldEnhancer {...defaultProps} value="Enhanced title" autoApply />)
+
+      expect(screen.queryByRole('button', { name: /use this/i })).not.toBeInTheDocument()
+      expect(screen.getByText(/suggestion applied/i)).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: /undo/i })).toBeInTheDocument()
+    })
+
+    it('should put the previous value back on undo', async () => {
+      const user = userEvent.setup()
+      const mockOnUndo = vi.fn()
+      mockEnhanceFieldStream.mockResolvedValue(mockResponse)
+
+      const { rerender } = render(<FieldEnhancer {...defaultProps} autoApply onUndo={mockOnUndo} />)
+      await user.click(screen.getByRole('button', { name: /enhance/i }))
+      await waitFor(() => {
+        expect(mockOnApply).toHaveBeenCalledWith('Enhanced title')
+      })
+      rerender(<FieldEnhancer {...defaultProps} value="Enhanced title" autoApply onUndo={mockOnUndo} />)
+
+      await user.click(screen.getByRole('button', { name: /undo/i }))
+
+      expect(mockOnUndo).toHaveBeenCalledWith('Original title')
+    })
+
+    it('should drop the undo once the field is edited', async () => {
+      const user = userEvent.setup()
+      mockEnhanceFieldStream.mockResolvedValue(mockResponse)
+
+      const { rerender } = render(<FieldEnhancer {...defaultProps} autoApply />)
+      await user.click(screen.getByRole('button', { name: /enhance/i }))
+      await waitFor(() => {
+        expect(mockOnApply).toHaveBeenCalled()
+      })
+      rerender(<FieldEnhancer {...defaultProps} value="Enhanced title, edited" autoApply />)
+
+      expect(screen.queryByRole('button', { name: /undo/i })).not.toBeInTheDocument()
+      expect(screen.getByRole('button', { name: /enhance/i })).toBeInTheDocument()
+    })
+  })
+
   describe('Different field types', () => {
     it('should work with goal field', async () => {
       const user = userEvent.setup()
@@ -247,14 +546,14 @@ describe('FieldEnhancer', () => {
 
       await user.click(screen.getByRole('button'))
 
-      expect(mockEnhanceField).toHaveBeenCalledWith({
+      expect(mockEnhanceFieldStream).toHaveBeenCalledWith({
         field: 'goal',
         value: 'Learn programming',
         context: {
           goal: 'Test goal',
           content: 'Test content',
         },
-      })
+      }, streamOptions)
     })
 
     it('should work with content field', async () => {
@@ -271,14 +570,14 @@ describe('FieldEnhancer', () => {
 
       await user.click(screen.getByRole('button'))
 
-      expect(mockEnhanceField).toHaveBeenCalledWith({
+      expect(mockEnhanceFieldStream).toHaveBeenCalledWith({
         field: 'content',
         value: 'This is my letter content that is long enough to enhance',
         context: {
           goal: 'Test goal',
           content: 'Test content',
         },
-      })
+      }, streamOptions)
     })
   })
 
@@ -291,11 +590,11 @@ describe('FieldEnhancer', () => {
 
       await user.click(screen.getByRole('button'))
 
-      expect(mockEnhanceField).toHaveBeenCalledWith({
+      expect(mockEnhanceFieldStream).toHaveBeenCalledWith({
         field: 'title',
         value: 'Original title',
         context: undefined,
-      })
+      }, streamOptions)
     })
 
     it('should pass partial context correctly', async () => {
@@ -311,13 +610,13 @@ describe('FieldEnhancer', () => {
 
       await user.click(screen.getByRole('button'))
 
-      expect(mockEnhanceField).toHaveBeenCalledWith({
+      expect(mockEnhanceFieldStream).toHaveBeenCalledWith({
         field: 'title',
         value: 'Original title',
         context: {
           goal: 'Only goal provided',
         },
-      })
+      }, streamOptions)
     })
   })
 
@@ -353,7 +652,7 @@ describe('FieldEnhancer', () => {
         explanation: 'Better title',
       }
 
-      mockEnhanceField.mockResolvedValue(mockResponse)
+      mockEnhanceFieldStream.mockResolvedValue(mockResponse)
 
       render(<FieldEnhancer {...defaultProps} />)
 
@@ -3,6 +3,7 @@ import { render, screen } from '@/test/utils'
 import userEvent from '@testing-library/user-event'
 import { LetterCard } from '@/components/LetterCard'
 import { createMockLetter, createMockMilestone } from '@/test/utils'
+import type { Letter } from '@/lib/types'
 
 describe('LetterCard', () => {
   const mockHandlers = {
@@ -30,6 +31,16 @@ describe('LetterCard', () => {
       expect(screen.getByText('Learn React and TypeScript')).toBeInTheDocument()
     })
 
+    it('hides the goal as soon as previews are turned off', () => {
+      const mockLetter = createMockLetter({ goal: 'Learn React and TypeScript' }) as Letter
+
+      const { rerender } = render(<LetterCard letter={mockLetter} {...mockHandlers} />)
+      expect(screen.getByText('Learn React and TypeScript')).toBeInTheDocument()
+
+      rerender(<LetterCard letter={mockLetter} {...mockHandlers} hidePreview />)
+      expect(screen.queryByText('Learn React and TypeScript')).not.toBeInTheDocument()
+    })
+
     it('renders send date in correct format', () => {
       const mockLetter = createMockLetter({
         send_date: '2024-12-31T00:00:00Z',
@@ -93,6 +104,41 @@ describe('LetterCard', () => {
       expect(screen.getByText('67%')).toBeInTheDocument() // 2 out of 3 completed
     })
 
+    it('weights progress by milestone percentage', () => {
+      const milestones = [
+        createMockMilestone({ id: 'm1', percentage: 60, completed: true }),
+        createMockMilestone({ id: 'm2', percentage: 20, completed: false }),
+        createMockMilestone({ id: 'm3', percentage: 20, completed: false }),
+      ]
+
+      const mockLetter = createMockLetter({ milestones }) as Letter
+
+      render(<LetterCard letter={mockLetter} {...mockHandlers} />)
+
+      expect(screen.getByText('60%')).toBeInTheDocument()
+      expect(screen.getByText('1 of 3 milestones')).toBeInTheDocument()
+    })
+
+    it('updates the progress when a milestone is ticked off', () => {
+      const milestones = [
+        createMockMilestone({ id: 'm1', completed: true }),
+        createMockMilestone({ id: 'm2', completed: false }),
+      ]
+      const mockLetter = createMockLetter({ milestones }) as Letter
+
+      const { rerender } = render(<LetterCard letter={mockLetter} {...mockHandlers} />)
+      expect(screen.getByText('50%')).toBeInTheDocument()
+
+      const updated = {
+        ...mockLetter,
+        milestones: milestones.map((m) => ({ ...m, completed: true })),
+      } as Letter
+      rerender(<LetterCard letter={updated} {...mockHandlers} />)
+
+      expect(screen.getByText('100%')).toBeInTheDocument()
+      expect(screen.getByText('2 of 2 milestones')).toBeInTheDocument()
+    })
+
     it('hides progress when no milestones exist', () => {
       const mockLetter = createMockLetter({ milestones: [] })
       
@@ -101,4 +147,164 @@ describe('LetterCard', () => {
       expect(screen.queryByText('Progress')).not.toBeInTheDocument()
     })
   })
+
+  describe('Delivery Failures', () => {
+    const createDelivery = (overrides = {}) => ({
+      id: 'mock-notification-id',
+      user_id: 'mock-user-id',
+      letter_id: 'mock-letter-id',
+      type: 'letter_delivery',
+      content: 'Delivery',
+      scheduled_for: '2024-12-31T09:00:00Z',
+      delivery_method: 'email',
+      status: 'dead_letter',
+      attempt_count: 5,
+      last_error: 'Mailbox unavailable',
+      created_at: '2024-12-31T09:00:00Z',
+      ...overrides,
+    })
+
+    it('shows a dead-lettered delivery and lets the user retry it', async () => {
+      const user = userEvent.setup()
+      const onRetryDelivery = vi.fn()
+      const mockLetter = createMockLetter({
+        status: 'scheduled',
+        notifications: [createDelivery()],
+      }) as Letter
+
+      render(<LetterCard letter={mockLetter} {...mockHandlers} onRetryDelivery={onRetryDelivery} />)
+
+      expect(screen.getByText('Delivery failed')).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByText('Retry Delivery'))
+
+      expect(onRetryDelivery).toHaveBeenCalledWith(mockLetter)
+    })
+
+    it('shows a delivery that is waiting for its next attempt', () => {
+      const mockLetter = createMockLetter({
+        status: 'scheduled',
+        notifications: [createDelivery({ status: 'pending', attempt_count: 2, next_attempt_at: '2024-12-31T09:04:00Z' })],
+      }) as Letter
+
+      render(<LetterCard letter={mockLetter} {...mockHandlers} />)
+
+      expect(screen.getByText('Retrying delivery')).toBeInTheDocument()
+    })
+
+    it('ignores deliveries that have not failed', () => {
+      const mockLetter = createMockLetter({
+        status: 'scheduled',
+        notifications: [createDelivery({ status: 'pending', attempt_count: 0 })],
+      }) as Letter
+
+      render(<LetterCard letter={mockLetter} {...mockHandlers} />)
+
+      expect(screen.queryByText('Delivery failed')).not.toBeInTheDocument()
+      expect(screen.queryByText('Retrying delivery')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Scheduled Delivery Actions', () => {
+    it('offers rescheduling and cancelling for scheduled letters', async () => {
+      const user = userEvent.setup()
+      const onReschedule = vi.fn()
+      const onCancelDelivery = vi.fn()
+      const mockLetter = createMockLetter({ status: 'scheduled' }) as Letter
+
+      render(
+        <LetterCard
+          letter={mockLetter}
+          {...mockHandlers}
+          onReschedule={onReschedule}
+          onCancelDelivery={onCancelDelivery}
+        />
+      )
+
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByText('Reschedule'))
+      expect(onReschedule).toHaveBeenCalledWith(mockLetter)
+
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByText('Cancel Delivery'))
+      expect(onCancelDelivery).toHaveBeenCalledWith(mockLetter)
+    })
+
+    it('hides the actions for letters that are not scheduled', async () => {
+      const user = userEvent.setup()
+      const mockLetter = createMockLetter({ status: 'draft' }) as Letter
+
+      render(
+        <LetterCard
+          letter={mockLetter}
+          {...mockHandlers}
+          onReschedule={vi.fn()}
+          onCancelDelivery={vi.fn()}
+        />
+      )
+
+      await user.click(screen.getByRole('button'))
+      expect(await screen.findByText('Schedule')).toBeInTheDocument()
+      expect(screen.queryByText('Reschedule')).not.toBeInTheDocument()
+      expect(screen.queryByText('Cancel Delivery')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Sealed Letters', () => {
+    it('marks sealed letters and only offers breaking the seal', async () => {
+      const user = userEvent.setup()
+      const onBreakSeal = vi.fn()
+      const mockLetter = createMockLetter({ status: 'scheduled', is_locked: true }) as Letter
+
+      render(
+        <LetterCard
+          letter={mockLetter}
+          {...mockHandlers}
+          onSeal={vi.fn()}
+          onBreakSeal={onBreakSeal}
+          onCancelDelivery={vi.fn()}
+        />
+      )
+
+      expect(screen.getByText('Sealed')).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button'))
+      expect(screen.queryByText('Edit Letter')).not.toBeInTheDocument()
+      expect(screen.queryByText('Cancel Delivery')).not.toBeInTheDocument()
+      expect(screen.queryByText('Archive')).not.toBeInTheDocument()
+      expect(screen.queryByText('Seal Letter')).not.toBeInTheDocument()
+      expect(screen.queryByText('Send Now')).not.toBeInTheDocument()
+
+      await user.click(await screen.findByText('Break Seal'))
+      expect(onBreakSeal).toHaveBeenCalledWith(mockLetter)
+    })
+
+    it('keeps the goal of a sealed letter hidden', () => {
+      const mockLetter = createMockLetter({
+        status: 'scheduled',
+        is_locked: true,
+        goal: 'Run a half marathon',
+        ai_enhanced_goal: 'Run a half marathon by training three times a week',
+      }) as Letter
+
+      render(<LetterCard letter={mockLetter} {...mockHandlers} />)
+
+      expect(screen.queryByText(/Run a half marathon/)).not.toBeInTheDocument()
+    })
+
+    it('offers sealing for scheduled letters', async () => {
+      const user = userEvent.setup()
+      const onSeal = vi.fn()
+      const mockLetter = createMockLetter({ status: 'scheduled' }) as Letter
+
+      render(<LetterCard letter={mockLetter} {...mockHandlers} onSeal={onSeal} onBreakSeal={vi.fn()} />)
+
+      expect(screen.queryByText('Sealed')).not.toBeInTheDocument()
+
+      await user.click(screen.getByRole('button'))
+      await user.click(await screen.findByText('Seal Letter'))
+      expect(onSeal).toHaveBeenCalledWith(mockLetter)
+    })
+  })
 })
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor, fireEvent } from '@/test/utils'
+import userEvent from '@testing-library/user-event'
+import { LetterFilters } from '../LetterFilters'
+import { DEFAULT_LETTER_QUERY } from '@/lib/letter-query'
+import type { LetterQuery } from '@/lib/types'
+
+describe('LetterFilters', () => {
+  const onChange = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should search after typing pauses and go back to the first page', async () => {
+    const user = userEvent.setup()
+    const query: LetterQuery = { ...DEFAULT_LETTER_QUERY, page: 3 }
+
+    render(<LetterFilters query={query} onChange={onChange} />)
+
+    await user.type(screen.getByLabelText('Search'), 'marathon')
+
+    await waitFor(() => {
+      expect(onChange).toHaveBeenCalledTimes(1)
+    })
+    expect(onChange).toHaveBeenCalledWith({
+      ...query,
+      filters: { search: 'marathon' },
+      page: 1,
+    })
+  })
+
+  it('should filter by send date range', () => {
+    render(<LetterFilters query={DEFAULT_LETTER_QUERY} onChange={onChange} />)
+
+    fireEvent.change(screen.getByLabelText('Delivers from'), { target: { value: '2025-01-01' } })
+
+    expect(onChange).toHaveBeenCalledWith({
+      ...DEFAULT_LETTER_QUERY,
+      filters: { dateRange: { start: '2025-01-01', end: undefined } },
+      page: 1,
+    })
+  })
+
+  it('should only offer to clear filters when some are active', async () => {
+    const user = userEvent.setup()
+    const { rerender } = render(<LetterFilters query={DEFAULT_LETTER_QUERY} onChange={onChange} />)
+
+    expect(screen.queryByRole('button', { name: /clear filters/i })).not.toBeInTheDocument()
+
+    const filtered: LetterQuery = {
+      filters: { search: 'goal', status: 'sent' },
+      sort: 'title',
+      page: 2,
+    }
+    rerender(<LetterFilters query={filtered} onChange={onChange} />)
+
+    await user.click(screen.getByRole('button', { name: /clear filters/i }))
+
+    expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_LETTER_QUERY, sort: 'title' })
+  })
+})
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, waitFor } from '@/test/utils'
 import userEvent from '@testing-library/user-event'
 import { LetterForm } from '../LetterForm'
+import { resolveProfilePreferences } from '../../lib/profile'
 import type { Letter } from '../../types/supabase'
 
 // Mock the hooks
@@ -26,6 +27,30 @@ vi.mock('../../hooks/useMilestones', () => ({
   }),
 }))
 
+let mockTimeZone = 'UTC'
+let mockProfile: any
+vi.mock('../../hooks/useProfile', () => ({
+  useProfile: () => ({
+    timeZone: mockTimeZone,
+    preferences: resolveProfilePreferences(mockProfile),
+    isLoading: false,
+  }),
+}))
+
+vi.mock('../../hooks/useVoiceMemo', () => ({
+  useVoiceMemo: () => ({
+    uploadVoiceMemo: vi.fn(),
+    removeVoiceMemo: vi.fn(),
+    isUploading: false,
+  }),
+  useVoiceMemoUrl: () => ({ url: null, isLoading: false }),
+}))
+
+let mockAutosave: any
+vi.mock('../../hooks/useDraftAutosave', () => ({
+  useDraftAutosave: () => mockAutosave,
+}))
+
 // Mock child components
 vi.mock('../FieldEnhancer', () => ({
   FieldEnhancer: ({ field, onApply, children }: any) => (
@@ -75,6 +100,18 @@ describe('LetterForm', () => {
 
   beforeEach(() => {
     vi.clearAllMocks()
+    mockTimeZone = 'UTC'
+    mockProfile = undefined
+    mockAutosave = {
+      status: 'idle',
+      recoveredDraft: null,
+      dismissRecoveredDraft: vi.fn(),
+      conflict: null,
+      resolveConflict: vi.fn(),
+      queueDraft: vi.fn(),
+      settle: vi.fn().mockResolvedValue(undefined),
+      clearDraft: vi.fn(),
+    }
   })
 
   describe('Basic rendering', () => {
@@ -305,6 +342,77 @@ describe('LetterForm', () => {
       expect(screen.getByText('Milestones: 1')).toBeInTheDocument()
     })
 
+    it('should sync edited milestones by id and weight new ones', async () => {
+      const user = userEvent.setup()
+      const futureLetter = {
+        ...existingLetter,
+        send_date: '2099-01-01',
+        milestones: [
+          {
+            id: 'milestone-1',
+            title: 'Existing Milestone',
+            description: 'Existing desc',
+            target_date: '2098-06-01',
+            percentage: 40,
+            completed: true,
+            letter_id: 'letter-1',
+            reasoning: 'Builds the habit',
+            is_inferred: true,
+          },
+        ],
+      }
+      mockUpdateLetter.mockResolvedValue(futureLetter)
+      mockUpdateMilestones.mockResolvedValue([])
+
+      render(<LetterForm {...defaultProps} letter={futureLetter as Letter} />)
+
+      await user.click(screen.getByRole('button', { name: /add test milestone/i }))
+      await user.click(screen.getByRole('button', { name: /save changes/i }))
+
+      await waitFor(() => {
+        expect(mockUpdateMilestones).toHaveBeenCalledWith('letter-1', [
+          {
+            id: 'milestone-1',
+            title: 'Existing Milestone',
+            description: 'Existing desc',
+            percentage: 40,
+            target_date: '2098-06-01',
+            reasoning: 'Builds the habit',
+            is_inferred: true,
+          },
+          {
+            id: undefined,
+            title: 'Test milestone',
+            description: undefined,
+            percentage: 60,
+            target_date: '2024-01-15',
+            reasoning: 'Test desc',
+            is_inferred: false,
+          },
+        ])
+      })
+      expect(mockOnSuccess).toHaveBeenCalled()
+    })
+
+    it('should record whether the saved text came from an AI suggestion', async () => {
+      const user = userEvent.setup()
+      const futureLetter = { ...existingLetter, send_date: '2099-01-01', milestones: [] }
+      mockUpdateLetter.mockResolvedValue(futureLetter)
+      mockUpdateMilestones.mockResolvedValue([])
+
+      render(<LetterForm {...defaultProps} letter={futureLetter as Letter} />)
+
+      await user.click(screen.getByRole('button', { name: /enhance goal/i }))
+      await user.click(screen.getByRole('button', { name: /save changes/i }))
+
+      await waitFor(() => {
+        expect(mockUpdateLetter).toHaveBeenCalledWith(
+          'letter-1',
+          expect.objectContaining({ goal: 'Enhanced goal', last_edit_source: 'ai' })
+        )
+      })
+    })
+
     it('should show update button instead of create button', () => {
       render(
         <LetterForm 
@@ -376,6 +484,46 @@ describe('LetterForm', () => {
       expect(dateInput.value).toBe(expectedDateString)
     })
 
+    it('should start new letters from the profile defaults', () => {
+      mockProfile = {
+        default_send_date_offset: 90,
+        default_goal_format: 'By next year, I will',
+        default_letter_template: 'Dear Future Me,',
+      }
+      render(<LetterForm {...defaultProps} />)
+
+      const expectedDate = new Date()
+      expectedDate.setDate(expectedDate.getDate() + 90)
+      expect((screen.getByLabelText(/send date/i) as HTMLInputElement).value).toBe(
+        expectedDate.toISOString().split('T')[0]
+      )
+      expect(screen.getByLabelText(/your goal/i)).toHaveValue('By next year, I will')
+      expect(screen.getByLabelText(/letter content/i)).toHaveValue('Dear Future Me,')
+    })
+
+    it('should leave out AI suggestions when they are turned off', () => {
+      mockProfile = { ai_preferences: { enabled: false } }
+      render(<LetterForm {...defaultProps} />)
+
+      expect(screen.queryByTestId('field-enhancer-title')).not.toBeInTheDocument()
+      expect(screen.queryByTestId('field-enhancer-content')).not.toBeInTheDocument()
+    })
+
+    it('should compute the default send date in the profile timezone', () => {
+      mockTimeZone = 'Pacific/Kiritimati'
+      render(<LetterForm {...defaultProps} />)
+
+      const dateInput = screen.getByLabelText(/send date/i) as HTMLInputElement
+      const today = new Intl.DateTimeFormat('en-CA', { timeZone: 'Pacific/Kiritimati' }).format(new Date())
+      const expectedDate = new Date(`${today}T00:00:00Z`)
+      expectedDate.setUTCDate(expectedDate.getUTCDate() + 30)
+
+      expect(dateInput.value).toBe(expectedDate.toISOString().split('T')[0])
+      expect(dateInput.min).toBe(
+        new Date(Date.parse(`${today}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+      )
+    })
+
     it('should start with empty form fields', () => {
       render(<LetterForm {...defaultProps} />)
 
@@ -384,4 +532,86 @@ describe('LetterForm', () => {
       expect(screen.getByLabelText(/letter content/i)).toHaveValue('')
     })
   })
+
+  describe('Drafts', () => {
+    const draftSnapshot = {
+      title: 'Recovered title',
+      goal: 'Recovered goal',
+      content: 'Recovered content that was never saved',
+      send_date: '2099-03-01',
+      personal_comments: '',
+      voice_memo_url: null,
+      last_edit_source: 'manual',
+      milestones: [],
+    }
+
+    it('should offer to restore an unsaved draft', async () => {
+      const user = userEvent.setup()
+      mockAutosave.recoveredDraft = { snapshot: draftSnapshot, savedAt: '2099-01-01T10:00:00Z' }
+
+      render(<LetterForm {...defaultProps} />)
+
+      expect(screen.getByText(/restore unsaved draft/i)).toBeInTheDocument()
+      await user.click(screen.getByRole('button', { name: /restore draft/i }))
+
+      expect(screen.getByDisplayValue('Recovered title')).toBeInTheDocument()
+      expect(screen.getByDisplayValue('Recovered content that was never saved')).toBeInTheDocument()
+      expect(mockAutosave.dismissRecoveredDraft).toHaveBeenCalled()
+    })
+
+    it('should hand form changes to autosave', async () => {
+      const user = userEvent.setup()
+      render(<LetterForm {...defaultProps} />)
+
+      await user.type(screen.getByLabelText(/letter title/i), 'Hi')
+
+      expect(mockAutosave.queueDraft).toHaveBeenLastCalledWith(
+        expect.objectContaining({ title: 'Hi', voice_memo_url: null, milestones: [] })
+      )
+    })
+
+    it('should finish the autosaved draft instead of creating another letter', async () => {
+      const user = userEvent.setup()
+      mockAutosave.settle.mockResolvedValue('draft-1')
+      mockUpdateLetter.mockResolvedValue({ id: 'draft-1' })
+
+      render(<LetterForm {...defaultProps} />)
+
+      await user.type(screen.getByLabelText(/letter title/i), 'Test Letter')
+      await user.type(screen.getByLabelText(/your goal/i), 'Test Goal')
+      await user.type(screen.getByLabelText(/letter content/i), 'Test Content')
+      await user.clear(screen.getByLabelText(/send date/i))
+      await user.type(screen.getByLabelText(/send date/i), '2099-12-25')
+      await user.click(screen.getByRole('button', { name: /create letter/i }))
+
+      await waitFor(() => {
+        expect(mockUpdateLetter).toHaveBeenCalledWith('draft-1', expect.objectContaining({ title: 'Test Letter' }))
+      })
+      expect(mockCreateLetter).not.toHaveBeenCalled()
+      expect(mockAutosave.clearDraft).toHaveBeenCalled()
+    })
+
+    it('should pause saving until a conflict is resolved', async () => {
+      const user = userEvent.setup()
+      mockAutosave.status = 'conflict'
+      mockAutosave.conflict = {
+        id: 'letter-1',
+        title: 'Their title',
+        goal: 'Their goal',
+        content: 'Their content from the other tab',
+        send_date: '2099-02-01',
+        updated_at: '2099-01-01T10:00:00Z',
+      }
+
+      render(<LetterForm {...defaultProps} />)
+
+      expect(screen.getByText(/changed somewhere else/i)).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: /create letter/i })).toBeDisabled()
+
+      await user.click(screen.getByRole('button', { name: /load the newer version/i }))
+
+      expect(mockAutosave.resolveConflict).toHaveBeenCalledWith('theirs')
+      expect(screen.getByDisplayValue('Their title')).toBeInTheDocument()
+    })
+  })
 })
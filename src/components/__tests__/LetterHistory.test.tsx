@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, within } from '@/test/utils'
+import userEvent from '@testing-library/user-event'
+import { LetterHistory } from '../LetterHistory'
+import { createMockLetter } from '@/test/utils'
+import type { Letter, LetterRevision } from '@/lib/types'
+
+const mockRestoreRevision = vi.fn()
+let mockRevisions: LetterRevision[] = []
+
+vi.mock('../../hooks/useLetterRevisions', () => ({
+  useLetterRevisions: () => ({
+    revisions: mockRevisions,
+    isLoading: false,
+    restoreRevision: mockRestoreRevision,
+    isRestoring: false,
+  }),
+}))
+
+const createRevision = (overrides: Partial<LetterRevision>): LetterRevision => ({
+  id: 'revision-1',
+  letter_id: 'mock-letter-id',
+  user_id: 'mock-user-id',
+  revision_number: 1,
+  title: 'Test Letter',
+  goal: 'This is a test goal',
+  content: 'This is a test letter content',
+  source: 'manual',
+  created_by: 'mock-user-id',
+  created_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+})
+
+describe('LetterHistory', () => {
+  const letter = createMockLetter({
+    goal: 'Run a marathon',
+    content: 'Dear me,\nKeep running.',
+  }) as Letter
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockRestoreRevision.mockResolvedValue(undefined)
+    mockRevisions = [
+      createRevision({
+        id: 'revision-2',
+        revision_number: 2,
+        goal: 'Run a marathon',
+        content: 'Dear me,\nKeep running.',
+        source: 'ai',
+      }),
+      createRevision({
+        id: 'revision-1',
+        revision_number: 1,
+        goal: 'Run a half marathon',
+        content: 'Dear me,\nStart running.',
+      }),
+    ]
+  })
+
+  it('should list revisions with their author and AI origin', () => {
+    render(<LetterHistory letter={letter} />)
+
+    const items = within(screen.getByRole('list', { name: 'Revisions' })).getAllByRole('listitem')
+    expect(items).toHaveLength(2)
+    expect(within(items[0]).getByText('Current')).toBeInTheDocument()
+    expect(within(items[0]).getByText('AI suggestion')).toBeInTheDocument()
+    expect(within(items[1]).queryByText('AI suggestion')).not.toBeInTheDocument()
+    expect(within(items[1]).getByText(/^You ·/)).toBeInTheDocument()
+  })
+
+  it('should mark a revision recorded by draft autosave', () => {
+    mockRevisions[0] = createRevision({ ...mockRevisions[0], source: 'manual', autosave: true })
+    render(<LetterHistory letter={letter} />)
+
+    const items = within(screen.getByRole('list', { name: 'Revisions' })).getAllByRole('listitem')
+    expect(within(items[0]).getByText('Autosaved draft')).toBeInTheDocument()
+    expect(within(items[1]).queryByText('Autosaved draft')).not.toBeInTheDocument()
+  })
+
+  it('should show only the changed lines side by side', async () => {
+    const user = userEvent.setup()
+    render(<LetterHistory letter={letter} />)
+
+    await user.click(screen.getByRole('button', { name: /revision 1/i }))
+
+    const diff = screen.getByText(/compared with the current version/i).closest('[data-section="revision-diff"]') as HTMLElement
+    expect(within(diff).queryByText('Title')).not.toBeInTheDocument()
+    expect(within(diff).getByText('Run a half marathon')).toHaveAttribute('data-type', 'removed')
+    expect(within(diff).getByText('Keep running.')).toHaveAttribute('data-type', 'added')
+    expect(within(diff).getAllByText('Dear me,')[0]).toHaveAttribute('data-type', 'equal')
+  })
+
+  it('should restore an earlier revision but not the current one', async () => {
+    const user = userEvent.setup()
+    render(<LetterHistory letter={letter} />)
+
+    await user.click(screen.getByRole('button', { name: /revision 2/i }))
+    expect(screen.queryByRole('button', { name: /restore this version/i })).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: /revision 1/i }))
+    await user.click(screen.getByRole('button', { name: /restore this version/i }))
+
+    expect(mockRestoreRevision).toHaveBeenCalledWith(mockRevisions[1])
+  })
+})
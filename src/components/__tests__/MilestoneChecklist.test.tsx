@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, within } from '@/test/utils'
+import userEvent from '@testing-library/user-event'
+import { MilestoneChecklist } from '../MilestoneChecklist'
+import { createMockMilestone } from '@/test/utils'
+import type { Milestone } from '@/lib/types'
+
+const mockToggleMilestone = vi.fn()
+const mockUpdateMilestone = vi.fn()
+const mockReorderMilestones = vi.fn()
+const mockDeleteMilestone = vi.fn()
+
+vi.mock('../../hooks/useMilestones', () => ({
+  useMilestones: () => ({
+    toggleMilestone: mockToggleMilestone,
+    updateMilestone: mockUpdateMilestone,
+    reorderMilestones: mockReorderMilestones,
+    deleteMilestone: mockDeleteMilestone,
+  }),
+}))
+
+describe('MilestoneChecklist', () => {
+  const milestones = [
+    createMockMilestone({ id: 'second', title: 'Run 10k', position: 1, percentage: 60 }),
+    createMockMilestone({
+      id: 'first',
+      title: 'Run 5k',
+      position: 0,
+      percentage: 40,
+      completed: true,
+      completed_at: '2024-03-04T09:00:00Z',
+    }),
+  ] as Milestone[]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockToggleMilestone.mockResolvedValue(undefined)
+    mockUpdateMilestone.mockResolvedValue(undefined)
+    mockReorderMilestones.mockResolvedValue(undefined)
+    mockDeleteMilestone.mockResolvedValue(undefined)
+  })
+
+  it('lists milestones in their saved order with completion dates', () => {
+    render(<MilestoneChecklist letterId="letter-1" milestones={milestones} />)
+
+    const items = screen.getAllByRole('listitem')
+    expect(within(items[0]).getByText('Run 5k')).toBeInTheDocument()
+    expect(within(items[0]).getByText(/Completed Mar 4, 2024/)).toBeInTheDocument()
+    expect(within(items[1]).getByText('Run 10k')).toBeInTheDocument()
+    expect(within(items[1]).getByText(/60% of goal/)).toBeInTheDocument()
+  })
+
+  it('ticks a milestone off', async () => {
+    const user = userEvent.setup()
+    render(<MilestoneChecklist letterId="letter-1" milestones={milestones} />)
+
+    await user.click(screen.getByRole('checkbox', { name: 'Run 10k' }))
+
+    expect(mockToggleMilestone).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'second' }),
+      true
+    )
+  })
+
+  it('saves a new order when a milestone moves', async () => {
+    const user = userEvent.setup()
+    render(<MilestoneChecklist letterId="letter-1" milestones={milestones} />)
+
+    const [firstItem] = screen.getAllByRole('listitem')
+    await user.click(within(firstItem).getByRole('button', { name: /move down/i }))
+
+    expect(mockReorderMilestones).toHaveBeenCalledWith('letter-1', ['second', 'first'])
+  })
+
+  it('edits and deletes a single milestone', async () => {
+    const user = userEvent.setup()
+    render(<MilestoneChecklist letterId="letter-1" milestones={milestones} />)
+
+    const [, secondItem] = screen.getAllByRole('listitem')
+    await user.click(within(secondItem).getByRole('button', { name: /edit milestone/i }))
+
+    const title = screen.getByLabelText(/milestone title/i)
+    await user.clear(title)
+    await user.type(title, 'Run a half marathon')
+    await user.click(screen.getByRole('button', { name: /save/i }))
+
+    expect(mockUpdateMilestone).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'second' }),
+      { title: 'Run a half marathon', target_date: '2024-06-01', percentage: 60 }
+    )
+
+    const [firstItem] = screen.getAllByRole('listitem')
+    await user.click(within(firstItem).getByRole('button', { name: /delete milestone/i }))
+
+    expect(mockDeleteMilestone).toHaveBeenCalledWith(expect.objectContaining({ id: 'first' }))
+  })
+})
@@ -69,6 +69,22 @@ describe('MilestoneManager', () => {
       })
     })
 
+    it('should pass the send date so suggested dates stay before it', async () => {
+      const user = userEvent.setup()
+      mockInferMilestones.mockResolvedValue({ suggestedMilestones: [] })
+
+      render(<MilestoneManager {...defaultProps} title="Dev" sendDate="2030-06-01" />)
+
+      await user.click(screen.getByRole('button', { name: /suggest milestones/i }))
+
+      expect(mockInferMilestones).toHaveBeenCalledWith({
+        goal: defaultProps.goal,
+        content: defaultProps.content,
+        title: 'Dev',
+        sendDate: '2030-06-01',
+      })
+    })
+
     it('should handle inference error gracefully', async () => {
       const user = userEvent.setup()
 
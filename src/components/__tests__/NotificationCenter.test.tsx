@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@/test/utils'
+import userEvent from '@testing-library/user-event'
+import { NotificationCenter } from '../NotificationCenter'
+import type { Notification } from '../../lib/types'
+
+const createNotification = (overrides: Partial<Notification> = {}): Notification => ({
+  id: 'n-1',
+  user_id: 'mock-user-id',
+  letter_id: 'letter-1',
+  type: 'letter_delivery',
+  content: 'Letter delivery',
+  scheduled_for: '2025-01-01T09:00:00Z',
+  status: 'sent',
+  delivery_method: 'email',
+  attempt_count: 1,
+  created_at: '2025-01-01T08:00:00Z',
+  letter: { id: 'letter-1', title: 'Dear future me' },
+  ...overrides,
+})
+
+const mockMarkAsRead = vi.fn(() => Promise.resolve())
+const mockMarkAllAsRead = vi.fn(() => Promise.resolve())
+let mockNotifications: Notification[] = []
+
+vi.mock('../../hooks/useNotifications', () => ({
+  useNotifications: () => ({
+    notifications: mockNotifications,
+    unreadCount: mockNotifications.filter((n) => !n.read_at && n.status !== 'pending').length,
+    isLoading: false,
+    markAsRead: mockMarkAsRead,
+    markAllAsRead: mockMarkAllAsRead,
+  }),
+}))
+
+describe('NotificationCenter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockNotifications = [
+      createNotification(),
+      createNotification({
+        id: 'n-2',
+        type: 'milestone_reminder',
+        milestone_id: 'm-1',
+        milestone: { id: 'm-1', title: 'Run a 10K' },
+        status: 'dead_letter',
+        attempt_count: 5,
+        last_error: 'Mailbox unavailable',
+      }),
+      createNotification({ id: 'n-3', status: 'pending', attempt_count: 0, letter: { id: 'letter-2', title: 'Next year' }, letter_id: 'letter-2' }),
+    ]
+  })
+
+  it('shows the unread count on the bell', () => {
+    render(<NotificationCenter />)
+
+    expect(screen.getByRole('button', { name: 'Notifications (2 unread)' })).toBeInTheDocument()
+    expect(screen.getByText('2')).toBeInTheDocument()
+  })
+
+  it('hides the badge when everything has been read', () => {
+    mockNotifications = [createNotification({ read_at: '2025-01-02T00:00:00Z' })]
+    render(<NotificationCenter />)
+
+    expect(screen.getByRole('button', { name: 'Notifications' })).toBeInTheDocument()
+  })
+
+  it('lists deliveries and reminders with their state', async () => {
+    const user = userEvent.setup()
+    render(<NotificationCenter />)
+
+    await user.click(screen.getByRole('button', { name: /notifications/i }))
+
+    expect(screen.getByText('Dear future me')).toBeInTheDocument()
+    expect(screen.getByText('Run a 10K')).toBeInTheDocument()
+    expect(screen.getByText(/Milestone reminder · Failed/)).toBeInTheDocument()
+    expect(screen.getByText('Mailbox unavailable')).toBeInTheDocument()
+    expect(screen.getByText(/Letter delivery · Scheduled/)).toBeInTheDocument()
+  })
+
+  it('filters by notification type', async () => {
+    const user = userEvent.setup()
+    render(<NotificationCenter />)
+
+    await user.click(screen.getByRole('button', { name: /notifications/i }))
+    await user.click(screen.getByRole('tab', { name: 'Reminders' }))
+
+    expect(screen.getByText('Run a 10K')).toBeInTheDocument()
+    expect(screen.queryByText('Dear future me')).not.toBeInTheDocument()
+  })
+
+  it('links to the letter and marks the notification as read', async () => {
+    const user = userEvent.setup()
+    render(<NotificationCenter />)
+
+    await user.click(screen.getByRole('button', { name: /notifications/i }))
+    const link = screen.getByText('Dear future me').closest('a')
+    expect(link).toHaveAttribute('href', '/letters?letter=letter-1')
+
+    await user.click(link!)
+    expect(mockMarkAsRead).toHaveBeenCalledWith(['n-1'])
+  })
+
+  it('marks everything as read', async () => {
+    const user = userEvent.setup()
+    render(<NotificationCenter />)
+
+    await user.click(screen.getByRole('button', { name: /notifications/i }))
+    await user.click(screen.getByRole('button', { name: 'Mark all as read' }))
+
+    expect(mockMarkAllAsRead).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@/test/utils'
+import userEvent from '@testing-library/user-event'
+import { ProfileSettingsForm } from '../ProfileSettingsForm'
+import { LetterDefaultsForm } from '../LetterDefaultsForm'
+import { resolveProfilePreferences } from '@/lib/profile'
+import type { Profile } from '@/lib/types'
+
+describe('Settings forms', () => {
+  const onSave = vi.fn()
+  const profile = {
+    id: 'profile-1',
+    user_id: 'mock-user-id',
+    email: 'test@example.com',
+    full_name: 'Sam',
+    timezone: 'UTC',
+    delivery_hour: 9,
+    language: 'en',
+    default_send_date_offset: 180,
+    default_letter_template: 'Dear Future Me,',
+    default_goal_format: null,
+    notification_preferences: { email: true, push: false },
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  } as Profile
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    onSave.mockResolvedValue(profile)
+  })
+
+  describe('ProfileSettingsForm', () => {
+    it('should reject an unknown timezone', async () => {
+      const user = userEvent.setup()
+      render(
+        <ProfileSettingsForm profile={profile} preferences={resolveProfilePreferences(profile)} onSave={onSave} />
+      )
+
+      const timezone = screen.getByLabelText('Timezone')
+      await user.clear(timezone)
+      await user.type(timezone, 'Mars/Olympus_Mons')
+      await user.click(screen.getByRole('button', { name: /save/i }))
+
+      expect(await screen.findByText(/unknown timezone/i)).toBeInTheDocument()
+      expect(onSave).not.toHaveBeenCalled()
+    })
+
+    it('should save the name and timezone', async () => {
+      const user = userEvent.setup()
+      render(
+        <ProfileSettingsForm profile={profile} preferences={resolveProfilePreferences(profile)} onSave={onSave} />
+      )
+
+      const timezone = screen.getByLabelText('Timezone')
+      await user.clear(timezone)
+      await user.type(timezone, 'Europe/Berlin')
+      await user.click(screen.getByRole('button', { name: /save/i }))
+
+      await waitFor(() => {
+        expect(onSave).toHaveBeenCalledWith({
+          full_name: 'Sam',
+          language: 'en',
+          timezone: 'Europe/Berlin',
+          delivery_hour: 9,
+        })
+      })
+    })
+  })
+
+  describe('LetterDefaultsForm', () => {
+    it('should save the delivery offset and clear a blank template', async () => {
+      const user = userEvent.setup()
+      render(
+        <LetterDefaultsForm profile={profile} preferences={resolveProfilePreferences(profile)} onSave={onSave} />
+      )
+
+      const offset = screen.getByLabelText(/default delivery/i)
+      await user.clear(offset)
+      await user.type(offset, '365')
+      await user.clear(screen.getByLabelText(/letter template/i))
+      await user.click(screen.getByRole('button', { name: /save/i }))
+
+      await waitFor(() => {
+        expect(onSave).toHaveBeenCalledWith({
+          default_send_date_offset: 365,
+          default_goal_format: null,
+          default_letter_template: null,
+        })
+      })
+    })
+
+    it('should not allow a delivery offset in the past', async () => {
+      const user = userEvent.setup()
+      render(
+        <LetterDefaultsForm profile={profile} preferences={resolveProfilePreferences(profile)} onSave={onSave} />
+      )
+
+      const offset = screen.getByLabelText(/default delivery/i)
+      await user.clear(offset)
+      await user.type(offset, '0')
+      await user.click(screen.getByRole('button', { name: /save/i }))
+
+      expect(await screen.findByText(/at least one day/i)).toBeInTheDocument()
+      expect(onSave).not.toHaveBeenCalled()
+    })
+  })
+})
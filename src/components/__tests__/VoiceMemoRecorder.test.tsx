@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { act, render, screen, waitFor, mockMediaRecorder } from '@/test/utils'
+import userEvent from '@testing-library/user-event'
+import { VoiceMemoRecorder, VoiceMemoPlayer } from '../VoiceMemoRecorder'
+
+const mockUploadVoiceMemo = vi.fn()
+let mockSignedUrl: string | null = 'https://storage.example.com/signed/memo.webm?token=abc'
+
+vi.mock('../../hooks/useVoiceMemo', () => ({
+  useVoiceMemo: () => ({
+    uploadVoiceMemo: mockUploadVoiceMemo,
+    removeVoiceMemo: vi.fn(),
+    isUploading: false,
+  }),
+  useVoiceMemoUrl: (value?: string | null) => ({
+    url: value ? mockSignedUrl : null,
+    isLoading: false,
+  }),
+}))
+
+describe('VoiceMemoRecorder', () => {
+  const onChange = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockSignedUrl = 'https://storage.example.com/signed/memo.webm?token=abc'
+    vi.mocked(navigator.mediaDevices.getUserMedia).mockResolvedValue({
+      getTracks: () => [],
+    } as unknown as MediaStream)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('explains when the browser cannot record', () => {
+    vi.stubGlobal('MediaRecorder', undefined)
+    render(<VoiceMemoRecorder value={null} onChange={onChange} />)
+
+    expect(screen.getByText(/not supported in this browser/i)).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: /record voice memo/i })).not.toBeInTheDocument()
+  })
+
+  it('uploads the recording when it stops and reports the storage path', async () => {
+    const user = userEvent.setup()
+    const recorder = mockMediaRecorder() as any
+    mockUploadVoiceMemo.mockResolvedValue('user-1/new-memo.webm')
+
+    render(<VoiceMemoRecorder value={null} onChange={onChange} />)
+
+    await user.click(screen.getByRole('button', { name: /record voice memo/i }))
+    expect(recorder.start).toHaveBeenCalled()
+
+    await user.click(screen.getByRole('button', { name: /stop recording/i }))
+    expect(recorder.stop).toHaveBeenCalled()
+
+    await act(async () => {
+      recorder.ondataavailable({ data: new Blob(['audio'], { type: 'audio/webm' }) })
+      await recorder.onstop()
+    })
+
+    await waitFor(() => {
+      expect(onChange).toHaveBeenCalledWith('user-1/new-memo.webm')
+    })
+    expect(mockUploadVoiceMemo.mock.calls[0][0]).toBeInstanceOf(Blob)
+  })
+
+  it('plays an existing memo through its signed link and can remove it', async () => {
+    const user = userEvent.setup()
+    const { container } = render(
+      <VoiceMemoRecorder value="user-1/memo.webm" onChange={onChange} />
+    )
+
+    expect(container.querySelector('audio')).toHaveAttribute('src', mockSignedUrl)
+
+    await user.click(screen.getByRole('button', { name: /^remove$/i }))
+
+    expect(onChange).toHaveBeenCalledWith(null)
+  })
+})
+
+describe('VoiceMemoPlayer', () => {
+  it('shows a fallback when the link cannot be signed', () => {
+    mockSignedUrl = null
+    render(<VoiceMemoPlayer value="user-1/memo.webm" />)
+
+    expect(screen.getByText(/voice memo is unavailable/i)).toBeInTheDocument()
+  })
+})
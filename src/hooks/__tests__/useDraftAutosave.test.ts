@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useDraftAutosave } from '../useDraftAutosave'
+import { createMockLetter } from '@/test/utils'
+import { readLocalDraft } from '@/lib/drafts'
+import type { DraftSnapshot, Letter } from '@/lib/types'
+
+const mockSaveDraft = vi.fn()
+vi.mock('../useLetters', () => ({
+  useLetters: () => ({ saveDraft: mockSaveDraft }),
+}))
+
+const letter = createMockLetter({ updated_at: '2024-01-01T00:00:00Z' }) as Letter
+
+const snapshot = (content: string): DraftSnapshot => ({
+  title: letter.title,
+  goal: letter.goal,
+  content,
+  send_date: '2024-12-31',
+  voice_memo_url: null,
+  last_edit_source: 'manual',
+  milestones: [],
+})
+
+describe('useDraftAutosave', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    localStorage.clear()
+    mockSaveDraft.mockReset()
+    mockSaveDraft.mockImplementation(async (id: string, data: Partial<Letter>) => ({
+      letter: { ...letter, ...data, id, updated_at: new Date().toISOString() },
+      conflict: false,
+    }))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  // The letter_revisions trigger folds consecutive autosaves into one
+  // revision, so every server save from here has to say it is one
+  it('marks each save after a pause in typing as an autosave', async () => {
+    const { result } = renderHook(() => useDraftAutosave(letter, 'user-1'))
+
+    act(() => result.current.queueDraft(snapshot(letter.content)))
+    for (const content of ['Dear me,', 'Dear me, keep going.']) {
+      act(() => result.current.queueDraft(snapshot(content)))
+      await act(() => vi.advanceTimersByTimeAsync(2000))
+    }
+
+    expect(mockSaveDraft).toHaveBeenCalledTimes(2)
+    expect(mockSaveDraft.mock.calls.map((call) => call[1])).toEqual([
+      expect.objectContaining({ content: 'Dear me,', last_save_kind: 'autosave' }),
+      expect.objectContaining({ content: 'Dear me, keep going.', last_save_kind: 'autosave' }),
+    ])
+    expect(result.current.status).toBe('saved')
+  })
+
+  it('saves once for a burst of typing', async () => {
+    const { result } = renderHook(() => useDraftAutosave(letter, 'user-1'))
+
+    act(() => result.current.queueDraft(snapshot(letter.content)))
+    act(() => result.current.queueDraft(snapshot('D')))
+    await act(() => vi.advanceTimersByTimeAsync(500))
+    act(() => result.current.queueDraft(snapshot('Dear')))
+    await act(() => vi.advanceTimersByTimeAsync(2000))
+
+    expect(mockSaveDraft).toHaveBeenCalledTimes(1)
+    expect(mockSaveDraft).toHaveBeenCalledWith(letter.id, expect.objectContaining({ content: 'Dear' }), letter.updated_at)
+  })
+
+  it('keeps local drafts apart per user', () => {
+    // Scheduled letters only keep their edits on this device
+    const scheduled = { ...letter, status: 'scheduled' } as Letter
+    const { result, unmount } = renderHook(() => useDraftAutosave(scheduled, 'user-1'))
+
+    act(() => result.current.queueDraft(snapshot(letter.content)))
+    act(() => result.current.queueDraft(snapshot('Dear me,')))
+    unmount()
+
+    expect(readLocalDraft('user-1', letter.id)?.snapshot.content).toBe('Dear me,')
+    expect(readLocalDraft('user-2', letter.id)).toBeNull()
+
+    const other = renderHook(() => useDraftAutosave(scheduled, 'user-2'))
+    expect(other.result.current.recoveredDraft).toBeNull()
+
+    const owner = renderHook(() => useDraftAutosave(scheduled, 'user-1'))
+    expect(owner.result.current.recoveredDraft?.snapshot.content).toBe('Dear me,')
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * DRAFT AUTOSAVE HOOK
+ *
+ * Keeps the letter form's work safe while it is being written. Every change
+ * goes to localStorage straight away; once the letter has a title it is
+ * also saved to the server as a draft after a pause in typing. Server saves
+ * are guarded by `updated_at`, so a draft edited in another tab is reported
+ * as a conflict instead of being overwritten.
+ *
+ * Only drafts autosave to the server. Edits to a scheduled or sent letter
+ * wait for the form to be submitted and are kept on this device until then.
+ * Local copies belong to `userId`; without one they aren't kept at all.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useLetters } from './useLetters';
+import {
+  clearLocalDraft,
+  isDraftNewerThan,
+  isSameSnapshot,
+  readLocalDraft,
+  writeLocalDraft,
+} from '../lib/drafts';
+import type {
+  AutosaveStatus,
+  DraftSaveData,
+  DraftSnapshot,
+  Letter,
+  LocalDraft,
+  UseDraftAutosaveReturn,
+} from '../lib/types';
+
+const AUTOSAVE_DELAY_MS = 2000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+function toDraftSaveData(snapshot: DraftSnapshot): DraftSaveData {
+  return {
+    title: snapshot.title,
+    goal: snapshot.goal,
+    content: snapshot.content,
+    send_date: DATE_PATTERN.test(snapshot.send_date) ? snapshot.send_date : undefined,
+    personal_comments: snapshot.personal_comments,
+    voice_memo_url: snapshot.voice_memo_url,
+    last_edit_source: snapshot.last_edit_source,
+    // Lets the history fold a run of autosaves into one revision
+    last_save_kind: 'autosave',
+  };
+}
+
+export function useDraftAutosave(letter?: Letter, userId?: string): UseDraftAutosaveReturn {
+  const { saveDraft } = useLetters({ enabled: false });
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<string>();
+  const [conflict, setConflict] = useState<Letter | null>(null);
+  const [recoveredDraft, setRecoveredDraft] = useState<LocalDraft | null>(() => {
+    const draft = readLocalDraft(userId, letter?.id);
+    return draft && isDraftNewerThan(draft, letter?.updated_at) ? draft : null;
+  });
+
+  // The server row being autosaved (none yet for a new letter), the version
+  // of it we last saw, and the form's latest state
+  const draft = useRef({
+    id: letter?.id,
+    updatedAt: letter?.updated_at,
+    isDraft: !letter || letter.status === 'draft',
+    baseline: null as DraftSnapshot | null,
+    latest: null as DraftSnapshot | null,
+    timer: undefined as ReturnType<typeof setTimeout> | undefined,
+    inFlight: null as Promise<void> | null,
+    blocked: false, // a conflict is waiting to be resolved
+    closed: false,
+  });
+
+  // The profile can arrive after the form opens
+  const owner = useRef(userId);
+  owner.current = userId;
+
+  const canSaveToServer = (snapshot: DraftSnapshot) =>
+    draft.current.isDraft &&
+    snapshot.title.trim().length > 0 &&
+    // A new row needs a send date; an existing one keeps its own
+    (!!draft.current.id || DATE_PATTERN.test(snapshot.send_date));
+
+  const cancelTimer = () => {
+    clearTimeout(draft.current.timer);
+    draft.current.timer = undefined;
+  };
+
+  const saveNow = async (): Promise<void> => {
+    cancelTimer();
+    if (draft.current.inFlight) await draft.current.inFlight;
+
+    const state = draft.current;
+    const snapshot = state.latest;
+    if (!snapshot || state.blocked || state.closed || !canSaveToServer(snapshot)) return;
+
+    const run = async () => {
+      setStatus('saving');
+      try {
+        const previousId = state.id;
+        const result = await saveDraft(previousId ?? null, toDraftSaveData(snapshot), state.updatedAt);
+
+        if (result.conflict) {
+          state.blocked = true;
+          setConflict(result.letter);
+          setStatus('conflict');
+          return;
+        }
+
+        state.id = result.letter.id;
+        state.updatedAt = result.letter.updated_at;
+        if (!previousId) clearLocalDraft(owner.current, null);
+
+        // Changes typed while saving are still only on this device
+        if (state.latest === snapshot) {
+          clearLocalDraft(owner.current, state.id);
+        } else if (state.latest) {
+          writeLocalDraft(owner.current, state.id, state.latest);
+        }
+
+        setLastSavedAt(result.letter.updated_at);
+        setStatus(state.latest === snapshot ? 'saved' : 'pending');
+      } catch {
+        // Offline or rejected; the local copy has it and the next change retries
+        setStatus('local');
+      }
+    };
+
+    state.inFlight = run();
+    await state.inFlight;
+    state.inFlight = null;
+  };
+
+  // Timers and the unmount flush always call the latest closure
+  const saveRef = useRef(saveNow);
+  saveRef.current = saveNow;
+
+  const queueDraft = (snapshot: DraftSnapshot) => {
+    const state = draft.current;
+    if (state.closed) return;
+
+    // The first state seen is what the form opened with; nothing to save yet
+    if (!state.baseline) {
+      state.baseline = snapshot;
+      state.latest = snapshot;
+      return;
+    }
+    if (state.latest && isSameSnapshot(snapshot, state.latest)) return;
+
+    state.latest = snapshot;
+    writeLocalDraft(owner.current, state.id, snapshot);
+
+    if (state.blocked) return;
+    if (!canSaveToServer(snapshot)) {
+      setStatus('local');
+      return;
+    }
+
+    setStatus('pending');
+    cancelTimer();
+    state.timer = setTimeout(() => void saveRef.current(), AUTOSAVE_DELAY_MS);
+  };
+
+  // Closing the form saves whatever was still waiting for the timer
+  useEffect(() => {
+    const state = draft.current;
+    const save = saveRef;
+    return () => {
+      if (state.timer && !state.closed) {
+        void save.current();
+      }
+    };
+  }, []);
+
+  const dismissRecoveredDraft = () => {
+    clearLocalDraft(owner.current, draft.current.id);
+    setRecoveredDraft(null);
+  };
+
+  const resolveConflict = (keep: 'mine' | 'theirs') => {
+    const state = draft.current;
+    if (!conflict) return;
+
+    state.updatedAt = conflict.updated_at;
+    state.blocked = false;
+    setConflict(null);
+
+    if (keep === 'mine') {
+      void saveRef.current();
+      return;
+    }
+
+    // The form is reset to their copy; start over from it
+    state.baseline = null;
+    state.latest = null;
+    clearLocalDraft(owner.current, state.id);
+    setLastSavedAt(conflict.updated_at);
+    setStatus('saved');
+  };
+
+  // Before submitting: stop the timer and let a running save finish, so the
+  // submit writes to the row autosave created instead of a second one
+  const settle = async (): Promise<string | undefined> => {
+    cancelTimer();
+    if (draft.current.inFlight) await draft.current.inFlight;
+    return draft.current.id;
+  };
+
+  // After a successful submit there is nothing left to recover
+  const clearDraft = () => {
+    const state = draft.current;
+    cancelTimer();
+    state.closed = true;
+    clearLocalDraft(owner.current, letter?.id);
+    clearLocalDraft(owner.current, state.id);
+  };
+
+  return {
+    status,
+    lastSavedAt,
+    recoveredDraft,
+    dismissRecoveredDraft,
+    conflict,
+    resolveConflict,
+    queueDraft,
+    settle,
+    clearDraft,
+  };
+}
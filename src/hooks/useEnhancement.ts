@@ -2,36 +2,149 @@
  * PROGRESSIVE ENHANCEMENT HOOK
  * 
  * Supports individual field enhancement and milestone inference.
- * More thoughtful, step-by-step user experience.
+ * More thoughtful, step-by-step user experience. Whether a field
+ * suggestion was used is reported back to its ai_events row.
+ *
+ * The edge functions are rate limited per user. The remaining quota they
+ * report is kept in the query cache, so every enhancer shows the same
+ * figure, and a RATE_LIMITED answer says when to try again.
+ *
+ * Field enhancement can also stream: the suggestion arrives as server-sent
+ * events and can be stopped halfway with an AbortSignal.
  */
 
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { useToast } from '@/components/ui/use-toast';
+import { formatRetryAfter, RATE_LIMITED_ERROR_CODE } from '../lib/ai-quota';
+import { readServerSentEvents } from '../../supabase/functions/_shared/sse.ts';
 import type { 
+  AIQuota,
   FieldEnhancementRequest, 
   FieldEnhancementResponse, 
+  FieldEnhancementStreamOptions,
   MilestoneInferenceRequest, 
-  MilestoneInferenceResponse 
+  MilestoneInferenceResponse,
+  SuggestionOutcome
 } from '../lib/types';
 
+export const AI_QUOTA_QUERY_KEY = 'ai-quota';
+
+interface FunctionErrorBody {
+  code?: string;
+  message?: string;
+  details?: {
+    retryAfterSeconds?: number;
+    quota?: AIQuota;
+  };
+}
+
+// supabase-js only gives the standard error body on the raw response
+async function readErrorBody(error: { context?: unknown }): Promise<FunctionErrorBody | null> {
+  if (!(error.context instanceof Response)) return null;
+  try {
+    const body = await error.context.clone().json();
+    return body?.error ?? null;
+  } catch {
+    return null;
+  }
+}
+
+const abortError = () => new DOMException('Enhancement cancelled', 'AbortError');
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
 
 export function useEnhancement() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Never fetched; filled in from the functions' responses
+  const { data: quota } = useQuery({
+    queryKey: [AI_QUOTA_QUERY_KEY],
+    queryFn: (): AIQuota | null => null,
+    enabled: false,
+    staleTime: Infinity,
+  });
+
+  const setQuota = (next?: AIQuota | null) => {
+    if (next) queryClient.setQueryData<AIQuota>([AI_QUOTA_QUERY_KEY], next);
+  };
+
+  const toFunctionError = async (error: Error & { context?: unknown }): Promise<Error> => {
+    const errorBody = await readErrorBody(error);
+    if (errorBody?.code === RATE_LIMITED_ERROR_CODE) {
+      setQuota(errorBody.details?.quota);
+      const retryAfter = errorBody.details?.retryAfterSeconds ?? 60;
+      return new Error(`${errorBody.message}. Try again in ${formatRetryAfter(retryAfter)}.`);
+    }
+    return error;
+  };
+
+  const invokeAIFunction = async <T extends { quota?: AIQuota | null }>(name: string, body: object): Promise<T> => {
+    const { data: response, error } = await supabase.functions.invoke(name, { body });
+
+    if (error) throw await toFunctionError(error);
+
+    // The response comes wrapped in the standard format from the edge function
+    const result: T = response.data;
+    setQuota(result?.quota);
+    return result;
+  };
+
+  // Errors before the stream starts (auth, validation, rate limit) come back
+  // as usual; after that, as "error" events
+  const streamFieldEnhancement = async (
+    request: FieldEnhancementRequest,
+    { onText, signal }: FieldEnhancementStreamOptions
+  ): Promise<FieldEnhancementResponse> => {
+    const { data: response, error } = await supabase.functions.invoke('enhance-field', {
+      body: { ...request, stream: true },
+    });
+
+    if (error) throw await toFunctionError(error);
+    if (!(response instanceof Response) || !response.body) {
+      throw new Error('Enhancement stream unavailable');
+    }
+
+    let suggestion = '';
+    for await (const event of readServerSentEvents(response.body, signal)) {
+      if (signal?.aborted) break;
+      const data = JSON.parse(event.data);
+
+      if (event.event === 'delta') {
+        suggestion += data.text;
+        onText(suggestion);
+      } else if (event.event === 'done') {
+        setQuota(data.quota);
+        return data as FieldEnhancementResponse;
+      } else if (event.event === 'error') {
+        throw new Error(data.message);
+      }
+    }
+
+    if (signal?.aborted) throw abortError();
+    throw new Error('The enhancement stopped before it finished');
+  };
 
   // Individual field enhancement
   const fieldEnhancementMutation = useMutation({
-    mutationFn: async (data: FieldEnhancementRequest): Promise<FieldEnhancementResponse> => {
-      const { data: response, error } = await supabase.functions.invoke('enhance-field', {
-        body: data,
+    mutationFn: (data: FieldEnhancementRequest): Promise<FieldEnhancementResponse> =>
+      invokeAIFunction<FieldEnhancementResponse>('enhance-field', data),
+    onError: (error) => {
+      toast({
+        title: 'Enhancement failed',
+        description: error.message,
+        variant: 'destructive',
       });
-
-      if (error) throw error;
-      
-      // The response comes wrapped in the standard format from the edge function
-      return response.data;
     },
+  });
+
+  // Streamed field enhancement; a cancelled stream is not an error to show
+  const fieldStreamMutation = useMutation({
+    mutationFn: ({ request, ...options }: FieldEnhancementStreamOptions & { request: FieldEnhancementRequest }) =>
+      streamFieldEnhancement(request, options),
     onError: (error) => {
+      if (isAbortError(error)) return;
       toast({
         title: 'Enhancement failed',
         description: error.message,
@@ -42,16 +155,8 @@ export function useEnhancement() {
 
   // Milestone inference
   const milestoneInferenceMutation = useMutation({
-    mutationFn: async (data: MilestoneInferenceRequest): Promise<MilestoneInferenceResponse> => {
-      const { data: response, error } = await supabase.functions.invoke('infer-milestones', {
-        body: data,
-      });
-
-      if (error) throw error;
-      
-      // The response comes wrapped in the standard format from the edge function
-      return response.data;
-    },
+    mutationFn: (data: MilestoneInferenceRequest): Promise<MilestoneInferenceResponse> =>
+      invokeAIFunction<MilestoneInferenceResponse>('infer-milestones', data),
     onError: (error) => {
       toast({
         title: 'Milestone inference failed',
@@ -61,16 +166,37 @@ export function useEnhancement() {
     },
   });
 
+  // Suggestion outcome; analytics only, so failures stay silent
+  const suggestionOutcomeMutation = useMutation({
+    mutationFn: async ({ eventId, applied }: SuggestionOutcome): Promise<void> => {
+      const { error } = await supabase.rpc('mark_ai_event_applied', {
+        p_event_id: eventId,
+        p_applied: applied,
+      });
+
+      if (error) throw error;
+    },
+  });
+
   return {
     // Individual field enhancement
     enhanceField: fieldEnhancementMutation.mutateAsync,
-    isEnhancingField: fieldEnhancementMutation.isPending,
+    enhanceFieldStream: (request: FieldEnhancementRequest, options: FieldEnhancementStreamOptions) =>
+      fieldStreamMutation.mutateAsync({ request, ...options }),
+    isEnhancingField: fieldEnhancementMutation.isPending || fieldStreamMutation.isPending,
+    reportSuggestionOutcome: suggestionOutcomeMutation.mutate,
     
     // Milestone inference
     inferMilestones: milestoneInferenceMutation.mutateAsync,
     isInferringMilestones: milestoneInferenceMutation.isPending,
     
     // Overall loading state
-    isLoading: fieldEnhancementMutation.isPending || milestoneInferenceMutation.isPending,
+    isLoading:
+      fieldEnhancementMutation.isPending ||
+      fieldStreamMutation.isPending ||
+      milestoneInferenceMutation.isPending,
+
+    // Remaining AI allowance, once a function has reported it
+    quota: quota ?? null,
   };
 }
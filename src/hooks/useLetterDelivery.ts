@@ -2,26 +2,40 @@
  * LETTER DELIVERY HOOK
  * 
  * Handles triggering letter delivery via the Supabase function.
- * Supports both scheduling and immediate sending of letters.
+ * Supports scheduling, immediate sending, cancelling, rescheduling and
+ * retrying failed deliveries.
  */
 
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { useToast } from '@/components/ui/use-toast';
+import { LETTERS_QUERY_KEY } from './useLetters';
 
 interface TriggerDeliveryRequest {
   letterId: string;
-  action: 'schedule' | 'send';
+  action: 'schedule' | 'send' | 'retry' | 'cancel' | 'reschedule';
+  sendDate?: string; // YYYY-MM-DD, required for 'reschedule'
 }
 
 interface TriggerDeliveryResponse {
   message: string;
   newStatus: string;
   emailSent: boolean;
+  nextAttemptAt?: string | null;
+  scheduledFor?: string;
 }
 
+const SUCCESS_TITLES: Record<TriggerDeliveryRequest['action'], string> = {
+  schedule: 'Letter scheduled!',
+  send: 'Letter sent!',
+  retry: 'Retry queued',
+  cancel: 'Delivery cancelled',
+  reschedule: 'Letter rescheduled',
+};
+
 export function useLetterDelivery() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const triggerDeliveryMutation = useMutation({
     mutationFn: async (data: TriggerDeliveryRequest): Promise<TriggerDeliveryResponse> => {
@@ -37,12 +51,18 @@ export function useLetterDelivery() {
       return response.data;
     },
     onSuccess: (data, variables) => {
+      // A failed send is retried by the delivery worker, so it isn't an error here
+      const sendFailed = variables.action === 'send' && !data.emailSent;
       toast({
-        title: variables.action === 'send' ? 'Letter sent!' : 'Letter scheduled!',
+        title: sendFailed ? 'Delivery delayed' : SUCCESS_TITLES[variables.action],
         description: data.message,
         variant: 'default',
       });
     },
+    onSettled: () => {
+      // Letter status and delivery state both live on the letters query
+      queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY] });
+    },
     onError: (error: any) => {
       console.error('Letter delivery failed:', error);
       toast({
@@ -53,8 +73,23 @@ export function useLetterDelivery() {
     },
   });
 
+  const retryDelivery = async (letterId: string): Promise<TriggerDeliveryResponse> => {
+    return triggerDeliveryMutation.mutateAsync({ letterId, action: 'retry' });
+  };
+
+  const cancelDelivery = async (letterId: string): Promise<TriggerDeliveryResponse> => {
+    return triggerDeliveryMutation.mutateAsync({ letterId, action: 'cancel' });
+  };
+
+  const rescheduleDelivery = async (letterId: string, sendDate: string): Promise<TriggerDeliveryResponse> => {
+    return triggerDeliveryMutation.mutateAsync({ letterId, action: 'reschedule', sendDate });
+  };
+
   return {
     triggerDelivery: triggerDeliveryMutation.mutateAsync,
+    retryDelivery,
+    cancelDelivery,
+    rescheduleDelivery,
     isDelivering: triggerDeliveryMutation.isPending,
   };
 }
@@ -0,0 +1,77 @@
+/**
+ * LETTER REVISIONS HOOK
+ *
+ * Saved versions of a letter's title, goal and content. The database
+ * records one on every save; restoring goes through the
+ * `restore_letter_revision` RPC, which records the restore as a new
+ * revision in turn.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useToast } from '@/components/ui/use-toast';
+import { LETTERS_QUERY_KEY } from './useLetters';
+import type { LetterRevision, UseLetterRevisionsReturn } from '../lib/types';
+
+export const LETTER_REVISIONS_QUERY_KEY = 'letter-revisions';
+
+export function useLetterRevisions(letterId: string | null | undefined): UseLetterRevisionsReturn {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: revisions = [], isLoading, error } = useQuery({
+    queryKey: [LETTER_REVISIONS_QUERY_KEY, letterId],
+    enabled: !!letterId,
+    // Every save adds one, so refetch whenever the history is opened
+    staleTime: 0,
+    queryFn: async (): Promise<LetterRevision[]> => {
+      const { data, error } = await supabase
+        .from('letter_revisions')
+        .select('*')
+        .eq('letter_id', letterId)
+        .order('revision_number', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: LetterRevision): Promise<void> => {
+      const { error } = await supabase.rpc('restore_letter_revision', {
+        p_revision_id: revision.id,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, revision) => {
+      toast({
+        title: 'Revision restored',
+        description: `The letter is back to revision ${revision.revision_number}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to restore revision',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [LETTER_REVISIONS_QUERY_KEY, letterId] });
+    },
+  });
+
+  const restoreRevision = async (revision: LetterRevision): Promise<void> => {
+    return restoreMutation.mutateAsync(revision);
+  };
+
+  return {
+    revisions,
+    isLoading,
+    error: error?.message,
+    restoreRevision,
+    isRestoring: restoreMutation.isPending,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * LETTER SEAL HOOK
+ *
+ * Time-capsule mode. Sealing a scheduled letter hides its content until
+ * delivery; the database rejects edits while it is sealed. Breaking the seal
+ * early goes through the audited `break_letter_seal` RPC.
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useToast } from '@/components/ui/use-toast';
+import { LETTERS_QUERY_KEY } from './useLetters';
+
+export function useLetterSeal() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const sealMutation = useMutation({
+    mutationFn: async (letterId: string): Promise<void> => {
+      const { error } = await supabase
+        .from('letters')
+        .update({ is_locked: true })
+        .eq('id', letterId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Letter sealed',
+        description: 'You will be able to read it again once it is delivered.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to seal letter',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY] });
+    },
+  });
+
+  const breakSealMutation = useMutation({
+    mutationFn: async ({ letterId, reason }: { letterId: string; reason?: string }): Promise<void> => {
+      const { error } = await supabase.rpc('break_letter_seal', {
+        p_letter_id: letterId,
+        p_reason: reason || null,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Seal broken',
+        description: 'The letter is open again and can be edited.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to break the seal',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY] });
+    },
+  });
+
+  const sealLetter = async (letterId: string): Promise<void> => {
+    return sealMutation.mutateAsync(letterId);
+  };
+
+  const breakSeal = async (letterId: string, reason?: string): Promise<void> => {
+    return breakSealMutation.mutateAsync({ letterId, reason });
+  };
+
+  return {
+    sealLetter,
+    breakSeal,
+    isSealing: sealMutation.isPending,
+    isBreakingSeal: breakSealMutation.isPending,
+  };
+}
@@ -6,30 +6,98 @@
  * Just clean, simple data fetching and mutations.
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  keepPreviousData,
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+} from '@tanstack/react-query';
 import { supabase, getCurrentUser } from '../lib/supabase';
 import { useToast } from '@/components/ui/use-toast';
-import type { Letter, CreateLetterData, UpdateLetterData, UseLettersReturn } from '../lib/types';
+import { LETTERS_PAGE_SIZE, LETTER_SORT_OPTIONS } from '../lib/letter-query';
+import type {
+  Letter,
+  CreateLetterData,
+  UpdateLetterData,
+  DraftSaveData,
+  DraftSaveResult,
+  LetterQuery,
+  PaginatedResponse,
+  UseLetterSearchReturn,
+  UseLettersReturn,
+} from '../lib/types';
 
-const LETTERS_QUERY_KEY = 'letters';
+export const LETTERS_QUERY_KEY = 'letters';
 
-export function useLetters(): UseLettersReturn {
+// Letters come with their milestones and notifications (for delivery state)
+const LETTER_SELECT = `
+  *,
+  milestones (*),
+  notifications (*)
+`;
+
+// Everything cached under [LETTERS_QUERY_KEY]: the full list, search pages
+// ([..., 'search', query]) and single letters ([..., 'detail', id])
+type CachedLetters = Letter[] | PaginatedResponse<Letter> | Letter | null | undefined;
+export type CachedLettersSnapshot = [readonly unknown[], unknown][];
+
+// Apply a change to one letter wherever it is cached. Returning null from
+// `update` removes it. Returns a snapshot for rolling back.
+export function updateCachedLetter(
+  queryClient: QueryClient,
+  letterId: string,
+  update: (letter: Letter) => Letter | null
+): CachedLettersSnapshot {
+  const snapshot = queryClient.getQueriesData({ queryKey: [LETTERS_QUERY_KEY] });
+
+  queryClient.setQueriesData<CachedLetters>({ queryKey: [LETTERS_QUERY_KEY] }, (data) => {
+    if (!data) return data;
+
+    if (Array.isArray(data)) {
+      return data.flatMap((letter) => {
+        if (letter.id !== letterId) return [letter];
+        const next = update(letter);
+        return next ? [next] : [];
+      });
+    }
+
+    if ('data' in data && Array.isArray(data.data)) {
+      const letters = data.data.flatMap((letter) => {
+        if (letter.id !== letterId) return [letter];
+        const next = update(letter);
+        return next ? [next] : [];
+      });
+      return { ...data, data: letters, count: data.count - (data.data.length - letters.length) };
+    }
+
+    const letter = data as Letter;
+    return letter.id === letterId ? update(letter) : letter;
+  });
+
+  return snapshot;
+}
+
+export function restoreCachedLetters(queryClient: QueryClient, snapshot: CachedLettersSnapshot) {
+  snapshot.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+}
+
+export function useLetters({ enabled = true }: { enabled?: boolean } = {}): UseLettersReturn {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Query: Fetch all letters for current user
+  // Query: Fetch all letters for current user. Pages that only need the
+  // mutations (the paginated letters page) switch it off.
   const { data: letters = [], isLoading, error, refetch } = useQuery({
     queryKey: [LETTERS_QUERY_KEY],
+    enabled,
     queryFn: async (): Promise<Letter[]> => {
       const user = await getCurrentUser();
       if (!user) throw new Error('Not authenticated');
 
       const { data, error } = await supabase
         .from('letters')
-        .select(`
-          *,
-          milestones (*)
-        `)
+        .select(LETTER_SELECT)
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -52,22 +120,21 @@ export function useLetters(): UseLettersReturn {
           status: 'draft' as const,
           ai_enhanced: false,
           is_locked: false,
+          last_save_kind: 'save' as const,
         })
-        .select(`
-          *,
-          milestones (*)
-        `)
+        .select(LETTER_SELECT)
         .single();
 
       if (error) throw error;
       return letter;
     },
     onSuccess: (newLetter) => {
-      // Update cache with new letter
-      queryClient.setQueryData<Letter[]>([LETTERS_QUERY_KEY], (old = []) => [
+      // Update cache with new letter; search pages refetch to place it
+      queryClient.setQueryData<Letter[]>([LETTERS_QUERY_KEY], (old) => old && [
         newLetter,
         ...old,
       ]);
+      queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY, 'search'] });
       
       toast({
         title: 'Letter created',
@@ -86,14 +153,12 @@ export function useLetters(): UseLettersReturn {
   // Mutation: Update existing letter
   const updateLetterMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: UpdateLetterData }): Promise<Letter> => {
+      // Ends a run of autosaves, so the next one starts a new revision
       const { data: letter, error } = await supabase
         .from('letters')
-        .update(data)
+        .update({ ...data, last_save_kind: 'save' as const })
         .eq('id', id)
-        .select(`
-          *,
-          milestones (*)
-        `)
+        .select(LETTER_SELECT)
         .single();
 
       if (error) throw error;
@@ -101,11 +166,8 @@ export function useLetters(): UseLettersReturn {
     },
     onSuccess: (updatedLetter) => {
       // Update cache with updated letter
-      queryClient.setQueryData<Letter[]>([LETTERS_QUERY_KEY], (old = []) =>
-        old.map((letter) => 
-          letter.id === updatedLetter.id ? updatedLetter : letter
-        )
-      );
+      updateCachedLetter(queryClient, updatedLetter.id, () => updatedLetter);
+      queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY, 'search'] });
       
       toast({
         title: 'Letter updated',
@@ -121,6 +183,65 @@ export function useLetters(): UseLettersReturn {
     },
   });
 
+  // Mutation: Autosave a draft. Quiet (no toasts), and an update only lands
+  // if nobody saved the row since `expectedUpdatedAt`.
+  const saveDraftMutation = useMutation({
+    mutationFn: async ({
+      id,
+      data,
+      expectedUpdatedAt,
+    }: {
+      id: string | null;
+      data: DraftSaveData;
+      expectedUpdatedAt?: string;
+    }): Promise<DraftSaveResult> => {
+      if (!id) {
+        const user = await getCurrentUser();
+        if (!user) throw new Error('Not authenticated');
+
+        const { data: letter, error } = await supabase
+          .from('letters')
+          .insert({
+            ...data,
+            user_id: user.id,
+            status: 'draft' as const,
+            ai_enhanced: false,
+            is_locked: false,
+          })
+          .select(LETTER_SELECT)
+          .single();
+
+        if (error) throw error;
+        return { letter, conflict: false };
+      }
+
+      let request = supabase.from('letters').update(data).eq('id', id);
+      if (expectedUpdatedAt) request = request.eq('updated_at', expectedUpdatedAt);
+
+      const { data: letter, error } = await request.select(LETTER_SELECT).maybeSingle();
+      if (error) throw error;
+      if (letter) return { letter, conflict: false };
+
+      // Nothing matched: a newer version was saved from somewhere else
+      const { data: current, error: currentError } = await supabase
+        .from('letters')
+        .select(LETTER_SELECT)
+        .eq('id', id)
+        .single();
+
+      if (currentError) throw currentError;
+      return { letter: current, conflict: true };
+    },
+    onSuccess: ({ letter }, { id }) => {
+      if (id) {
+        updateCachedLetter(queryClient, letter.id, () => letter);
+      } else {
+        queryClient.setQueryData<Letter[]>([LETTERS_QUERY_KEY], (old) => old && [letter, ...old]);
+      }
+      queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY, 'search'] });
+    },
+  });
+
   // Mutation: Delete letter
   const deleteLetterMutation = useMutation({
     mutationFn: async (id: string): Promise<void> => {
@@ -133,9 +254,8 @@ export function useLetters(): UseLettersReturn {
     },
     onSuccess: (_, deletedId) => {
       // Remove from cache
-      queryClient.setQueryData<Letter[]>([LETTERS_QUERY_KEY], (old = []) =>
-        old.filter((letter) => letter.id !== deletedId)
-      );
+      updateCachedLetter(queryClient, deletedId, () => null);
+      queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY, 'search'] });
       
       toast({
         title: 'Letter deleted',
@@ -160,6 +280,14 @@ export function useLetters(): UseLettersReturn {
     return updateLetterMutation.mutateAsync({ id, data });
   };
 
+  const saveDraft = async (
+    id: string | null,
+    data: DraftSaveData,
+    expectedUpdatedAt?: string
+  ): Promise<DraftSaveResult> => {
+    return saveDraftMutation.mutateAsync({ id, data, expectedUpdatedAt });
+  };
+
   const deleteLetter = async (id: string): Promise<void> => {
     return deleteLetterMutation.mutateAsync(id);
   };
@@ -170,7 +298,87 @@ export function useLetters(): UseLettersReturn {
     error: error?.message,
     createLetter,
     updateLetter,
+    saveDraft,
     deleteLetter,
     refetch,
   };
 }
+
+// One page of letters matching the letters page filters, searched and
+// sorted on the server
+export function useLetterSearch(query: LetterQuery): UseLetterSearchReturn {
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: [LETTERS_QUERY_KEY, 'search', query],
+    placeholderData: keepPreviousData,
+    queryFn: async (): Promise<PaginatedResponse<Letter>> => {
+      const user = await getCurrentUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { search, status, dateRange } = query.filters;
+      const { field, direction } = LETTER_SORT_OPTIONS[query.sort].sort;
+      const from = (query.page - 1) * LETTERS_PAGE_SIZE;
+
+      let request = supabase
+        .from('letters')
+        .select(LETTER_SELECT, { count: 'exact' })
+        .eq('user_id', user.id);
+
+      if (search) {
+        request = request.textSearch('search_vector', search, { type: 'websearch', config: 'english' });
+      }
+      if (status) request = request.eq('status', status);
+      if (dateRange?.start) request = request.gte('send_date', dateRange.start);
+      if (dateRange?.end) request = request.lte('send_date', dateRange.end);
+
+      const { data, count, error } = await request
+        .order(field, { ascending: direction === 'asc' })
+        .order('id', { ascending: true }) // stable paging for equal sort values
+        .range(from, from + LETTERS_PAGE_SIZE - 1);
+
+      // PGRST103: the page is past the end (e.g. after deleting its last letter)
+      if (error && error.code !== 'PGRST103') throw error;
+
+      const total = count ?? 0;
+      return {
+        data: error ? [] : (data as Letter[]),
+        count: total,
+        page: query.page,
+        totalPages: Math.max(1, Math.ceil(total / LETTERS_PAGE_SIZE)),
+      };
+    },
+  });
+
+  return {
+    data: data?.data ?? [],
+    count: data?.count ?? 0,
+    page: data?.page ?? query.page,
+    totalPages: data?.totalPages ?? 1,
+    isLoading,
+    isFetching,
+    error: error?.message,
+  };
+}
+
+// A single letter, for the detail view and deep links
+export function useLetter(id: string | null | undefined) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [LETTERS_QUERY_KEY, 'detail', id],
+    enabled: !!id,
+    queryFn: async (): Promise<Letter | null> => {
+      const { data, error } = await supabase
+        .from('letters')
+        .select(LETTER_SELECT)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  return {
+    letter: data ?? null,
+    isLoading: !!id && isLoading,
+    error: error?.message,
+  };
+}
@@ -3,23 +3,64 @@
  * 
  * Handles CRUD operations for milestones associated with letters.
  * Integrated with React Query for optimistic updates and caching.
+ * Milestones are cached inside their letters, so single-milestone changes
+ * patch the owning letter in every cached letter query before the server
+ * answers.
  */
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase, getCurrentUser } from '../lib/supabase';
 import { useToast } from '@/components/ui/use-toast';
-import type { Milestone, CreateMilestoneData } from '../lib/types';
-
-const LETTERS_QUERY_KEY = 'letters';
+import {
+  LETTERS_QUERY_KEY,
+  restoreCachedLetters,
+  updateCachedLetter,
+  type CachedLettersSnapshot,
+} from './useLetters';
+import type {
+  Milestone,
+  CreateMilestoneData,
+  SyncMilestoneData,
+  UpdateMilestoneData,
+  UseMilestonesReturn,
+} from '../lib/types';
 
 interface CreateMilestoneWithLetterData extends CreateMilestoneData {
   letterId: string;
 }
 
-export function useMilestones() {
+type CacheContext = { snapshot: CachedLettersSnapshot };
+
+export function useMilestones(): UseMilestonesReturn {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Optimistically rewrite one letter's milestones in the cached list
+  const patchCachedMilestones = async (
+    letterId: string,
+    update: (milestones: Milestone[]) => Milestone[]
+  ): Promise<CacheContext> => {
+    await queryClient.cancelQueries({ queryKey: [LETTERS_QUERY_KEY] });
+
+    const snapshot = updateCachedLetter(queryClient, letterId, (letter) => ({
+      ...letter,
+      milestones: update(letter.milestones ?? []),
+    }));
+
+    return { snapshot };
+  };
+
+  const rollbackMilestones = (context: CacheContext | undefined, title: string, error: Error) => {
+    if (context) {
+      restoreCachedLetters(queryClient, context.snapshot);
+    }
+    toast({
+      title,
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
   // Mutation: Create milestone
   const createMilestonesMutation = useMutation({
     mutationFn: async (milestones: CreateMilestoneWithLetterData[]): Promise<Milestone[]> => {
@@ -31,13 +72,14 @@ export function useMilestones() {
       const { data, error } = await supabase
         .from('milestones')
         .insert(
-          milestones.map(milestone => ({
+          milestones.map((milestone, index) => ({
             title: milestone.title,
             description: milestone.description,
             percentage: milestone.percentage,
             target_date: milestone.target_date,
             letter_id: milestone.letterId,
             completed: false,
+            position: index,
           }))
         )
         .select();
@@ -65,41 +107,31 @@ export function useMilestones() {
     },
   });
 
-  // Mutation: Update milestones (delete old ones and create new ones)
+  // Mutation: Sync a letter's milestones with the edited list. The
+  // `sync_letter_milestones` RPC matches rows by id, so completion state and
+  // reminder history survive, and the whole diff applies in one transaction.
   const updateMilestonesMutation = useMutation({
-    mutationFn: async ({ letterId, milestones }: { letterId: string; milestones: CreateMilestoneWithLetterData[] }): Promise<Milestone[]> => {
+    mutationFn: async ({ letterId, milestones }: { letterId: string; milestones: SyncMilestoneData[] }): Promise<Milestone[]> => {
       const user = await getCurrentUser();
       if (!user) throw new Error('Not authenticated');
 
-      // First delete existing milestones for this letter
-      const { error: deleteError } = await supabase
-        .from('milestones')
-        .delete()
-        .eq('letter_id', letterId);
-
-      if (deleteError) throw deleteError;
-
-      if (milestones.length === 0) return [];
-
-      // Then create new milestones
-      const { data, error } = await supabase
-        .from('milestones')
-        .insert(
-          milestones.map(milestone => ({
-            title: milestone.title,
-            description: milestone.description,
-            percentage: milestone.percentage,
-            target_date: milestone.target_date,
-            letter_id: milestone.letterId,
-            completed: false,
-          }))
-        )
-        .select();
+      const { data, error } = await supabase.rpc('sync_letter_milestones', {
+        p_letter_id: letterId,
+        p_milestones: milestones.map((milestone) => ({
+          id: milestone.id ?? null,
+          title: milestone.title,
+          description: milestone.description ?? null,
+          percentage: milestone.percentage,
+          target_date: milestone.target_date,
+          reasoning: milestone.reasoning ?? null,
+          is_inferred: milestone.is_inferred ?? false,
+        })),
+      });
 
       if (error) throw error;
-      return data;
+      return (data ?? []) as Milestone[];
     },
-    onSuccess: (updatedMilestones, { letterId }) => {
+    onSuccess: (updatedMilestones) => {
       // Invalidate letters query to refresh milestones
       queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY] });
       
@@ -117,18 +149,138 @@ export function useMilestones() {
     },
   });
 
+  // Mutation: Tick a milestone off (or reopen it). completed_at is kept in
+  // step by a database trigger; it is set here too for the optimistic view.
+  const toggleMilestoneMutation = useMutation({
+    mutationFn: async ({ milestone, completed }: { milestone: Milestone; completed: boolean }): Promise<Milestone> => {
+      const { data, error } = await supabase
+        .from('milestones')
+        .update({ completed })
+        .eq('id', milestone.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onMutate: ({ milestone, completed }) => {
+      const completedAt = completed ? new Date().toISOString() : undefined;
+      return patchCachedMilestones(milestone.letter_id, (milestones) =>
+        milestones.map((m) => (m.id === milestone.id ? { ...m, completed, completed_at: completedAt } : m))
+      );
+    },
+    onError: (error, _variables, context) => {
+      rollbackMilestones(context, 'Failed to update milestone', error);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY] });
+    },
+  });
+
+  // Mutation: Edit a single milestone's details
+  const updateMilestoneMutation = useMutation({
+    mutationFn: async ({ milestone, data }: { milestone: Milestone; data: UpdateMilestoneData }): Promise<Milestone> => {
+      const { data: updated, error } = await supabase
+        .from('milestones')
+        .update(data)
+        .eq('id', milestone.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return updated;
+    },
+    onMutate: ({ milestone, data }) =>
+      patchCachedMilestones(milestone.letter_id, (milestones) =>
+        milestones.map((m) => (m.id === milestone.id ? { ...m, ...data } : m))
+      ),
+    onError: (error, _variables, context) => {
+      rollbackMilestones(context, 'Failed to update milestone', error);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY] });
+    },
+  });
+
+  // Mutation: Save a new order for a letter's milestones
+  const reorderMilestonesMutation = useMutation({
+    mutationFn: async ({ letterId, milestoneIds }: { letterId: string; milestoneIds: string[] }): Promise<void> => {
+      const { error } = await supabase.rpc('reorder_milestones', {
+        p_letter_id: letterId,
+        p_milestone_ids: milestoneIds,
+      });
+
+      if (error) throw error;
+    },
+    onMutate: ({ letterId, milestoneIds }) =>
+      patchCachedMilestones(letterId, (milestones) =>
+        milestones.map((m) => {
+          const position = milestoneIds.indexOf(m.id);
+          return position === -1 ? m : { ...m, position };
+        })
+      ),
+    onError: (error, _variables, context) => {
+      rollbackMilestones(context, 'Failed to reorder milestones', error);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY] });
+    },
+  });
+
+  // Mutation: Delete a single milestone
+  const deleteMilestoneMutation = useMutation({
+    mutationFn: async (milestone: Milestone): Promise<void> => {
+      const { error } = await supabase
+        .from('milestones')
+        .delete()
+        .eq('id', milestone.id);
+
+      if (error) throw error;
+    },
+    onMutate: (milestone) =>
+      patchCachedMilestones(milestone.letter_id, (milestones) =>
+        milestones.filter((m) => m.id !== milestone.id)
+      ),
+    onError: (error, _milestone, context) => {
+      rollbackMilestones(context, 'Failed to delete milestone', error);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY] });
+    },
+  });
+
   // Helper functions
   const createMilestones = async (milestones: CreateMilestoneWithLetterData[]): Promise<Milestone[]> => {
     return createMilestonesMutation.mutateAsync(milestones);
   };
 
-  const updateMilestones = async (letterId: string, milestones: CreateMilestoneWithLetterData[]): Promise<Milestone[]> => {
+  const updateMilestones = async (letterId: string, milestones: SyncMilestoneData[]): Promise<Milestone[]> => {
     return updateMilestonesMutation.mutateAsync({ letterId, milestones });
   };
 
+  const toggleMilestone = async (milestone: Milestone, completed: boolean): Promise<Milestone> => {
+    return toggleMilestoneMutation.mutateAsync({ milestone, completed });
+  };
+
+  const updateMilestone = async (milestone: Milestone, data: UpdateMilestoneData): Promise<Milestone> => {
+    return updateMilestoneMutation.mutateAsync({ milestone, data });
+  };
+
+  const reorderMilestones = async (letterId: string, milestoneIds: string[]): Promise<void> => {
+    return reorderMilestonesMutation.mutateAsync({ letterId, milestoneIds });
+  };
+
+  const deleteMilestone = async (milestone: Milestone): Promise<void> => {
+    return deleteMilestoneMutation.mutateAsync(milestone);
+  };
+
   return {
     createMilestones,
     updateMilestones,
+    toggleMilestone,
+    updateMilestone,
+    reorderMilestones,
+    deleteMilestone,
     isLoading: createMilestonesMutation.isPending || updateMilestonesMutation.isPending,
   };
 }
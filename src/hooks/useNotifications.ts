@@ -0,0 +1,128 @@
+/**
+ * NOTIFICATIONS HOOK
+ *
+ * Loads the current user's delivery and reminder notifications, keeps them
+ * live through a Supabase Realtime channel and tracks what has been read.
+ */
+
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase, getCurrentUser } from '../lib/supabase';
+import { useToast } from '@/components/ui/use-toast';
+import { isUnreadNotification } from '../lib/notifications';
+import { LETTERS_QUERY_KEY } from './useLetters';
+import type { Notification, UseNotificationsReturn } from '../lib/types';
+
+export const NOTIFICATIONS_QUERY_KEY = 'notifications';
+
+// Enough history for the popover; older rows stay on the letter itself
+const NOTIFICATION_LIMIT = 50;
+
+const NOTIFICATION_SELECT = `
+  *,
+  letter:letters (id, title),
+  milestone:milestones (id, title)
+`;
+
+export function useNotifications(): UseNotificationsReturn {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: notifications = [], isLoading, error } = useQuery({
+    queryKey: [NOTIFICATIONS_QUERY_KEY],
+    queryFn: async (): Promise<Notification[]> => {
+      const user = await getCurrentUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('notifications')
+        .select(NOTIFICATION_SELECT)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Realtime: a delivery finishing in the background shows up immediately,
+  // both here and in the letter's delivery state
+  useEffect(() => {
+    let channel: ReturnType<typeof supabase.channel> | undefined;
+    let cancelled = false;
+
+    getCurrentUser()
+      .then((user) => {
+        if (!user || cancelled) return;
+
+        channel = supabase
+          .channel(`notifications:${user.id}`)
+          .on(
+            'postgres_changes',
+            { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+            () => {
+              queryClient.invalidateQueries({ queryKey: [NOTIFICATIONS_QUERY_KEY] });
+              queryClient.invalidateQueries({ queryKey: [LETTERS_QUERY_KEY] });
+            }
+          )
+          .subscribe();
+      })
+      .catch((error) => console.error('Notification subscription failed:', error));
+
+    return () => {
+      cancelled = true;
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+
+  // Mutation: Mark notifications as read (all of them when ids is null)
+  const markReadMutation = useMutation({
+    mutationFn: async (ids: string[] | null): Promise<void> => {
+      const { error } = await supabase.rpc('mark_notifications_read', { p_ids: ids });
+      if (error) throw error;
+    },
+    onMutate: async (ids) => {
+      // Optimistic update so the badge clears right away
+      await queryClient.cancelQueries({ queryKey: [NOTIFICATIONS_QUERY_KEY] });
+      const previous = queryClient.getQueryData<Notification[]>([NOTIFICATIONS_QUERY_KEY]);
+      const readAt = new Date().toISOString();
+
+      queryClient.setQueryData<Notification[]>([NOTIFICATIONS_QUERY_KEY], (old = []) =>
+        old.map((n) =>
+          !n.read_at && (ids === null || ids.includes(n.id)) ? { ...n, read_at: readAt } : n
+        )
+      );
+
+      return { previous };
+    },
+    onError: (error, _ids, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData([NOTIFICATIONS_QUERY_KEY], context.previous);
+      }
+      toast({
+        title: 'Failed to update notifications',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const markAsRead = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    await markReadMutation.mutateAsync(ids);
+  };
+
+  const markAllAsRead = async (): Promise<void> => {
+    await markReadMutation.mutateAsync(null);
+  };
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(isUnreadNotification).length,
+    isLoading,
+    error: error?.message,
+    markAsRead,
+    markAllAsRead,
+  };
+}
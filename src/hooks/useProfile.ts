@@ -0,0 +1,86 @@
+/**
+ * PROFILE HOOK
+ * 
+ * Loads and updates the current user's profile row (timezone, delivery hour,
+ * notification preferences, ...). Falls back to the browser's timezone until
+ * the profile arrives. `preferences` has every setting with its default
+ * filled in, for the parts of the app that honour them.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase, getCurrentUser } from '../lib/supabase';
+import { useToast } from '@/components/ui/use-toast';
+import { getLocalTimeZone, resolveTimeZone } from '../lib/timezone';
+import { resolveProfilePreferences } from '../lib/profile';
+import type { Profile, UpdateProfileData, UseProfileReturn } from '../lib/types';
+
+export const PROFILE_QUERY_KEY = 'profile';
+
+export function useProfile(): UseProfileReturn {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: profile, isLoading, error } = useQuery({
+    queryKey: [PROFILE_QUERY_KEY],
+    queryFn: async (): Promise<Profile> => {
+      const user = await getCurrentUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Mutation: Update profile preferences
+  const updateProfileMutation = useMutation({
+    mutationFn: async (data: UpdateProfileData): Promise<Profile> => {
+      const user = await getCurrentUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data: updated, error } = await supabase
+        .from('profiles')
+        .update(data)
+        .eq('user_id', user.id)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      return updated;
+    },
+    onSuccess: (updatedProfile) => {
+      queryClient.setQueryData<Profile>([PROFILE_QUERY_KEY], updatedProfile);
+
+      toast({
+        title: 'Settings saved',
+        description: 'Your preferences have been updated.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to save settings',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateProfile = async (data: UpdateProfileData): Promise<Profile> => {
+    return updateProfileMutation.mutateAsync(data);
+  };
+
+  return {
+    profile,
+    timeZone: profile?.timezone ? resolveTimeZone(profile.timezone) : getLocalTimeZone(),
+    preferences: resolveProfilePreferences(profile),
+    isLoading,
+    error: error?.message,
+    updateProfile,
+    isUpdating: updateProfileMutation.isPending,
+  };
+}
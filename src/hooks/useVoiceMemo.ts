@@ -0,0 +1,106 @@
+/**
+ * VOICE MEMO HOOKS
+ *
+ * Recordings are uploaded to the private `voice-memos` bucket under the
+ * user's own folder; the letter only stores the object path. Playback goes
+ * through short-lived signed URLs.
+ */
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { supabase, getCurrentUser } from '../lib/supabase';
+import { useToast } from '@/components/ui/use-toast';
+import { VOICE_MEMO_BUCKET, createVoiceMemoLink, isExternalVoiceMemoUrl } from '../lib/voice-memo';
+import type { UseVoiceMemoReturn } from '../lib/types';
+
+export const VOICE_MEMO_QUERY_KEY = 'voice-memo';
+
+// Signed playback links last an hour; refetch well before they expire
+const PLAYBACK_LINK_TTL_SECONDS = 60 * 60;
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+};
+
+// MediaRecorder reports types like "audio/webm;codecs=opus"
+function getContentType(recording: Blob): string {
+  return recording.type.split(';')[0] || 'audio/webm';
+}
+
+export function useVoiceMemo(): UseVoiceMemoReturn {
+  const { toast } = useToast();
+
+  const uploadMutation = useMutation({
+    mutationFn: async (recording: Blob): Promise<string> => {
+      const user = await getCurrentUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const contentType = getContentType(recording);
+      const path = `${user.id}/${crypto.randomUUID()}.${EXTENSIONS[contentType] ?? 'webm'}`;
+
+      const { error } = await supabase.storage
+        .from(VOICE_MEMO_BUCKET)
+        .upload(path, recording, { contentType, upsert: false });
+
+      if (error) throw error;
+      return path;
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to save voice memo',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (path: string): Promise<void> => {
+      // Memos recorded before storage was private are plain URLs we do not own
+      if (isExternalVoiceMemoUrl(path)) return;
+
+      const { error } = await supabase.storage.from(VOICE_MEMO_BUCKET).remove([path]);
+      if (error) throw error;
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to delete voice memo',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const uploadVoiceMemo = async (recording: Blob): Promise<string> => {
+    return uploadMutation.mutateAsync(recording);
+  };
+
+  const removeVoiceMemo = async (path: string): Promise<void> => {
+    return removeMutation.mutateAsync(path);
+  };
+
+  return {
+    uploadVoiceMemo,
+    removeVoiceMemo,
+    isUploading: uploadMutation.isPending,
+  };
+}
+
+// Signed URL for playing back a stored voice memo
+export function useVoiceMemoUrl(value?: string | null) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [VOICE_MEMO_QUERY_KEY, value],
+    queryFn: () => createVoiceMemoLink(supabase, value, PLAYBACK_LINK_TTL_SECONDS),
+    enabled: !!value,
+    staleTime: (PLAYBACK_LINK_TTL_SECONDS - 10 * 60) * 1000,
+  });
+
+  return {
+    url: data ?? null,
+    isLoading: !!value && isLoading,
+    error: error?.message,
+  };
+}
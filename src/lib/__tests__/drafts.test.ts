@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearLocalDrafts, getDraftStorageKey, readLocalDraft, writeLocalDraft } from '../drafts'
+import type { DraftSnapshot } from '../types'
+
+const snapshot: DraftSnapshot = {
+  title: 'My 2030 goals',
+  goal: 'Run a marathon',
+  content: 'Dear me,',
+  send_date: '2030-01-01',
+  voice_memo_url: null,
+  last_edit_source: 'manual',
+  milestones: [],
+}
+
+describe('local drafts', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('keeps one slot per user and letter', () => {
+    writeLocalDraft('user-1', 'letter-1', snapshot)
+    writeLocalDraft('user-1', null, { ...snapshot, title: 'Not saved yet' })
+
+    expect(getDraftStorageKey('user-1', 'letter-1')).toBe('letter-draft:user-1:letter-1')
+    expect(readLocalDraft('user-1', 'letter-1')?.snapshot).toEqual(snapshot)
+    expect(readLocalDraft('user-1')?.snapshot.title).toBe('Not saved yet')
+    expect(readLocalDraft('user-2', 'letter-1')).toBeNull()
+  })
+
+  it('keeps nothing without a user', () => {
+    writeLocalDraft(undefined, 'letter-1', snapshot)
+
+    expect(localStorage.length).toBe(0)
+    expect(readLocalDraft(undefined, 'letter-1')).toBeNull()
+  })
+
+  it('clears every draft on this device and nothing else', () => {
+    writeLocalDraft('user-1', 'letter-1', snapshot)
+    writeLocalDraft('user-2', null, snapshot)
+    localStorage.setItem('sidebar-collapsed', 'true')
+
+    clearLocalDrafts()
+
+    expect(readLocalDraft('user-1', 'letter-1')).toBeNull()
+    expect(readLocalDraft('user-2')).toBeNull()
+    expect(localStorage.getItem('sidebar-collapsed')).toBe('true')
+  })
+})
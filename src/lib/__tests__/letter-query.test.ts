@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_LETTER_QUERY, applyLetterQuery, parseLetterQuery } from '../letter-query'
+
+describe('letter query', () => {
+  it('reads filters, sort and page from the URL', () => {
+    const query = parseLetterQuery(new URLSearchParams('q=run&status=sent&from=2030-01-01&sort=title&page=3'))
+
+    expect(query).toEqual({
+      filters: { search: 'run', status: 'sent', dateRange: { start: '2030-01-01' } },
+      sort: 'title',
+      page: 3,
+    })
+  })
+
+  it('falls back to the default sort for unknown and inherited keys', () => {
+    for (const sort of ['shortest', 'constructor', 'toString', '__proto__']) {
+      expect(parseLetterQuery(new URLSearchParams({ sort })).sort).toBe(DEFAULT_LETTER_QUERY.sort)
+    }
+  })
+
+  it('leaves defaults out of the URL and keeps unrelated keys', () => {
+    const params = applyLetterQuery(new URLSearchParams('letter=abc&sort=title'), DEFAULT_LETTER_QUERY)
+
+    expect(params.toString()).toBe('letter=abc')
+  })
+})
@@ -0,0 +1,30 @@
+/**
+ * AI QUOTA HELPERS
+ *
+ * The AI edge functions limit each user to a few requests a minute and a
+ * monthly token budget. They report what's left with every suggestion, and
+ * answer RATE_LIMITED with a retry-after once a limit is hit.
+ */
+
+import type { AIQuota } from './types';
+
+export const RATE_LIMITED_ERROR_CODE = 'RATE_LIMITED';
+
+// Share of the monthly budget still available, 0-100; null without a budget
+export function getQuotaRemainingPercent(quota: AIQuota): number | null {
+  if (!quota.tokenBudget) return null;
+  const remaining = 1 - quota.tokensUsed / quota.tokenBudget;
+  return Math.round(Math.min(Math.max(remaining, 0), 1) * 100);
+}
+
+export function describeQuota(quota: AIQuota): string | null {
+  const percent = getQuotaRemainingPercent(quota);
+  return percent === null ? null : `${percent}% of this month's AI quota left`;
+}
+
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) return `${Math.max(Math.ceil(seconds), 1)} seconds`;
+  if (seconds < 60 * 60) return `${Math.ceil(seconds / 60)} minutes`;
+  if (seconds < 48 * 60 * 60) return `${Math.ceil(seconds / (60 * 60))} hours`;
+  return `${Math.ceil(seconds / (24 * 60 * 60))} days`;
+}
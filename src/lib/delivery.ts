@@ -0,0 +1,39 @@
+/**
+ * DELIVERY STATE HELPERS
+ * 
+ * Derives a letter's delivery state from its joined `letter_delivery`
+ * notifications, using the same retry policy as the delivery worker.
+ */
+
+import type { Letter, Notification } from './types';
+
+export { DEFAULT_RETRY_POLICY } from '../../supabase/functions/_shared/retry.ts';
+
+// Most recent delivery notification for a letter, if any
+export function getLatestDelivery(letter: Letter): Notification | undefined {
+  return (letter.notifications ?? [])
+    .filter((n) => n.type === 'letter_delivery')
+    .reduce<Notification | undefined>(
+      (latest, n) => (!latest || n.created_at > latest.created_at ? n : latest),
+      undefined
+    );
+}
+
+// A delivery that failed at least once and has not been sent since:
+// either waiting for its next attempt or given up on (dead_letter)
+export function getFailedDelivery(letter: Letter): Notification | undefined {
+  const latest = getLatestDelivery(letter);
+  if (!latest || letter.status !== 'scheduled') return undefined;
+
+  const hasFailed =
+    latest.status === 'dead_letter' ||
+    latest.status === 'failed' ||
+    (latest.status === 'pending' && latest.attempt_count > 0);
+
+  return hasFailed ? latest : undefined;
+}
+
+// Time-capsule mode: the author can't read or edit the letter until delivery
+export function isLetterSealed(letter: Letter): boolean {
+  return letter.is_locked && letter.status === 'scheduled';
+}
@@ -0,0 +1,81 @@
+/**
+ * DRAFT HELPERS
+ *
+ * Unsaved letter drafts kept in localStorage, so a closed dialog or a lost
+ * tab doesn't throw away what was typed. One slot per user and letter, plus
+ * one per user for a letter that hasn't reached the server yet. Without a
+ * user nothing is read or written, and signing out clears them all.
+ */
+
+import type { DraftSnapshot, LocalDraft } from './types';
+
+const DRAFT_KEY_PREFIX = 'letter-draft:';
+
+export const NEW_LETTER_DRAFT_ID = 'new';
+
+export function getDraftStorageKey(userId: string, letterId?: string | null): string {
+  return `${DRAFT_KEY_PREFIX}${userId}:${letterId || NEW_LETTER_DRAFT_ID}`;
+}
+
+// Storage can be full, disabled or hold something unreadable; a draft is
+// never worth failing over
+export function readLocalDraft(
+  userId: string | null | undefined,
+  letterId?: string | null
+): LocalDraft | null {
+  if (!userId) return null;
+  try {
+    const raw = localStorage.getItem(getDraftStorageKey(userId, letterId));
+    if (!raw) return null;
+
+    const draft = JSON.parse(raw) as LocalDraft;
+    return draft && typeof draft.savedAt === 'string' && draft.snapshot ? draft : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeLocalDraft(
+  userId: string | null | undefined,
+  letterId: string | null | undefined,
+  snapshot: DraftSnapshot
+): void {
+  if (!userId) return;
+  const draft: LocalDraft = { snapshot, savedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(getDraftStorageKey(userId, letterId), JSON.stringify(draft));
+  } catch {
+    // Out of space or blocked; the server copy is all we have
+  }
+}
+
+export function clearLocalDraft(userId: string | null | undefined, letterId?: string | null): void {
+  if (!userId) return;
+  try {
+    localStorage.removeItem(getDraftStorageKey(userId, letterId));
+  } catch {
+    // Nothing to clean up
+  }
+}
+
+// On sign-out: every draft on this device, whoever wrote it
+export function clearLocalDrafts(): void {
+  try {
+    for (let i = localStorage.length - 1; i >= 0; i--) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(DRAFT_KEY_PREFIX)) localStorage.removeItem(key);
+    }
+  } catch {
+    // Nothing to clean up
+  }
+}
+
+// A saved draft is only worth offering if it is newer than the letter it
+// belongs to; otherwise the letter was saved after it
+export function isDraftNewerThan(draft: LocalDraft, updatedAt?: string): boolean {
+  return !updatedAt || Date.parse(draft.savedAt) > Date.parse(updatedAt);
+}
+
+export function isSameSnapshot(a: DraftSnapshot, b: DraftSnapshot): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
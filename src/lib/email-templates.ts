@@ -0,0 +1,23 @@
+/**
+ * EMAIL TEMPLATES
+ * 
+ * Re-exports the templates the edge functions send, so the email preview
+ * page renders exactly what lands in a user's inbox.
+ */
+
+export {
+  EMAIL_BRAND_NAME,
+  formatEmailDate,
+  getMilestoneProgress,
+  renderLetterDeliveryEmail,
+  renderMilestoneReminderEmail,
+  renderWelcomeEmail,
+  renderProgressUpdateEmail,
+} from '../../supabase/functions/_shared/email-templates.ts';
+export type {
+  RenderedEmail,
+  EmailLetter,
+  EmailMilestone,
+  EmailRecipient,
+  EmailTemplateOptions,
+} from '../../supabase/functions/_shared/email-templates.ts';
@@ -0,0 +1,86 @@
+/**
+ * LETTER QUERY HELPERS
+ *
+ * Search, filter, sort and page state for the letters page, and how it maps
+ * onto the `/letters` query string (?q=&status=&from=&to=&sort=&page=) so a
+ * view can be shared or bookmarked. Defaults are left out of the URL.
+ */
+
+import type { LetterQuery, LetterSortKey, LetterStatus, SortOption } from './types';
+
+export const LETTERS_PAGE_SIZE = 12;
+
+export const LETTER_SORT_OPTIONS: Record<LetterSortKey, { label: string; sort: SortOption }> = {
+  newest: { label: 'Newest first', sort: { field: 'created_at', direction: 'desc' } },
+  oldest: { label: 'Oldest first', sort: { field: 'created_at', direction: 'asc' } },
+  send_date_asc: { label: 'Delivery date (soonest)', sort: { field: 'send_date', direction: 'asc' } },
+  send_date_desc: { label: 'Delivery date (latest)', sort: { field: 'send_date', direction: 'desc' } },
+  title: { label: 'Title (A-Z)', sort: { field: 'title', direction: 'asc' } },
+  recently_updated: { label: 'Recently updated', sort: { field: 'updated_at', direction: 'desc' } },
+};
+
+const LETTER_STATUSES: LetterStatus[] = ['draft', 'scheduled', 'sent', 'archived'];
+
+export const DEFAULT_LETTER_QUERY: LetterQuery = {
+  filters: {},
+  sort: 'newest',
+  page: 1,
+};
+
+const isDate = (value: string | null): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Own keys only: `in` would also let ?sort=constructor or ?sort=__proto__ through
+const isSortKey = (value: string): value is LetterSortKey =>
+  Object.prototype.hasOwnProperty.call(LETTER_SORT_OPTIONS, value);
+
+export function parseLetterQuery(params: URLSearchParams): LetterQuery {
+  const search = params.get('q')?.trim();
+  const status = params.get('status') as LetterStatus | null;
+  const start = params.get('from');
+  const end = params.get('to');
+  const sort = params.get('sort') as LetterSortKey | null;
+  const page = Number.parseInt(params.get('page') ?? '', 10);
+
+  return {
+    filters: {
+      ...(search ? { search } : {}),
+      ...(status && LETTER_STATUSES.includes(status) ? { status } : {}),
+      ...(isDate(start) || isDate(end)
+        ? {
+            dateRange: {
+              ...(isDate(start) ? { start } : {}),
+              ...(isDate(end) ? { end } : {}),
+            },
+          }
+        : {}),
+    },
+    sort: sort && isSortKey(sort) ? sort : DEFAULT_LETTER_QUERY.sort,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
+
+// Write the query into a copy of `params`, keeping unrelated keys (e.g. ?letter=)
+export function applyLetterQuery(params: URLSearchParams, query: LetterQuery): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const { search, status, dateRange } = query.filters;
+
+  const set = (key: string, value: string | undefined) => {
+    if (value) next.set(key, value);
+    else next.delete(key);
+  };
+
+  set('q', search?.trim());
+  set('status', status);
+  set('from', dateRange?.start);
+  set('to', dateRange?.end);
+  set('sort', query.sort === DEFAULT_LETTER_QUERY.sort ? undefined : query.sort);
+  set('page', query.page > 1 ? String(query.page) : undefined);
+
+  return next;
+}
+
+export function hasActiveFilters(query: LetterQuery): boolean {
+  const { search, status, dateRange } = query.filters;
+  return !!(search || status || dateRange?.start || dateRange?.end);
+}
@@ -0,0 +1,84 @@
+/**
+ * MILESTONE HELPERS
+ *
+ * Orders a letter's milestones and turns them into a progress figure.
+ * Progress is weighted by each milestone's `percentage`, so ticking off a
+ * 50% milestone moves the bar further than a 10% one.
+ *
+ * Also maps between database rows and the editor's MilestoneUIData.
+ */
+
+import type { Milestone, MilestoneProgress, MilestoneUIData, SyncMilestoneData } from './types';
+
+// Saved order first, then by target date for rows created before ordering existed
+export function sortMilestones(milestones: Milestone[] = []): Milestone[] {
+  return [...milestones].sort(
+    (a, b) =>
+      (a.position ?? 0) - (b.position ?? 0) ||
+      a.target_date.localeCompare(b.target_date) ||
+      a.created_at.localeCompare(b.created_at)
+  );
+}
+
+export function getMilestoneProgress(milestones: Milestone[] = []): MilestoneProgress {
+  const total = milestones.length;
+  const completed = milestones.filter((m) => m.completed).length;
+
+  const weightOf = (m: Milestone) => Math.max(Number(m.percentage) || 0, 0);
+  const totalWeight = milestones.reduce((sum, m) => sum + weightOf(m), 0);
+  const completedWeight = milestones
+    .filter((m) => m.completed)
+    .reduce((sum, m) => sum + weightOf(m), 0);
+
+  // Without any weights every milestone counts the same
+  const ratio = totalWeight > 0 ? completedWeight / totalWeight : total > 0 ? completed / total : 0;
+
+  return { total, completed, percent: Math.round(ratio * 100) };
+}
+
+export function toMilestoneUIData(milestone: Milestone): MilestoneUIData {
+  return {
+    id: milestone.id,
+    milestoneId: milestone.id,
+    text: milestone.title,
+    dueDate: milestone.target_date.slice(0, 10),
+    isInferred: milestone.is_inferred ?? false,
+    reasoning: milestone.reasoning ?? undefined,
+    description: milestone.description ?? undefined,
+    percentage: Number(milestone.percentage),
+  };
+}
+
+// Give unweighted milestones (new or AI-suggested ones) a share of whatever
+// the weighted ones leave of 100%. When nothing is left they get the average
+// weight instead, so they still count toward progress.
+export function assignMilestonePercentages(milestones: MilestoneUIData[]): MilestoneUIData[] {
+  const unweighted = milestones.filter((m) => m.percentage == null).length;
+  if (unweighted === 0) return milestones;
+
+  const weighted = milestones.length - unweighted;
+  const assigned = milestones.reduce((sum, m) => sum + (m.percentage ?? 0), 0);
+  const remaining = 100 - assigned;
+  const share =
+    remaining > 0
+      ? remaining / unweighted
+      : weighted > 0
+        ? assigned / weighted
+        : 100 / unweighted;
+  const percentage = Math.min(Math.round(share * 100) / 100, 100);
+
+  return milestones.map((m) => (m.percentage == null ? { ...m, percentage } : m));
+}
+
+// Editor list -> rows for `sync_letter_milestones`, in display order
+export function toSyncMilestoneData(milestones: MilestoneUIData[]): SyncMilestoneData[] {
+  return assignMilestonePercentages(milestones).map((m) => ({
+    id: m.milestoneId,
+    title: m.text.trim(),
+    description: m.description,
+    percentage: m.percentage ?? 0,
+    target_date: m.dueDate,
+    reasoning: m.reasoning,
+    is_inferred: m.isInferred ?? false,
+  }));
+}
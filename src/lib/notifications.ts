@@ -0,0 +1,47 @@
+/**
+ * NOTIFICATION HELPERS
+ *
+ * Maps raw `notifications` rows onto what the notification center shows:
+ * a display state, a label per type and whether the row counts as unread.
+ */
+
+import type { Notification, NotificationState, NotificationType } from './types';
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  letter_delivery: 'Letter delivery',
+  milestone_reminder: 'Milestone reminder',
+  motivation_nudge: 'Motivation nudge',
+};
+
+export const NOTIFICATION_STATE_LABELS: Record<NotificationState, string> = {
+  scheduled: 'Scheduled',
+  sent: 'Sent',
+  retrying: 'Retrying',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export function getNotificationState(notification: Notification): NotificationState {
+  switch (notification.status) {
+    case 'sent':
+      return 'sent';
+    case 'cancelled':
+      return 'cancelled';
+    case 'failed':
+    case 'dead_letter':
+      return 'failed';
+    default:
+      // pending/processing: a retry if an earlier attempt already failed
+      return notification.attempt_count > 0 ? 'retrying' : 'scheduled';
+  }
+}
+
+// Only outcomes are worth flagging; a delivery that is merely scheduled is not news
+export function isUnreadNotification(notification: Notification): boolean {
+  return !notification.read_at && getNotificationState(notification) !== 'scheduled';
+}
+
+// Where an outcome happened, falling back to when it was planned
+export function getNotificationTime(notification: Notification): string {
+  return notification.sent_at ?? notification.scheduled_for ?? notification.created_at;
+}
@@ -0,0 +1,72 @@
+/**
+ * PROFILE PREFERENCE HELPERS
+ *
+ * The preference columns on `profiles` are nullable and the JSON ones may
+ * hold only some keys, so everything the app reads goes through
+ * resolveProfilePreferences() to get a complete set with defaults.
+ */
+
+import type {
+  AccessibilityPreferences,
+  AIPreferences,
+  PrivacySettings,
+  Profile,
+  ProfilePreferences,
+} from './types';
+import { isAITone } from '../../supabase/functions/_shared/ai-preferences.ts';
+
+// Used until the profile has loaded; the column itself defaults to 180
+export const DEFAULT_SEND_DATE_OFFSET = 30;
+export const MAX_SEND_DATE_OFFSET = 3650; // ten years
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const DEFAULT_AI_PREFERENCES: AIPreferences = {
+  enabled: true,
+  tone: 'motivational',
+  auto_apply: false,
+};
+
+export const DEFAULT_ACCESSIBILITY_PREFERENCES: AccessibilityPreferences = {
+  high_contrast: false,
+  text_size: 'normal',
+};
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  letter_visibility: 'private',
+  hide_previews: false,
+};
+
+// Languages the AI can write in; the code is stored in profiles.language
+export const LANGUAGE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Español' },
+  { value: 'fr', label: 'Français' },
+  { value: 'de', label: 'Deutsch' },
+  { value: 'it', label: 'Italiano' },
+  { value: 'pt', label: 'Português' },
+  { value: 'nl', label: 'Nederlands' },
+  { value: 'ja', label: '日本語' },
+];
+
+export function resolveProfilePreferences(profile?: Profile | null): ProfilePreferences {
+  const offset = Number(profile?.default_send_date_offset);
+
+  return {
+    language: profile?.language || DEFAULT_LANGUAGE,
+    sendDateOffset:
+      Number.isInteger(offset) && offset >= 1 && offset <= MAX_SEND_DATE_OFFSET
+        ? offset
+        : DEFAULT_SEND_DATE_OFFSET,
+    letterTemplate: profile?.default_letter_template ?? '',
+    goalFormat: profile?.default_goal_format ?? '',
+    ai: {
+      ...DEFAULT_AI_PREFERENCES,
+      ...profile?.ai_preferences,
+      // The server ignores tones it doesn't know, so the form should too
+      tone: isAITone(profile?.ai_preferences?.tone) ? profile.ai_preferences.tone : DEFAULT_AI_PREFERENCES.tone,
+    },
+    accessibility: { ...DEFAULT_ACCESSIBILITY_PREFERENCES, ...profile?.accessibility_preferences },
+    privacy: { ...DEFAULT_PRIVACY_SETTINGS, ...profile?.privacy_settings },
+  };
+}
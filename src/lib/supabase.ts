@@ -6,7 +6,7 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
-import type { Letter, Milestone, Profile } from './types';
+import type { Letter, Milestone, Notification, Profile } from './types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -29,6 +29,11 @@ export interface Database {
         Insert: Omit<Milestone, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<Milestone, 'id' | 'created_at' | 'updated_at'>>;
       };
+      notifications: {
+        Row: Notification;
+        Insert: Omit<Notification, 'id' | 'created_at'>;
+        Update: Partial<Omit<Notification, 'id' | 'created_at'>>;
+      };
       profiles: {
         Row: Profile;
         Insert: Omit<Profile, 'id' | 'created_at' | 'updated_at'>;
@@ -0,0 +1,139 @@
+/**
+ * TEXT DIFF HELPERS
+ *
+ * Line-by-line comparison of two versions of a letter, for the history
+ * panel, and word-by-word comparison of a field with an AI suggestion. A
+ * plain longest-common-subsequence table is plenty for letters, which run
+ * to a few hundred lines at most.
+ */
+
+import type { DiffLine, DiffRow, WordDiffSegment } from './types';
+
+// Edit script that turns `before` into `after`, in reading order
+export function diffSequences(before: string[], after: string[]): DiffLine[] {
+  const n = before.length;
+  const m = after.length;
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      lines.push({ type: 'equal', text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: before[i++] });
+    } else {
+      lines.push({ type: 'added', text: after[j++] });
+    }
+  }
+  while (i < n) lines.push({ type: 'removed', text: before[i++] });
+  while (j < m) lines.push({ type: 'added', text: after[j++] });
+
+  return lines;
+}
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  return diffSequences(before.split('\n'), after.split('\n'));
+}
+
+// Lay a diff out in two columns. A run of removed lines is paired with the
+// added lines that replace it, so a changed line sits next to its new text.
+export function toSideBySide(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  lines.forEach((line) => {
+    if (line.type === 'removed') {
+      removed.push(line);
+    } else if (line.type === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+
+  return rows;
+}
+
+export function hasChanges(lines: DiffLine[]): boolean {
+  return lines.some((line) => line.type !== 'equal');
+}
+
+// Words and the whitespace between them, so the pieces join back exactly
+const tokenize = (text: string) => text.match(/\s+|\S+/g) ?? [];
+
+// Word diff grouped into numbered hunks. Whitespace between two changes is
+// folded into one hunk, so a rewritten phrase is one choice, not several.
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  const lines = diffSequences(tokenize(before), tokenize(after));
+  const segments: WordDiffSegment[] = [];
+  let removed = '';
+  let added = '';
+  let open = false;
+  let hunks = 0;
+
+  const flush = () => {
+    if (open) segments.push({ type: 'change', index: hunks++, removed, added });
+    removed = '';
+    added = '';
+    open = false;
+  };
+
+  lines.forEach((line, k) => {
+    if (line.type === 'removed') {
+      removed += line.text;
+      open = true;
+    } else if (line.type === 'added') {
+      added += line.text;
+      open = true;
+    } else if (open && !line.text.trim() && lines[k + 1] && lines[k + 1].type !== 'equal') {
+      removed += line.text;
+      added += line.text;
+    } else {
+      flush();
+      const last = segments[segments.length - 1];
+      if (last?.type === 'equal') {
+        last.text += line.text;
+      } else {
+        segments.push({ type: 'equal', text: line.text });
+      }
+    }
+  });
+  flush();
+
+  return segments;
+}
+
+// The original text with only the accepted hunks taken from the suggestion
+export function applyHunks(segments: WordDiffSegment[], accepted: ReadonlySet<number>): string {
+  return segments
+    .map((segment) => {
+      if (segment.type === 'equal') return segment.text;
+      return accepted.has(segment.index) ? segment.added : segment.removed;
+    })
+    .join('');
+}
@@ -0,0 +1,20 @@
+/**
+ * TIMEZONE HELPERS
+ * 
+ * Re-exports the delivery-time calculation shared with the edge functions,
+ * so the app and the server agree on when a letter actually arrives.
+ */
+
+export {
+  DEFAULT_TIMEZONE,
+  DEFAULT_DELIVERY_HOUR,
+  resolveTimeZone,
+  getLocalTimeZone,
+  zonedTimeToUtc,
+  formatDateInTimeZone,
+  addDaysToDate,
+  getTodayInTimeZone,
+  getDeliveryInstant,
+  getDaysUntilDelivery,
+} from '../../supabase/functions/_shared/timezone.ts';
+export type { DeliverySettings } from '../../supabase/functions/_shared/timezone.ts';
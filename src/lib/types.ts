@@ -30,9 +30,12 @@ export interface Letter {
   voice_memo_url?: string;
   personal_comments?: string;
   is_locked: boolean;
+  last_edit_source?: LetterEditSource; // how the text of the latest save was written
+  last_save_kind?: LetterSaveKind; // whether the latest save was a draft autosave
   
   // Related data (populated by joins)
   milestones?: Milestone[];
+  notifications?: Notification[];
 }
 
 export interface Milestone {
@@ -43,16 +46,95 @@ export interface Milestone {
   percentage: number;
   target_date: string;
   completed: boolean;
+  completed_at?: string;
+  reminder_sent?: boolean;
+  position?: number; // manual order within the letter
+  reasoning?: string; // why the AI suggested it
+  is_inferred?: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export interface Notification {
+  id: string;
+  user_id: string;
+  letter_id?: string;
+  milestone_id?: string;
+  type: 'letter_delivery' | 'milestone_reminder' | 'motivation_nudge';
+  subject?: string;
+  content: string;
+  scheduled_for: string;
+  sent_at?: string;
+  status: 'pending' | 'processing' | 'sent' | 'failed' | 'cancelled' | 'dead_letter';
+  delivery_method: 'email' | 'push';
+  error_message?: string;
+  attempt_count: number;
+  next_attempt_at?: string;
+  last_error?: string;
+  read_at?: string; // set once the user has seen it in the notification center
+  created_at: string;
+  // Joined by useNotifications for display
+  letter?: Pick<Letter, 'id' | 'title'> | null;
+  milestone?: Pick<Milestone, 'id' | 'title'> | null;
+}
+
+// A saved version of a letter's text, recorded by the database on every save
+export interface LetterRevision {
+  id: string;
+  letter_id: string;
+  user_id: string;
+  revision_number: number;
+  title: string;
+  goal: string;
+  content: string;
+  source: 'manual' | 'ai' | 'restore';
+  restored_from?: string | null;
+  created_by?: string | null; // null when the service made the change
+  created_at: string;
+  // Recorded by draft autosave; one revision covers a whole sitting of them
+  autosave?: boolean;
+}
+
+export interface NotificationPreferences {
+  email: boolean;
+  push: boolean;
+  milestone_reminders?: boolean; // opt-out switch, treated as on when missing
+}
+
+export type AITone = 'motivational' | 'gentle' | 'direct' | 'humorous' | 'coach';
+
+export interface AIPreferences {
+  enabled: boolean;
+  tone: AITone;
+  auto_apply: boolean; // apply suggestions without asking first
+}
+
+export interface AccessibilityPreferences {
+  high_contrast: boolean;
+  text_size: 'small' | 'normal' | 'large';
+}
+
+export interface PrivacySettings {
+  letter_visibility: 'private'; // letters are only ever readable by their author
+  hide_previews?: boolean; // keep goals off the letter cards
+}
+
 export interface Profile {
   id: string;
+  user_id: string;
   email: string;
   full_name?: string;
   avatar_url?: string;
   timezone: string;
+  delivery_hour: number; // local hour (0-23) letters arrive on their send date
+  language?: string; // ISO 639-1, e.g. 'en'
+  default_send_date_offset?: number; // days from today for a new letter
+  default_letter_template?: string | null;
+  default_goal_format?: string | null;
+  notification_preferences: NotificationPreferences;
+  ai_preferences?: Partial<AIPreferences>;
+  accessibility_preferences?: Partial<AccessibilityPreferences>;
+  privacy_settings?: Partial<PrivacySettings>;
   created_at: string;
   updated_at: string;
 }
@@ -67,6 +149,7 @@ export interface CreateLetterData {
   goal: string;
   send_date: string;
   voice_memo_url?: string;
+  last_edit_source?: LetterEditSource;
 }
 
 export interface CreateMilestoneData {
@@ -76,6 +159,20 @@ export interface CreateMilestoneData {
   target_date: string;
 }
 
+// One entry of an edited milestone list; rows without an id are new
+export interface SyncMilestoneData extends CreateMilestoneData {
+  id?: string;
+  reasoning?: string;
+  is_inferred?: boolean;
+}
+
+export interface UpdateMilestoneData {
+  title?: string;
+  description?: string;
+  percentage?: number;
+  target_date?: string;
+}
+
 export interface UpdateLetterData {
   title?: string;
   content?: string;
@@ -83,11 +180,44 @@ export interface UpdateLetterData {
   send_date?: string;
   status?: Letter['status'];
   personal_comments?: string;
+  voice_memo_url?: string | null;
+  last_edit_source?: LetterEditSource;
+  last_save_kind?: LetterSaveKind;
   ai_enhanced_title?: string;
   ai_enhanced_goal?: string;
   ai_enhanced_content?: string;
 }
 
+// What autosave writes to a draft letter; sent as a guarded update
+export type DraftSaveData = Pick<
+  UpdateLetterData,
+  | 'title'
+  | 'goal'
+  | 'content'
+  | 'send_date'
+  | 'personal_comments'
+  | 'voice_memo_url'
+  | 'last_edit_source'
+  | 'last_save_kind'
+>;
+
+// Everything the letter form holds, as autosaved to localStorage
+export interface DraftSnapshot {
+  title: string;
+  goal: string;
+  content: string;
+  send_date: string;
+  personal_comments?: string;
+  voice_memo_url: string | null;
+  last_edit_source: LetterEditSource;
+  milestones: MilestoneUIData[];
+}
+
+export interface LocalDraft {
+  snapshot: DraftSnapshot;
+  savedAt: string; // ISO timestamp
+}
+
 // ============================================================================
 // AI ENHANCEMENT TYPES
 // ============================================================================
@@ -116,21 +246,63 @@ export interface FieldEnhancementRequest {
     goal?: string;
     content?: string;
   };
+  // One suggestion per style instead of a single one (not streamed)
+  alternatives?: number;
+  // Earlier suggestions a regenerated one must not repeat
+  avoid?: string[];
+}
+
+export type EnhancementStyle = 'concise' | 'vivid' | 'smart';
+
+export interface FieldEnhancementAlternative {
+  style: EnhancementStyle;
+  suggestion: string;
+  explanation: string;
 }
 
 export interface FieldEnhancementResponse {
   suggestion: string;
   explanation: string;
+  // Set when alternatives were asked for; the first is also the suggestion
+  style?: EnhancementStyle;
+  alternatives?: FieldEnhancementAlternative[];
+  // The ai_events row for this suggestion, if it was recorded
+  eventId?: string | null;
+  quota?: AIQuota | null;
+}
+
+// A streamed field enhancement resolves with the same response once done
+export interface FieldEnhancementStreamOptions {
+  // The suggestion written so far, each time it grows
+  onText: (suggestion: string) => void;
+  // Aborting stops the model; the promise then rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+// What's left of the user's AI allowance, as reported by the edge functions
+export interface AIQuota {
+  remainingRequests: number;
+  tokensUsed: number;
+  // null when there is no monthly budget
+  tokenBudget: number | null;
+  resetsAt: string;
+}
+
+export interface SuggestionOutcome {
+  eventId: string;
+  applied: boolean;
 }
 
 export interface MilestoneInferenceRequest {
   goal: string;
   content: string;
   title?: string;
+  sendDate?: string; // suggested due dates are kept on or before it
 }
 
 export interface MilestoneInferenceResponse {
   suggestedMilestones: InferredMilestone[];
+  quota?: AIQuota | null;
 }
 
 export interface InferredMilestone {
@@ -152,10 +324,17 @@ export interface SuggestedMilestone {
 
 export interface LetterCardProps {
   letter: Letter;
+  timeZone?: string; // user's profile timezone, defaults to the browser's
   onView: (letter: Letter) => void;
   onEdit: (letter: Letter) => void;
   onDelete: (letter: Letter) => void;
   onStatusChange: (letter: Letter, status: Letter['status']) => void;
+  onRetryDelivery?: (letter: Letter) => void;
+  onCancelDelivery?: (letter: Letter) => void;
+  onReschedule?: (letter: Letter) => void;
+  onSeal?: (letter: Letter) => void;
+  onBreakSeal?: (letter: Letter) => void;
+  hidePreview?: boolean; // privacy setting: keep the goal off the card
 }
 
 export interface LetterFormProps {
@@ -164,17 +343,71 @@ export interface LetterFormProps {
   onSuccess: (letter: Letter) => void;
 }
 
-export interface MilestoneListProps {
-  milestones: Milestone[];
-  onUpdate: (milestones: Milestone[]) => void;
+export interface MilestoneChecklistProps {
   letterId: string;
+  milestones: Milestone[];
 }
 
 export interface LetterDetailProps {
   letter: Letter;
+  timeZone?: string;
   onEdit: (letter: Letter) => void;
   onDelete: (letter: Letter) => void;
   onUpdateComments: (letter: Letter, comments: string) => Promise<void>;
+  onRetryDelivery?: (letter: Letter) => Promise<void>;
+  isRetryingDelivery?: boolean;
+  onCancelDelivery?: (letter: Letter) => Promise<void>;
+  onReschedule?: (letter: Letter) => void;
+  onSeal?: (letter: Letter) => Promise<void>;
+  onBreakSeal?: (letter: Letter) => void;
+}
+
+// The Settings page forms that save with a button (the switches save at once)
+export interface SettingsFormProps {
+  profile?: Profile;
+  preferences: ProfilePreferences;
+  onSave: (data: UpdateProfileData) => Promise<unknown>;
+  isSaving?: boolean;
+}
+
+export interface LetterHistoryProps {
+  letter: Letter;
+}
+
+export interface RevisionDiffProps {
+  before: Pick<LetterRevision, 'title' | 'goal' | 'content'>;
+  after: Pick<LetterRevision, 'title' | 'goal' | 'content'>;
+}
+
+export interface RescheduleDialogProps {
+  letter: Letter | null; // closed when null
+  timeZone: string;
+  onClose: () => void;
+  onReschedule: (letter: Letter, sendDate: string) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+export interface BreakSealDialogProps {
+  letter: Letter | null; // closed when null
+  onClose: () => void;
+  onBreakSeal: (letter: Letter, reason: string) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+export interface LetterFiltersProps {
+  query: LetterQuery;
+  onChange: (query: LetterQuery) => void;
+}
+
+export interface VoiceMemoRecorderProps {
+  value?: string | null; // storage path of the saved memo
+  onChange: (path: string | null) => void;
+  disabled?: boolean;
+}
+
+export interface VoiceMemoPlayerProps {
+  value: string;
+  className?: string;
 }
 
 export interface HeaderProps {
@@ -196,22 +429,32 @@ export interface FieldEnhancerProps {
     content?: string;
   };
   placeholder?: string;
+  // Apply suggestions as they arrive, with an undo instead of a confirm step
+  autoApply?: boolean;
+  // Puts the field back after an auto-applied suggestion; defaults to onApply
+  onUndo?: (previousValue: string) => void;
 }
 
 export interface MilestoneManagerProps {
   goal: string;
   content: string;
   title?: string;
+  sendDate?: string;
   initialMilestones?: MilestoneUIData[];
   onChange: (milestones: MilestoneUIData[]) => void;
+  aiEnabled?: boolean; // off hides milestone suggestions
 }
 
+// Editor-side shape of a milestone; see toMilestoneUIData/toSyncMilestoneData
 export interface MilestoneUIData {
   id: string;
+  milestoneId?: string; // database id, unset until the milestone is saved
   text: string;
   dueDate: string;
   isInferred?: boolean;
   reasoning?: string;
+  description?: string;
+  percentage?: number; // weight toward the goal, assigned on save when unset
 }
 
 // ============================================================================
@@ -249,23 +492,98 @@ export interface PaginatedResponse<T> {
 // HOOK RETURN TYPES
 // ============================================================================
 
+export interface UseLetterSearchReturn extends PaginatedResponse<Letter> {
+  isLoading: boolean;
+  isFetching: boolean;
+  error?: string;
+}
+
+// conflict: the draft changed elsewhere since `expectedUpdatedAt`; `letter`
+// is then the newer server copy and nothing was written
+export interface DraftSaveResult {
+  letter: Letter;
+  conflict: boolean;
+}
+
 export interface UseLettersReturn {
   letters: Letter[];
   isLoading: boolean;
   error?: string;
   createLetter: (data: CreateLetterData) => Promise<Letter>;
   updateLetter: (id: string, data: UpdateLetterData) => Promise<Letter>;
+  saveDraft: (id: string | null, data: DraftSaveData, expectedUpdatedAt?: string) => Promise<DraftSaveResult>;
   deleteLetter: (id: string) => Promise<void>;
   refetch: () => void;
 }
 
-export interface UseMilestonesReturn {
-  milestones: Milestone[];
+export type UpdateProfileData = Partial<Omit<Profile, 'id' | 'user_id' | 'email' | 'created_at' | 'updated_at'>>;
+
+// Profile settings with defaults filled in for anything not set yet
+export interface ProfilePreferences {
+  language: string;
+  sendDateOffset: number;
+  letterTemplate: string;
+  goalFormat: string;
+  ai: AIPreferences;
+  accessibility: AccessibilityPreferences;
+  privacy: PrivacySettings;
+}
+
+export interface UseProfileReturn {
+  profile?: Profile;
+  timeZone: string;
+  preferences: ProfilePreferences;
   isLoading: boolean;
   error?: string;
-  createMilestone: (data: CreateMilestoneData & { letterId: string }) => Promise<Milestone>;
-  updateMilestone: (id: string, data: Partial<CreateMilestoneData>) => Promise<Milestone>;
-  deleteMilestone: (id: string) => Promise<void>;
+  updateProfile: (data: UpdateProfileData) => Promise<Profile>;
+  isUpdating: boolean;
+}
+
+export interface UseNotificationsReturn {
+  notifications: Notification[];
+  unreadCount: number;
+  isLoading: boolean;
+  error?: string;
+  markAsRead: (ids: string[]) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+}
+
+export type AutosaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'local' | 'conflict';
+
+export interface UseDraftAutosaveReturn {
+  status: AutosaveStatus;
+  lastSavedAt?: string;
+  recoveredDraft: LocalDraft | null; // unsaved work found when the form opened
+  dismissRecoveredDraft: () => void;
+  conflict: Letter | null; // newer copy saved from another tab
+  resolveConflict: (keep: 'mine' | 'theirs') => void;
+  queueDraft: (snapshot: DraftSnapshot) => void;
+  settle: () => Promise<string | undefined>; // id of the autosaved row, if any
+  clearDraft: () => void;
+}
+
+export interface UseLetterRevisionsReturn {
+  revisions: LetterRevision[]; // newest first
+  isLoading: boolean;
+  error?: string;
+  restoreRevision: (revision: LetterRevision) => Promise<void>;
+  isRestoring: boolean;
+}
+
+export interface UseVoiceMemoReturn {
+  uploadVoiceMemo: (recording: Blob) => Promise<string>;
+  removeVoiceMemo: (path: string) => Promise<void>;
+  isUploading: boolean;
+}
+
+export interface UseMilestonesReturn {
+  createMilestones: (milestones: (CreateMilestoneData & { letterId: string })[]) => Promise<Milestone[]>;
+  updateMilestones: (letterId: string, milestones: SyncMilestoneData[]) => Promise<Milestone[]>;
+  toggleMilestone: (milestone: Milestone, completed: boolean) => Promise<Milestone>;
+  updateMilestone: (milestone: Milestone, data: UpdateMilestoneData) => Promise<Milestone>;
+  reorderMilestones: (letterId: string, milestoneIds: string[]) => Promise<void>;
+  deleteMilestone: (milestone: Milestone) => Promise<void>;
+  isLoading: boolean;
 }
 
 export interface UseEnhancementReturn {
@@ -280,6 +598,41 @@ export interface UseEnhancementReturn {
 
 export type LetterStatus = Letter['status'];
 
+export type NotificationType = Notification['type'];
+
+export type LetterEditSource = 'manual' | 'ai';
+
+// Consecutive autosaves share one revision instead of adding one each
+export type LetterSaveKind = 'save' | 'autosave';
+
+// One row of a side-by-side diff; a side is missing where a line was only
+// added or only removed
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// A word diff grouped into hunks that can be taken or left one at a time;
+// unchanged text between hunks is kept as is
+export type WordDiffSegment =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; index: number; removed: string; added: string };
+
+// Completion of a letter's milestones, weighted by percentage
+export interface MilestoneProgress {
+  total: number;
+  completed: number;
+  percent: number;
+}
+
+// What the notification center shows, derived from status and attempts
+export type NotificationState = 'scheduled' | 'sent' | 'retrying' | 'failed' | 'cancelled';
+
 export type SortDirection = 'asc' | 'desc';
 
 export interface SortOption {
@@ -290,8 +643,23 @@ export interface SortOption {
 export interface FilterOptions {
   status?: LetterStatus;
   dateRange?: {
-    start: string;
-    end: string;
+    start?: string; // YYYY-MM-DD, inclusive
+    end?: string;
   };
   search?: string;
 }
+
+export type LetterSortKey =
+  | 'newest'
+  | 'oldest'
+  | 'send_date_asc'
+  | 'send_date_desc'
+  | 'title'
+  | 'recently_updated';
+
+// What the letters page shows; mirrored in the /letters query string
+export interface LetterQuery {
+  filters: FilterOptions;
+  sort: LetterSortKey;
+  page: number; // 1-based
+}
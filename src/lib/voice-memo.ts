@@ -0,0 +1,12 @@
+/**
+ * VOICE MEMO HELPERS
+ *
+ * Re-exports the storage bucket and link helpers shared with the delivery
+ * functions, so the app signs playback links the same way emails do.
+ */
+
+export {
+  VOICE_MEMO_BUCKET,
+  isExternalVoiceMemoUrl,
+  createVoiceMemoLink,
+} from '../../supabase/functions/_shared/voice-memo.ts';
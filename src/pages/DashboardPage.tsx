@@ -21,25 +21,22 @@ import {
 } from 'lucide-react';
 
 import { useLetters } from '../hooks/useLetters';
+import { useProfile } from '../hooks/useProfile';
+import { getMilestoneProgress } from '../lib/milestones';
 import type { Letter } from '../lib/types';
 import { LetterCard } from '../components/LetterCard';
 
 export function DashboardPage() {
   const navigate = useNavigate();
   const { letters, isLoading: lettersLoading } = useLetters();
+  const { timeZone, preferences } = useProfile();
 
   // Calculate stats from letters
   const stats = {
     total: letters.length,
     scheduled: letters.filter(l => l.status === 'scheduled').length,
     completed: letters.filter(l => l.status === 'sent').length,
-    overallProgress: (() => {
-      const totalMilestones = letters.reduce((sum, letter) => 
-        sum + (letter.milestones?.length || 0), 0);
-      const completedMilestones = letters.reduce((sum, letter) => 
-        sum + (letter.milestones?.filter(m => m.completed).length || 0), 0);
-      return totalMilestones > 0 ? Math.round((completedMilestones / totalMilestones) * 100) : 0;
-    })()
+    overallProgress: getMilestoneProgress(letters.flatMap(l => l.milestones ?? [])).percent,
   };
 
   // Get recent letters (top 3)
@@ -182,6 +179,8 @@ export function DashboardPage() {
                 <LetterCard
                   key={letter.id}
                   letter={letter}
+                  timeZone={timeZone}
+                  hidePreview={preferences.privacy.hide_previews}
                   onView={handleViewLetter}
                   onEdit={handleViewLetter}
                   onDelete={() => {}}
@@ -10,21 +10,29 @@
  * One page, clear responsibilities, no prop drilling.
  */
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Plus, Target } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Loader2, Plus, SearchX, Target } from 'lucide-react';
 
-import { useLetters } from '../hooks/useLetters';
+import { useLetter, useLetterSearch, useLetters } from '../hooks/useLetters';
 import { useEnhancement } from '../hooks/useEnhancement';
 import { useLetterDelivery } from '../hooks/useLetterDelivery';
+import { useProfile } from '../hooks/useProfile';
+import { useLetterSeal } from '../hooks/useLetterSeal';
 import { useToast } from '@/components/ui/use-toast';
-import type { Letter, CreateLetterData } from '../lib/types';
+import { isLetterSealed } from '../lib/delivery';
+import { DEFAULT_LETTER_QUERY, applyLetterQuery, hasActiveFilters, parseLetterQuery } from '../lib/letter-query';
+import type { Letter, CreateLetterData, LetterQuery } from '../lib/types';
 
 // Import our new simplified components
 import { LetterCard } from '../components/LetterCard';
 import { LetterForm } from '../components/LetterForm';
 import { LetterDetail } from '../components/LetterDetail';
+import { LetterFilters } from '../components/LetterFilters';
+import { RescheduleDialog } from '../components/RescheduleDialog';
+import { BreakSealDialog } from '../components/BreakSealDialog';
 
 export function LettersPage() {
   const { toast } = useToast();
@@ -34,11 +42,59 @@ export function LettersPage() {
   const [editingLetter, setEditingLetter] = useState<Letter | null>(null);
   const [selectedLetter, setSelectedLetter] = useState<Letter | null>(null);
   const [showLetterDetail, setShowLetterDetail] = useState(false);
+  const [reschedulingLetter, setReschedulingLetter] = useState<Letter | null>(null);
+  const [unsealingLetter, setUnsealingLetter] = useState<Letter | null>(null);
   
-  // Data hooks
-  const { letters, isLoading: lettersLoading, createLetter, updateLetter, deleteLetter } = useLetters();
+  // Data hooks. The grid loads one filtered page at a time, so the
+  // all-letters query stays off and only its mutations are used here.
+  const { createLetter, updateLetter, deleteLetter } = useLetters({ enabled: false });
   const { enhance, isLoading: enhanceLoading } = useEnhancement();
-  const { triggerDelivery, isDelivering } = useLetterDelivery();
+  const { triggerDelivery, retryDelivery, cancelDelivery, rescheduleDelivery, isDelivering } = useLetterDelivery();
+  const { timeZone, preferences } = useProfile();
+  const { sealLetter, breakSeal, isBreakingSeal } = useLetterSeal();
+
+  // Search, filters, sort and page live in the query string:
+  // /letters?q=&status=&from=&to=&sort=&page=
+  const [searchParams, setSearchParams] = useSearchParams();
+  const letterQuery = useMemo(() => parseLetterQuery(searchParams), [searchParams]);
+  const {
+    data: letters,
+    count: letterCount,
+    totalPages,
+    isLoading: lettersLoading,
+    isFetching: lettersFetching,
+  } = useLetterSearch(letterQuery);
+  const isFiltered = hasActiveFilters(letterQuery);
+
+  const handleQueryChange = (query: LetterQuery) => {
+    setSearchParams(applyLetterQuery(searchParams, query));
+  };
+
+  // Deleting the last letter on a page leaves it empty; step back
+  useEffect(() => {
+    if (!lettersFetching && letterQuery.page > totalPages) {
+      setSearchParams(applyLetterQuery(searchParams, { ...letterQuery, page: totalPages }), { replace: true });
+    }
+  }, [lettersFetching, letterQuery, totalPages, searchParams, setSearchParams]);
+
+  // Deep links (e.g. from the notification center) open a letter: /letters?letter=<id>
+  const linkedLetterId = searchParams.get('letter');
+  const { letter: detailLetter } = useLetter(selectedLetter?.id ?? linkedLetterId);
+
+  useEffect(() => {
+    if (linkedLetterId && detailLetter?.id === linkedLetterId) {
+      setSelectedLetter(detailLetter);
+      setShowLetterDetail(true);
+    }
+  }, [linkedLetterId, detailLetter]);
+
+  const handleDetailOpenChange = (open: boolean) => {
+    setShowLetterDetail(open);
+    if (!open && linkedLetterId) {
+      searchParams.delete('letter');
+      setSearchParams(searchParams, { replace: true });
+    }
+  };
 
   // Event handlers - simple and direct
   const handleCreateClick = () => {
@@ -54,7 +110,7 @@ export function LettersPage() {
   const handleEditLetter = (letter: Letter) => {
     setEditingLetter(letter);
     setShowCreateForm(true); // Use same form for create/edit
-    setShowLetterDetail(false); // Close detail if open
+    handleDetailOpenChange(false); // Close detail if open
   };
 
   const handleDeleteLetter = async (letter: Letter) => {
@@ -62,16 +118,29 @@ export function LettersPage() {
     await deleteLetter(letter.id);
     // Close detail modal if this letter was open
     if (selectedLetter?.id === letter.id) {
-      setShowLetterDetail(false);
+      handleDetailOpenChange(false);
       setSelectedLetter(null);
     }
   };
 
   const handleStatusChange = async (letter: Letter, newStatus: Letter['status']) => {
+    // Sending early would open the seal without going through break_letter_seal
+    if (newStatus === 'sent' && isLetterSealed(letter)) {
+      toast({
+        title: 'Letter is sealed',
+        description: 'Break the seal before sending it early.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     try {
-      // If changing to 'sent', trigger actual email delivery
+      // Sending and scheduling go through the delivery function so a
+      // notification is queued (or the email goes out) alongside the status
       if (newStatus === 'sent') {
         await triggerDelivery({ letterId: letter.id, action: 'send' });
+      } else if (newStatus === 'scheduled') {
+        await triggerDelivery({ letterId: letter.id, action: 'schedule' });
       } else {
         // For other status changes, just update the database
         await updateLetter(letter.id, { status: newStatus });
@@ -87,6 +156,43 @@ export function LettersPage() {
     }
   };
 
+  const handleRetryDelivery = async (letter: Letter) => {
+    try {
+      await retryDelivery(letter.id);
+    } catch (error) {
+      console.error('Delivery retry failed:', error);
+      // The error toast is already handled by the hook
+    }
+  };
+
+  const handleCancelDelivery = async (letter: Letter) => {
+    if (!confirm(`Cancel the delivery of "${letter.title}"? It will go back to your drafts.`)) return;
+    try {
+      await cancelDelivery(letter.id);
+    } catch (error) {
+      console.error('Delivery cancellation failed:', error);
+      // The error toast is already handled by the hook
+    }
+  };
+
+  const handleReschedule = async (letter: Letter, sendDate: string) => {
+    await rescheduleDelivery(letter.id, sendDate);
+  };
+
+  const handleSealLetter = async (letter: Letter) => {
+    if (!confirm(`Seal "${letter.title}"? You won't be able to read or edit it until it is delivered.`)) return;
+    try {
+      await sealLetter(letter.id);
+    } catch (error) {
+      console.error('Sealing failed:', error);
+      // The error toast is already handled by the hook
+    }
+  };
+
+  const handleBreakSeal = async (letter: Letter, reason: string) => {
+    await breakSeal(letter.id, reason);
+  };
+
   const handleFormSuccess = (letter: Letter) => {
     setShowCreateForm(false);
     setEditingLetter(null);
@@ -125,13 +231,29 @@ export function LettersPage() {
       </div>
 
       {/* Main content */}
-      <div className="container mx-auto px-4 py-8">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <LetterFilters query={letterQuery} onChange={handleQueryChange} />
+
         {lettersLoading ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {Array.from({ length: 6 }).map((_, i) => (
               <div key={i} className="h-64 bg-muted animate-pulse rounded-lg" />
             ))}
           </div>
+        ) : letters.length === 0 && isFiltered ? (
+          <div className="text-center py-12">
+            <SearchX className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-xl font-semibold mb-2">No matching letters</h3>
+            <p className="text-muted-foreground mb-6">
+              Try a different search or clear the filters
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => handleQueryChange({ ...DEFAULT_LETTER_QUERY, sort: letterQuery.sort })}
+            >
+              Clear filters
+            </Button>
+          </div>
         ) : letters.length === 0 ? (
           <div className="text-center py-12">
             <Target className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -144,18 +266,59 @@ export function LettersPage() {
             </Button>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {letters.map((letter) => (
-              <LetterCard
-                key={letter.id}
-                letter={letter}
-                onView={handleViewLetter}
-                onEdit={handleEditLetter}
-                onDelete={handleDeleteLetter}
-                onStatusChange={handleStatusChange}
-              />
-            ))}
-          </div>
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {letters.map((letter) => (
+                <LetterCard
+                  key={letter.id}
+                  letter={letter}
+                  timeZone={timeZone}
+                  hidePreview={preferences.privacy.hide_previews}
+                  onView={handleViewLetter}
+                  onEdit={handleEditLetter}
+                  onDelete={handleDeleteLetter}
+                  onStatusChange={handleStatusChange}
+                  onRetryDelivery={handleRetryDelivery}
+                  onCancelDelivery={handleCancelDelivery}
+                  onReschedule={setReschedulingLetter}
+                  onSeal={handleSealLetter}
+                  onBreakSeal={setUnsealingLetter}
+                />
+              ))}
+            </div>
+
+            <div data-section="pagination" className="flex items-center justify-between text-sm text-muted-foreground">
+              <span className="flex items-center gap-2">
+                {letterCount} letter{letterCount !== 1 ? 's' : ''}
+                {lettersFetching && <Loader2 className="h-3 w-3 animate-spin" />}
+              </span>
+              {totalPages > 1 && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={letterQuery.page <= 1}
+                    onClick={() => handleQueryChange({ ...letterQuery, page: letterQuery.page - 1 })}
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </Button>
+                  <span>
+                    Page {letterQuery.page} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={letterQuery.page >= totalPages}
+                    onClick={() => handleQueryChange({ ...letterQuery, page: letterQuery.page + 1 })}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          </>
         )}
       </div>
 
@@ -178,17 +341,42 @@ export function LettersPage() {
 
       {/* Letter Detail Modal */}
       {selectedLetter && (
-        <Dialog open={showLetterDetail} onOpenChange={setShowLetterDetail}>
+        <Dialog open={showLetterDetail} onOpenChange={handleDetailOpenChange}>
           <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
             <LetterDetail
-              letter={selectedLetter}
+              // Prefer the cached copy so delivery retries show up while open
+              letter={detailLetter?.id === selectedLetter.id ? detailLetter : selectedLetter}
+              timeZone={timeZone}
               onEdit={handleEditLetter}
               onDelete={handleDeleteLetter}
               onUpdateComments={handleUpdateComments}
+              onRetryDelivery={handleRetryDelivery}
+              isRetryingDelivery={isDelivering}
+              onCancelDelivery={handleCancelDelivery}
+              onReschedule={setReschedulingLetter}
+              onSeal={handleSealLetter}
+              onBreakSeal={setUnsealingLetter}
             />
           </DialogContent>
         </Dialog>
       )}
+
+      {/* Reschedule Modal */}
+      <RescheduleDialog
+        letter={reschedulingLetter}
+        timeZone={timeZone}
+        onClose={() => setReschedulingLetter(null)}
+        onReschedule={handleReschedule}
+        isSubmitting={isDelivering}
+      />
+
+      {/* Break Seal Modal */}
+      <BreakSealDialog
+        letter={unsealingLetter}
+        onClose={() => setUnsealingLetter(null)}
+        onBreakSeal={handleBreakSeal}
+        isSubmitting={isBreakingSeal}
+      />
     </>
   );
 }
@@ -1,4 +1,66 @@
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Lock } from 'lucide-react';
+import { useProfile } from '@/hooks/useProfile';
+import { ProfileSettingsForm } from '@/components/ProfileSettingsForm';
+import { LetterDefaultsForm } from '@/components/LetterDefaultsForm';
+import type {
+  AccessibilityPreferences,
+  AIPreferences,
+  AITone,
+  NotificationPreferences,
+  PrivacySettings,
+  UpdateProfileData,
+} from '@/lib/types';
+
+const TONE_OPTIONS: { value: AITone; label: string }[] = [
+  { value: 'motivational', label: 'Motivational' },
+  { value: 'gentle', label: 'Gentle' },
+  { value: 'direct', label: 'Direct' },
+  { value: 'humorous', label: 'Humorous' },
+  { value: 'coach', label: 'Coach-like' },
+];
+
+const TEXT_SIZE_OPTIONS: { value: AccessibilityPreferences['text_size']; label: string }[] = [
+  { value: 'small', label: 'Small' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'large', label: 'Large' },
+];
+
 export function SettingsPage() {
+  const { profile, preferences, isLoading, updateProfile, isUpdating } = useProfile();
+  const isDisabled = isLoading || isUpdating;
+
+  const notificationPreferences: NotificationPreferences = {
+    email: true,
+    push: false,
+    ...profile?.notification_preferences,
+  };
+
+  // Switches and selects save as soon as they change
+  const save = (data: UpdateProfileData) => {
+    updateProfile(data).catch(() => {
+      // Error is handled by the mutation's onError
+    });
+  };
+
+  const handlePreferenceChange = (key: keyof NotificationPreferences, value: boolean) => {
+    save({ notification_preferences: { ...notificationPreferences, [key]: value } });
+  };
+
+  const handleAIChange = (changes: Partial<AIPreferences>) => {
+    save({ ai_preferences: { ...preferences.ai, ...changes } });
+  };
+
+  const handleAccessibilityChange = (changes: Partial<AccessibilityPreferences>) => {
+    save({ accessibility_preferences: { ...preferences.accessibility, ...changes } });
+  };
+
+  const handlePrivacyChange = (changes: Partial<PrivacySettings>) => {
+    save({ privacy_settings: { ...preferences.privacy, ...changes } });
+  };
+
   return (
     <>
       {/* Header */}
@@ -12,28 +74,184 @@ export function SettingsPage() {
           </div>
         </div>
       </div>
-      
+
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-2xl mx-auto space-y-6">
-          <div className="bg-card rounded-lg border p-6">
+          <div data-section="account-settings" className="bg-card rounded-lg border p-6">
             <h2 className="text-xl font-semibold mb-4">Account Settings</h2>
-            <p className="text-muted-foreground">
-              Settings implementation will be added in a future update.
-            </p>
+            <ProfileSettingsForm
+              profile={profile}
+              preferences={preferences}
+              onSave={updateProfile}
+              isSaving={isUpdating}
+            />
+          </div>
+
+          <div data-section="letter-defaults" className="bg-card rounded-lg border p-6">
+            <h2 className="text-xl font-semibold mb-4">New Letter Defaults</h2>
+            <LetterDefaultsForm
+              profile={profile}
+              preferences={preferences}
+              onSave={updateProfile}
+              isSaving={isUpdating}
+            />
           </div>
-          
-          <div className="bg-card rounded-lg border p-6">
+
+          <div data-section="notification-settings" className="bg-card rounded-lg border p-6">
             <h2 className="text-xl font-semibold mb-4">Notification Preferences</h2>
-            <p className="text-muted-foreground">
-              Email notification settings coming soon.
-            </p>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="email-notifications">Email notifications</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Receive your letters and reminders by email.
+                  </p>
+                </div>
+                <Switch
+                  id="email-notifications"
+                  checked={notificationPreferences.email}
+                  disabled={isDisabled}
+                  onCheckedChange={(checked) => handlePreferenceChange('email', checked)}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="milestone-reminders">Milestone reminders</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Get a heads-up before a milestone's target date.
+                  </p>
+                </div>
+                <Switch
+                  id="milestone-reminders"
+                  checked={notificationPreferences.email && notificationPreferences.milestone_reminders !== false}
+                  disabled={isDisabled || !notificationPreferences.email}
+                  onCheckedChange={(checked) => handlePreferenceChange('milestone_reminders', checked)}
+                />
+              </div>
+            </div>
           </div>
-          
-          <div className="bg-card rounded-lg border p-6">
+
+          <div data-section="ai-settings" className="bg-card rounded-lg border p-6">
             <h2 className="text-xl font-semibold mb-4">AI Preferences</h2>
-            <p className="text-muted-foreground">
-              Customize your AI enhancement preferences.
-            </p>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="ai-enabled">AI suggestions</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Offer to improve titles, goals and content, and suggest milestones.
+                  </p>
+                </div>
+                <Switch
+                  id="ai-enabled"
+                  checked={preferences.ai.enabled}
+                  disabled={isDisabled}
+                  onCheckedChange={(checked) => handleAIChange({ enabled: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="ai-tone">Tone</Label>
+                  <p className="text-sm text-muted-foreground">
+                    How suggestions should sound, in the language chosen above.
+                  </p>
+                </div>
+                <Select
+                  value={preferences.ai.tone}
+                  disabled={isDisabled || !preferences.ai.enabled}
+                  onValueChange={(value) => handleAIChange({ tone: value as AITone })}
+                >
+                  <SelectTrigger id="ai-tone" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TONE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="ai-auto-apply">Apply suggestions automatically</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Use a suggestion as soon as it arrives instead of asking first. You can still undo it.
+                  </p>
+                </div>
+                <Switch
+                  id="ai-auto-apply"
+                  checked={preferences.ai.auto_apply}
+                  disabled={isDisabled || !preferences.ai.enabled}
+                  onCheckedChange={(checked) => handleAIChange({ auto_apply: checked })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div data-section="accessibility-settings" className="bg-card rounded-lg border p-6">
+            <h2 className="text-xl font-semibold mb-4">Accessibility</h2>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="high-contrast">High contrast</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Darker text and borders.
+                  </p>
+                </div>
+                <Switch
+                  id="high-contrast"
+                  checked={preferences.accessibility.high_contrast}
+                  disabled={isDisabled}
+                  onCheckedChange={(checked) => handleAccessibilityChange({ high_contrast: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="text-size">Text size</Label>
+                <Select
+                  value={preferences.accessibility.text_size}
+                  disabled={isDisabled}
+                  onValueChange={(value) =>
+                    handleAccessibilityChange({ text_size: value as AccessibilityPreferences['text_size'] })
+                  }
+                >
+                  <SelectTrigger id="text-size" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEXT_SIZE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <div data-section="privacy-settings" className="bg-card rounded-lg border p-6">
+            <h2 className="text-xl font-semibold mb-4">Privacy</h2>
+            <div className="space-y-4">
+              <div className="flex items-start gap-3 text-sm text-muted-foreground">
+                <Lock className="h-4 w-4 mt-0.5" />
+                <p>Your letters are private. Only you can read them, and they are only ever sent to you.</p>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="hide-previews">Hide goal previews</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Keep goals off the letter cards, for when someone can see your screen.
+                  </p>
+                </div>
+                <Switch
+                  id="hide-previews"
+                  checked={!!preferences.privacy.hide_previews}
+                  disabled={isDisabled}
+                  onCheckedChange={(checked) => handlePrivacyChange({ hide_previews: checked })}
+                />
+              </div>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getTokenUsage, recordAIEvent, toAIEventRow, type AIEvent } from '../ai-events'
+
+const event: AIEvent = {
+  userId: 'user-1',
+  eventType: 'field_enhancement',
+  input: { field: 'title', value: 'My goals' },
+  output: { suggestion: 'My 2025 goals', explanation: 'More specific' },
+  status: 'completed',
+  latencyMs: 812.4,
+  response: {
+    model: 'gpt-4o-mini-2024-07-18',
+    usage: { prompt_tokens: 120, completion_tokens: 40, total_tokens: 160 },
+  },
+}
+
+function createFakeSupabase(result: { data: unknown; error: unknown }) {
+  const insert = vi.fn(() => ({
+    select: () => ({ single: async () => result }),
+  }))
+  return { client: { from: vi.fn(() => ({ insert })) } as any, insert }
+}
+
+describe('AI events', () => {
+  it('reads token usage from the completion', () => {
+    expect(getTokenUsage(event.response)).toEqual({ prompt_tokens: 120, completion_tokens: 40, total_tokens: 160 })
+    expect(getTokenUsage(undefined)).toEqual({ prompt_tokens: null, completion_tokens: null, total_tokens: null })
+  })
+
+  it('drops negative token counts', () => {
+    expect(getTokenUsage({ usage: { prompt_tokens: -5, completion_tokens: 40, total_tokens: -1000 } })).toEqual({
+      prompt_tokens: null,
+      completion_tokens: 40,
+      total_tokens: null,
+    })
+  })
+
+  it('maps an event to an ai_events row', () => {
+    expect(toAIEventRow(event)).toEqual({
+      user_id: 'user-1',
+      letter_id: null,
+      event_type: 'field_enhancement',
+      input_data: event.input,
+      output_data: event.output,
+      status: 'completed',
+      model: 'gpt-4o-mini-2024-07-18',
+      latency_ms: 812,
+      prompt_tokens: 120,
+      completion_tokens: 40,
+      total_tokens: 160,
+    })
+  })
+
+  it('returns the id of the recorded row', async () => {
+    const { client, insert } = createFakeSupabase({ data: { id: 'event-1' }, error: null })
+
+    await expect(recordAIEvent(client, event)).resolves.toBe('event-1')
+    expect(client.from).toHaveBeenCalledWith('ai_events')
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ event_type: 'field_enhancement' }))
+  })
+
+  it('never fails the request when the insert does', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { client } = createFakeSupabase({ data: null, error: { message: 'violates check constraint' } })
+
+    await expect(recordAIEvent(client, event)).resolves.toBeNull()
+    consoleError.mockRestore()
+  })
+})
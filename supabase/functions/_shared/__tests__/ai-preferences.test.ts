@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { buildPersonaPrompt, resolveAIPreferences, withPersona } from '../ai-preferences'
+
+describe('AI preferences', () => {
+  it('falls back to a motivational tone in English', () => {
+    expect(resolveAIPreferences(null)).toEqual({ tone: 'motivational', language: 'en', autoApply: false, timeZone: 'UTC' })
+    expect(
+      resolveAIPreferences({ language: 'xx', timezone: 'Not/AZone', ai_preferences: { tone: 'sarcastic' } })
+    ).toEqual({
+      tone: 'motivational',
+      language: 'en',
+      autoApply: false,
+      timeZone: 'UTC',
+    })
+  })
+
+  it('reads the tone, language, auto-apply and timezone from the profile', () => {
+    expect(
+      resolveAIPreferences({
+        language: 'de',
+        timezone: 'Europe/Berlin',
+        ai_preferences: { tone: 'direct', auto_apply: true },
+      })
+    ).toEqual({ tone: 'direct', language: 'de', autoApply: true, timeZone: 'Europe/Berlin' })
+  })
+
+  it('only asks for another language when it is not English', () => {
+    expect(buildPersonaPrompt({ tone: 'gentle', language: 'en', autoApply: false, timeZone: 'UTC' })).not.toMatch(/write every/i)
+    expect(buildPersonaPrompt({ tone: 'gentle', language: 'es', autoApply: false, timeZone: 'UTC' })).toMatch(/in Spanish/)
+  })
+
+  it('appends the persona to the system prompt', () => {
+    const prompt = withPersona('You are an editor.', { tone: 'humorous', language: 'en', autoApply: false, timeZone: 'UTC' })
+
+    expect(prompt.startsWith('You are an editor.\n\nTone: ')).toBe(true)
+    expect(prompt).toMatch(/humour/)
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import {
+  EnhancementResponseSchema,
+  MilestoneInferenceResponseSchema,
+  MilestoneSuggestionResponseSchema,
+  clampDate,
+  getDateWindow,
+  getFieldAlternativesSchema,
+  getFieldEnhancementSchema,
+} from '../ai-schemas'
+import { MOCK_LLM_FIXTURES } from '../llm-fixtures'
+
+const milestone = { title: 'Run 10 km', percentage: 50, target_date: '2030-06-01', description: 'Keep going.' }
+
+describe('AI response schemas', () => {
+  it('accepts every mock fixture', () => {
+    const field = JSON.parse(MOCK_LLM_FIXTURES['enhance-field'])
+    expect(getFieldEnhancementSchema().safeParse(field).success).toBe(true)
+    expect(getFieldAlternativesSchema().safeParse(field).success).toBe(true)
+    expect(EnhancementResponseSchema.safeParse(JSON.parse(MOCK_LLM_FIXTURES['enhance-letter'])).success).toBe(true)
+    expect(MilestoneInferenceResponseSchema.safeParse(JSON.parse(MOCK_LLM_FIXTURES['infer-milestones'])).success).toBe(true)
+    expect(MilestoneSuggestionResponseSchema.safeParse(JSON.parse(MOCK_LLM_FIXTURES['suggest-milestones'])).success).toBe(true)
+  })
+
+  it('accepts suggested milestones as a bare array too', () => {
+    expect(MilestoneSuggestionResponseSchema.parse([milestone])).toEqual({ suggestedMilestones: [milestone] })
+  })
+
+  it('normalises small slips', () => {
+    const parsed = MilestoneSuggestionResponseSchema.parse({
+      suggestedMilestones: [{ title: ' Run 10 km ', percentage: '50', target_date: '2030-06-01T00:00:00Z' }],
+    })
+
+    expect(parsed.suggestedMilestones[0]).toEqual({ ...milestone, description: '' })
+  })
+
+  it('rejects milestones without a real date', () => {
+    const result = MilestoneSuggestionResponseSchema.safeParse([{ ...milestone, target_date: '2030-02-30' }])
+
+    expect(result.success).toBe(false)
+  })
+
+  it('drops an unusable due date on an inferred milestone instead of failing', () => {
+    const parsed = MilestoneInferenceResponseSchema.parse({
+      suggestedMilestones: [{ text: 'Run 10 km', reasoning: 'Halfway', dueDate: 'in three months' }],
+    })
+
+    expect(parsed.suggestedMilestones[0]).toEqual({ text: 'Run 10 km', reasoning: 'Halfway', dueDate: undefined })
+  })
+
+  it('requires the whole enhanced letter', () => {
+    const result = EnhancementResponseSchema.safeParse({ enhancedLetter: { title: 'T', goal: 'G' } })
+
+    expect(result.success).toBe(false)
+  })
+
+  describe('regenerated suggestions', () => {
+    it('rejects a suggestion the user has already seen', () => {
+      const result = getFieldEnhancementSchema(['My Goals for 2030']).safeParse({ suggestion: 'my goals, for 2030!' })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]).toMatchObject({ path: ['suggestion'], message: expect.stringMatching(/^Repeats/) })
+    })
+
+    it('rejects alternatives that repeat each other', () => {
+      const result = getFieldAlternativesSchema().safeParse({
+        alternatives: [{ suggestion: 'Run more' }, { suggestion: 'Run More.' }],
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0].path).toEqual(['alternatives', 1, 'suggestion'])
+    })
+  })
+
+  describe('date clamping', () => {
+    const now = new Date('2030-01-15T12:00:00Z')
+
+    it('keeps dates between today and the send date', () => {
+      const window = getDateWindow('2030-06-01', 'UTC', now)
+
+      expect(window).toEqual({ from: '2030-01-15', to: '2030-06-01' })
+      expect(clampDate('2029-12-01', window)).toBe('2030-01-15')
+      expect(clampDate('2030-03-01', window)).toBe('2030-03-01')
+      expect(clampDate('2031-01-01', window)).toBe('2030-06-01')
+    })
+
+    it("starts from today in the user's timezone", () => {
+      const lateEvening = new Date('2030-01-15T23:30:00Z')
+
+      expect(getDateWindow(undefined, 'Pacific/Auckland', lateEvening)).toEqual({ from: '2030-01-16' })
+      expect(getDateWindow(undefined, 'America/Los_Angeles', lateEvening)).toEqual({ from: '2030-01-15' })
+      expect(getDateWindow(undefined, 'Not/AZone', lateEvening)).toEqual({ from: '2030-01-15' })
+    })
+
+    it('only enforces today when the send date is missing, invalid or past', () => {
+      expect(getDateWindow(undefined, 'UTC', now)).toEqual({ from: '2030-01-15' })
+      expect(getDateWindow('soon', 'UTC', now)).toEqual({ from: '2030-01-15' })
+      expect(getDateWindow('2029-01-01', 'UTC', now)).toEqual({ from: '2030-01-15' })
+      expect(clampDate('2031-01-01', getDateWindow(undefined, 'UTC', now))).toBe('2031-01-01')
+    })
+  })
+})
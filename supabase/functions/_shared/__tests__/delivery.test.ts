@@ -0,0 +1,300 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { processDueNotifications, processMilestoneReminders, type MailSender } from '../delivery'
+
+// Minimal in-memory stand-in for the service-role Supabase client
+function createFakeSupabase(state: {
+  notifications: any[]
+  letters: any[]
+  profiles: any[]
+  milestones?: any[]
+  // How many completion calls fail before they start succeeding
+  completionFailures?: number
+  // Likewise for noting that the email went out
+  recordFailures?: number
+}) {
+  const tables: Record<string, any[]> = {
+    notifications: state.notifications,
+    letters: state.letters,
+    profiles: state.profiles,
+    milestones: state.milestones ?? [],
+  }
+
+  const rpc = vi.fn(async (name: string, args: any) => {
+    if (name === 'claim_due_notifications') {
+      const due = state.notifications.filter(
+        (n) =>
+          n.type === args.p_type &&
+          n.status === 'pending' &&
+          (n.next_attempt_at ?? n.scheduled_for) <= '2025-06-01T00:00:00Z'
+      )
+      due.forEach((n) => (n.status = 'processing'))
+      return { data: due.map((n) => ({ ...n })), error: null }
+    }
+    if (name === 'complete_letter_delivery') {
+      if (state.completionFailures) {
+        state.completionFailures--
+        return { data: null, error: { message: 'connection reset' } }
+      }
+      const notification = state.notifications.find((n) => n.id === args.p_notification_id)
+      notification.status = 'sent'
+      state.letters.find((l) => l.id === notification.letter_id).status = 'sent'
+      return { data: null, error: null }
+    }
+    if (name === 'enqueue_milestone_reminders') {
+      return { data: 0, error: null }
+    }
+    if (name === 'complete_milestone_reminder') {
+      const notification = state.notifications.find((n) => n.id === args.p_notification_id)
+      notification.status = 'sent'
+      tables.milestones.find((m) => m.id === notification.milestone_id).reminder_sent = true
+      return { data: null, error: null }
+    }
+    return { data: null, error: { message: `unknown rpc ${name}` } }
+  })
+
+  const from = (table: string) => ({
+    select: () => ({
+      eq: (column: string, value: unknown) => ({
+        maybeSingle: async () => ({
+          data: tables[table].find((row) => row[column] === value) ?? null,
+          error: null,
+        }),
+      }),
+    }),
+    update: (values: any) => ({
+      eq: async (column: string, value: unknown) => {
+        if ('email_sent_at' in values && state.recordFailures) {
+          state.recordFailures--
+          return { error: { message: 'connection reset' } }
+        }
+        tables[table]
+          .filter((row) => row[column] === value)
+          .forEach((row) => Object.assign(row, values))
+        return { error: null }
+      },
+    }),
+  })
+
+  const storage = {
+    from: (bucket: string) => ({
+      createSignedUrl: vi.fn(async (path: string, expiresIn: number) => ({
+        data: { signedUrl: `https://storage.test/${bucket}/${path}?expires=${expiresIn}` },
+        error: null,
+      })),
+    }),
+  }
+
+  return { rpc, from, storage } as any
+}
+
+describe('processDueNotifications', () => {
+  let state: { notifications: any[]; letters: any[]; profiles: any[] }
+  let sender: MailSender
+
+  beforeEach(() => {
+    state = {
+      notifications: [
+        { id: 'n1', user_id: 'u1', letter_id: 'l1', type: 'letter_delivery', status: 'pending', scheduled_for: '2025-05-01T00:00:00Z' },
+        { id: 'n2', user_id: 'u1', letter_id: 'l2', type: 'letter_delivery', status: 'pending', scheduled_for: '2025-07-01T00:00:00Z' },
+      ],
+      letters: [
+        { id: 'l1', user_id: 'u1', title: 'Due letter', content: 'Hello', goal: 'Run', send_date: '2025-05-01', status: 'scheduled' },
+        { id: 'l2', user_id: 'u1', title: 'Future letter', content: 'Later', goal: 'Swim', send_date: '2025-07-01', status: 'scheduled' },
+      ],
+      profiles: [{ user_id: 'u1', email: 'me@example.com' }],
+    }
+    sender = { name: 'stub', send: vi.fn(async () => ({ id: 'msg-1' })) }
+  })
+
+  it('sends due letters and marks them delivered', async () => {
+    const supabase = createFakeSupabase(state)
+
+    const summary = await processDueNotifications(supabase, sender)
+
+    expect(summary).toMatchObject({ claimed: 1, sent: 1, failed: 0, cancelled: 0 })
+    expect(sender.send).toHaveBeenCalledWith(
+      expect.objectContaining({ to: ['me@example.com'], subject: 'Letter: Due letter' })
+    )
+    expect(state.letters[0].status).toBe('sent')
+    expect(state.letters[1].status).toBe('scheduled')
+  })
+
+  it('links voice memos through a signed URL instead of the storage path', async () => {
+    state.letters[0].voice_memo_url = 'u1/memo.webm'
+    const supabase = createFakeSupabase(state)
+
+    await processDueNotifications(supabase, sender)
+
+    const [message] = (sender.send as any).mock.calls[0]
+    expect(message.html).toContain('https://storage.test/voice-memos/u1/memo.webm?expires=604800')
+    expect(message.text).toContain('Voice memo: https://storage.test/voice-memos/u1/memo.webm')
+  })
+
+  it('is idempotent when run twice', async () => {
+    const supabase = createFakeSupabase(state)
+
+    await processDueNotifications(supabase, sender)
+    const second = await processDueNotifications(supabase, sender)
+
+    expect(second.claimed).toBe(0)
+    expect(sender.send).toHaveBeenCalledTimes(1)
+  })
+
+  it('notes the sent email and retries a failed status update', async () => {
+    const supabase = createFakeSupabase({ ...state, completionFailures: 1 })
+
+    const summary = await processDueNotifications(supabase, sender)
+
+    expect(summary.sent).toBe(1)
+    expect(sender.send).toHaveBeenCalledTimes(1)
+    expect(state.notifications[0]).toMatchObject({ status: 'sent', provider_message_id: 'msg-1' })
+    expect(state.notifications[0].email_sent_at).toEqual(expect.any(String))
+  })
+
+  it('completes a reclaimed delivery without sending the email again', async () => {
+    const supabase = createFakeSupabase({ ...state, completionFailures: 3 })
+
+    const first = await processDueNotifications(supabase, sender)
+    expect(first.failed).toBe(1)
+    expect(first.results[0].error).toBe('Email sent but status update failed: connection reset')
+    expect(state.letters[0].status).toBe('scheduled')
+
+    // The stale `processing` row is claimed again by a later run
+    state.notifications[0].status = 'pending'
+    const second = await processDueNotifications(supabase, sender)
+
+    expect(second.sent).toBe(1)
+    expect(sender.send).toHaveBeenCalledTimes(1)
+    expect(state.letters[0].status).toBe('sent')
+  })
+
+  it('retries noting the sent email and reports when it could not be noted', async () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const retried = await processDueNotifications(createFakeSupabase({ ...state, recordFailures: 1 }), sender)
+
+    expect(retried.results[0].outcome).toBe('sent')
+    expect(retried.results[0].warning).toBeUndefined()
+    expect(state.notifications[0].email_sent_at).toEqual(expect.any(String))
+
+    state.notifications[0] = { id: 'n3', user_id: 'u1', letter_id: 'l2', type: 'letter_delivery', status: 'pending', scheduled_for: '2025-05-01T00:00:00Z' }
+    const lost = await processDueNotifications(createFakeSupabase({ ...state, recordFailures: 3 }), sender)
+
+    expect(lost.sent).toBe(1)
+    expect(lost.results[0].warning).toBe('Email sent but not recorded: connection reset')
+    expect(state.notifications[0].email_sent_at).toBeUndefined()
+    expect(errors).toHaveBeenCalled()
+    errors.mockRestore()
+  })
+
+  it('cancels notifications for letters that were already sent', async () => {
+    state.letters[0].status = 'sent'
+    const supabase = createFakeSupabase(state)
+
+    const summary = await processDueNotifications(supabase, sender)
+
+    expect(summary.cancelled).toBe(1)
+    expect(sender.send).not.toHaveBeenCalled()
+    expect(state.notifications[0].status).toBe('cancelled')
+  })
+
+  it('schedules a retry with backoff when the mail sender throws', async () => {
+    sender.send = vi.fn(async () => {
+      throw new Error('Mailbox unavailable')
+    })
+    const supabase = createFakeSupabase(state)
+
+    const before = Date.now()
+    const summary = await processDueNotifications(supabase, sender)
+
+    expect(summary.failed).toBe(1)
+    expect(state.notifications[0]).toMatchObject({
+      status: 'pending',
+      attempt_count: 1,
+      last_error: 'Mailbox unavailable',
+    })
+    expect(Date.parse(state.notifications[0].next_attempt_at)).toBeGreaterThanOrEqual(before + 60 * 1000)
+    expect(state.letters[0].status).toBe('scheduled')
+
+    // Not due again until the backoff has passed
+    const second = await processDueNotifications(supabase, sender)
+    expect(second.claimed).toBe(0)
+  })
+
+  it('dead-letters a notification once its attempts are used up', async () => {
+    sender.send = vi.fn(async () => {
+      throw new Error('Mailbox unavailable')
+    })
+    state.notifications[0].attempt_count = 4
+    const supabase = createFakeSupabase(state)
+
+    const summary = await processDueNotifications(supabase, sender)
+
+    expect(summary).toMatchObject({ failed: 0, deadLettered: 1 })
+    expect(state.notifications[0]).toMatchObject({
+      status: 'dead_letter',
+      attempt_count: 5,
+      next_attempt_at: null,
+      last_error: 'Mailbox unavailable',
+    })
+  })
+})
+
+describe('processMilestoneReminders', () => {
+  let state: any
+  let sender: MailSender
+
+  beforeEach(() => {
+    state = {
+      notifications: [
+        { id: 'r1', user_id: 'u1', letter_id: 'l1', milestone_id: 'm1', type: 'milestone_reminder', status: 'pending', scheduled_for: '2025-05-20T09:00:00Z' },
+      ],
+      letters: [],
+      milestones: [
+        {
+          id: 'm1',
+          letter_id: 'l1',
+          title: 'Run 5k',
+          target_date: '2025-05-27',
+          completed: false,
+          reminder_sent: false,
+          letter: { title: 'Fitness', goal: 'Run a marathon', status: 'scheduled' },
+        },
+      ],
+      profiles: [{ user_id: 'u1', email: 'me@example.com', notification_preferences: { email: true } }],
+    }
+    sender = { name: 'stub', send: vi.fn(async () => ({ id: 'msg-1' })) }
+  })
+
+  it('enqueues with the given lead days and sends due reminders', async () => {
+    const supabase = createFakeSupabase(state)
+
+    const summary = await processMilestoneReminders(supabase, sender, { leadDays: [3] })
+
+    expect(supabase.rpc).toHaveBeenCalledWith('enqueue_milestone_reminders', { p_lead_days: [3] })
+    expect(summary.sent).toBe(1)
+    expect(sender.send).toHaveBeenCalledWith(
+      expect.objectContaining({ subject: 'Milestone reminder: Run 5k' })
+    )
+    expect(state.milestones[0].reminder_sent).toBe(true)
+  })
+
+  it('skips milestones completed after the reminder was queued', async () => {
+    state.milestones[0].completed = true
+    const supabase = createFakeSupabase(state)
+
+    const summary = await processMilestoneReminders(supabase, sender)
+
+    expect(summary.cancelled).toBe(1)
+    expect(sender.send).not.toHaveBeenCalled()
+  })
+
+  it('respects the milestone reminder opt-out', async () => {
+    state.profiles[0].notification_preferences = { email: true, milestone_reminders: false }
+    const supabase = createFakeSupabase(state)
+
+    const summary = await processMilestoneReminders(supabase, sender)
+
+    expect(summary.cancelled).toBe(1)
+    expect(state.notifications[0].error_message).toBe('User opted out of milestone reminders')
+  })
+})
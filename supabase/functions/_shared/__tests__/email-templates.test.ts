@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatEmailDate,
+  renderLetterDeliveryEmail,
+  renderMilestoneReminderEmail,
+  renderProgressUpdateEmail,
+  renderWelcomeEmail,
+  type EmailLetter,
+} from '../email-templates'
+
+const letter: EmailLetter = {
+  id: 'letter-1',
+  title: 'My 2025 Goals',
+  content: 'Dear Future Me,\n\nKeep going.',
+  goal: 'Launch the side project',
+  send_date: '2025-12-31',
+  created_at: '2025-01-01T09:00:00Z',
+  personal_comments: 'Written on a rainy morning.',
+  voice_memo_url: 'https://example.com/memo.mp3',
+  milestones: [
+    { id: 'm2', title: 'Ship the beta', target_date: '2025-09-01', completed: false, description: 'Ten real users.' },
+    { id: 'm1', title: 'Build the prototype', target_date: '2025-06-01', completed: true },
+  ],
+}
+
+const options = {
+  appUrl: 'https://app.example.com/',
+  timeZone: 'UTC',
+  now: new Date('2025-08-25T12:00:00Z'),
+}
+
+describe('email templates', () => {
+  it('renders the letter delivery email', () => {
+    const email = renderLetterDeliveryEmail(letter, options)
+
+    expect(email.subject).toBe('Letter: My 2025 Goals')
+    expect(email.html).toMatchSnapshot()
+    expect(email.text).toMatchSnapshot()
+  })
+
+  it('renders the milestone reminder email', () => {
+    const email = renderMilestoneReminderEmail(letter.milestones![0], letter, options)
+
+    expect(email.subject).toBe('Milestone reminder: Ship the beta')
+    expect(email.text).toContain('Your milestone is due in 7 days')
+    expect(email.html).toMatchSnapshot()
+    expect(email.text).toMatchSnapshot()
+  })
+
+  it('keeps the goal of a sealed letter out of the milestone reminder', () => {
+    const email = renderMilestoneReminderEmail(letter.milestones![0], { ...letter, is_locked: true }, options)
+
+    expect(email.html).not.toContain('Launch the side project')
+    expect(email.text).not.toContain('Launch the side project')
+    expect(email.html).toContain('Sealed until delivery')
+    expect(email.text).toContain('PART OF: My 2025 Goals\nSealed until delivery')
+  })
+
+  it('renders the welcome email', () => {
+    const email = renderWelcomeEmail({ full_name: 'Alex Morgan' }, options)
+
+    expect(email.subject).toBe('Welcome to FutureLetter AI')
+    expect(email.html).toMatchSnapshot()
+    expect(email.text).toMatchSnapshot()
+  })
+
+  it('renders the progress update email', () => {
+    const email = renderProgressUpdateEmail(letter, options)
+
+    expect(email.subject).toBe('Progress update: My 2025 Goals (50% complete)')
+    expect(email.html).toMatchSnapshot()
+    expect(email.text).toMatchSnapshot()
+  })
+
+  it('leaves out optional sections and links', () => {
+    const email = renderLetterDeliveryEmail({ ...letter, milestones: [], personal_comments: null, voice_memo_url: null })
+
+    expect(email.html).not.toContain('Your Milestones')
+    expect(email.html).not.toContain('Voice Memo')
+    expect(email.html).not.toContain('<a href')
+    expect(email.text).not.toContain('Open your letter')
+  })
+
+  it('does not shift calendar dates across timezones', () => {
+    expect(formatEmailDate('2025-12-31', 'Pacific/Honolulu')).toBe('December 31, 2025')
+    expect(formatEmailDate('2025-12-31T20:00:00Z', 'Asia/Tokyo')).toBe('January 1, 2026')
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildAlternativesFormat,
+  buildAvoidPrompt,
+  getEnhancementStyles,
+  isRepeatedSuggestion,
+} from '../enhancement-styles'
+
+describe('enhancement styles', () => {
+  it('offers SMART first, and only for goals', () => {
+    expect(getEnhancementStyles('goal')).toEqual(['smart', 'concise', 'vivid'])
+    expect(getEnhancementStyles('title')).toEqual(['concise', 'vivid'])
+  })
+
+  it('asks for one alternative per style, in order', () => {
+    const format = buildAlternativesFormat(['concise', 'vivid'], 'enhanced title')
+
+    expect(format).toMatch(/"alternatives"/)
+    expect(format.indexOf('"style": "concise"')).toBeLessThan(format.indexOf('"style": "vivid"'))
+    expect(format).toMatch(/- vivid: /)
+  })
+
+  it('lists earlier suggestions, cutting long ones short', () => {
+    expect(buildAvoidPrompt([])).toBe('')
+
+    const prompt = buildAvoidPrompt(['Short', 'x'.repeat(400)])
+    expect(prompt).toContain('- "Short"')
+    expect(prompt).toContain(`- "${'x'.repeat(300)}..."`)
+  })
+
+  it('ignores case, spacing and punctuation when spotting repeats', () => {
+    expect(isRepeatedSuggestion('  A year of  small steps!', ['A Year of Small Steps'])).toBe(true)
+    expect(isRepeatedSuggestion('A year of big steps', ['A Year of Small Steps'])).toBe(false)
+  })
+})
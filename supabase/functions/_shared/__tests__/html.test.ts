@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { escapeHtml, renderSafeMarkdown, sanitizeUrl, toSingleLine } from '../html'
+import { renderLetterDeliveryEmail } from '../email-templates'
+
+describe('escapeHtml', () => {
+  it('escapes markup and attribute-breaking characters', () => {
+    expect(escapeHtml('<script>alert("x")</script>')).toBe('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;')
+    expect(escapeHtml(`" onmouseover='x'`)).toBe('&quot; onmouseover=&#39;x&#39;')
+    expect(escapeHtml('Tom & Jerry &amp;')).toBe('Tom &amp; Jerry &amp;amp;')
+    expect(escapeHtml(null)).toBe('')
+  })
+})
+
+describe('sanitizeUrl', () => {
+  it('allows absolute http(s) and mailto links', () => {
+    expect(sanitizeUrl('https://example.com/a?b=1&c=2')).toBe('https://example.com/a?b=1&c=2')
+    expect(sanitizeUrl('mailto:me@example.com')).toBe('mailto:me@example.com')
+  })
+
+  it('rejects script, data and obfuscated URLs', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toBeUndefined()
+    expect(sanitizeUrl('JaVaScRiPt:alert(1)')).toBeUndefined()
+    expect(sanitizeUrl('java\tscript:alert(1)')).toBeUndefined()
+    expect(sanitizeUrl('\u0001javascript:alert(1)')).toBeUndefined()
+    expect(sanitizeUrl('data:text/html;base64,PHNjcmlwdD4=')).toBeUndefined()
+    expect(sanitizeUrl('vbscript:msgbox(1)')).toBeUndefined()
+    expect(sanitizeUrl('/relative/path')).toBeUndefined()
+    expect(sanitizeUrl('')).toBeUndefined()
+  })
+})
+
+describe('toSingleLine', () => {
+  it('strips header-injecting line breaks', () => {
+    expect(toSingleLine('Hello\r\nBcc: victim@example.com')).toBe('Hello Bcc: victim@example.com')
+  })
+})
+
+describe('renderSafeMarkdown', () => {
+  it('renders paragraphs, line breaks, emphasis and lists', () => {
+    const html = renderSafeMarkdown('Dear **Future** Me,\nhi *there*\n\n- one\n- two\n\n1. first\n2. second')
+
+    expect(html).toBe(
+      '<p>Dear <strong>Future</strong> Me,<br>hi <em>there</em></p>\n' +
+      '<ul><li>one</li><li>two</li></ul>\n' +
+      '<ol><li>first</li><li>second</li></ol>'
+    )
+  })
+
+  it('renders safe links and drops unsafe ones to plain text', () => {
+    expect(renderSafeMarkdown('[docs](https://example.com/?a=1&b="2")')).toBe(
+      '<p><a href="https://example.com/?a=1&amp;b=&quot;2&quot;">docs</a></p>'
+    )
+    expect(renderSafeMarkdown('[click me](javascript:alert`1`)')).toBe('<p>click me</p>')
+  })
+
+  it('never lets raw HTML through', () => {
+    const hostile = [
+      '<img src=x onerror=alert(1)>',
+      '**<script>alert(1)</script>**',
+      '[<b>x</b>](https://example.com)',
+      '- <iframe src="https://evil.example"></iframe>',
+      '[x](https://example.com" onclick="alert(1))',
+    ].join('\n\n')
+
+    const html = renderSafeMarkdown(hostile)
+
+    expect(html).not.toMatch(/<(img|script|iframe|b)[\s>]/)
+    expect(html).not.toContain('onclick="')
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;')
+    expect(html).toContain('<strong>&lt;script&gt;alert(1)&lt;/script&gt;</strong>')
+  })
+
+  it('applies the given inline styles', () => {
+    expect(renderSafeMarkdown('hi', { paragraph: 'margin: 0;' })).toBe('<p style="margin: 0;">hi</p>')
+  })
+})
+
+describe('user content in emails', () => {
+  it('escapes every user-controlled field of a letter', () => {
+    const email = renderLetterDeliveryEmail({
+      id: 'letter-1',
+      title: '</title><script>alert("title")</script>',
+      content: '<img src=x onerror=alert(1)>',
+      goal: '"><svg onload=alert(1)>',
+      send_date: '2025-12-31',
+      personal_comments: '<style>body{display:none}</style>',
+      voice_memo_url: 'javascript:alert(1)',
+      milestones: [
+        { id: 'm1', title: '<a href="https://evil.example">win</a>', target_date: '2025-06-01', completed: false },
+      ],
+    })
+
+    expect(email.html).not.toMatch(/<(script|img|svg|style)[\s>]/)
+    expect(email.html).not.toContain('https://evil.example">')
+    expect(email.html).not.toContain('javascript:')
+    expect(email.html).toContain('&lt;/title&gt;&lt;script&gt;')
+    expect(email.subject).toBe('Letter: </title><script>alert("title")</script>')
+  })
+
+  it('keeps the body as escaped plain text when Markdown is off', () => {
+    const email = renderLetterDeliveryEmail(
+      { id: 'l', title: 't', content: '**not bold** <b>', goal: 'g', send_date: '2025-12-31' },
+      { markdown: false }
+    )
+
+    expect(email.html).toContain('**not bold** &lt;b&gt;')
+  })
+})
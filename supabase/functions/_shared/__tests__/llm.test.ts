@@ -0,0 +1,297 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  createAnthropicProvider,
+  createLLMProvider,
+  createMockProvider,
+  createOpenAIProvider,
+  resolveCallOptions,
+  resolveLLMSettings,
+  type LLMRequest,
+} from '../llm'
+import { MOCK_LLM_FIXTURES } from '../llm-fixtures'
+
+const env = (values: Record<string, string>) => (name: string) => values[name]
+
+const request: LLMRequest = {
+  name: 'enhance-field',
+  messages: [
+    { role: 'system', content: 'You are an editor.' },
+    { role: 'user', content: 'Improve "My goals"' },
+  ],
+  model: 'test-model',
+  maxTokens: 500,
+  temperature: 0.7,
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+describe('LLM providers', () => {
+  describe('settings', () => {
+    it('defaults to OpenAI and accepts the old OPENAI_API_KEY', () => {
+      expect(resolveLLMSettings(env({ OPENAI_API_KEY: 'sk-test' }))).toEqual({
+        settings: { provider: 'openai', model: 'gpt-4o-mini', apiKey: 'sk-test', baseUrl: undefined },
+      })
+      expect(resolveLLMSettings(env({})).error).toBe('OpenAI API key not configured')
+    })
+
+    it('rejects an unknown provider', () => {
+      expect(resolveLLMSettings(env({ LLM_PROVIDER: 'skynet' })).error).toMatch(/Unknown LLM_PROVIDER "skynet"/)
+    })
+
+    it('needs a base URL for an OpenAI-compatible endpoint but no key', () => {
+      expect(resolveLLMSettings(env({ LLM_PROVIDER: 'openai-compatible' })).error).toMatch(/LLM_BASE_URL/)
+      expect(
+        resolveLLMSettings(
+          env({ LLM_PROVIDER: 'openai-compatible', LLM_BASE_URL: 'http://localhost:11434/v1', LLM_MODEL: 'qwen2.5' })
+        ).settings
+      ).toEqual({ provider: 'openai-compatible', model: 'qwen2.5', apiKey: undefined, baseUrl: 'http://localhost:11434/v1' })
+    })
+
+    it('runs the mock without any credentials', () => {
+      expect(resolveLLMSettings(env({ LLM_PROVIDER: 'mock' })).settings?.provider).toBe('mock')
+    })
+
+    it('lets each function override the model, temperature and max tokens', () => {
+      const getEnv = env({
+        LLM_MODEL_INFER_MILESTONES: 'gpt-4o',
+        LLM_TEMPERATURE_INFER_MILESTONES: '0.2',
+        LLM_MAX_TOKENS_INFER_MILESTONES: '1200',
+        LLM_TEMPERATURE_ENHANCE_FIELD: 'hot',
+      })
+      const defaults = { maxTokens: 800, temperature: 0.7 }
+
+      expect(resolveCallOptions('infer-milestones', defaults, { model: 'gpt-4o-mini' }, getEnv)).toEqual({
+        model: 'gpt-4o',
+        maxTokens: 1200,
+        temperature: 0.2,
+      })
+      expect(resolveCallOptions('enhance-field', defaults, { model: 'gpt-4o-mini' }, getEnv)).toEqual({
+        model: 'gpt-4o-mini',
+        maxTokens: 800,
+        temperature: 0.7,
+      })
+    })
+  })
+
+  it('calls the OpenAI chat completions API', async () => {
+    const fetch = vi.fn(async () =>
+      jsonResponse({
+        model: 'gpt-4o-mini-2024-07-18',
+        choices: [{ message: { content: 'Better goals' } }],
+        usage: { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 },
+      })
+    )
+
+    const response = await createOpenAIProvider({ apiKey: 'sk-test' }, fetch).complete(request)
+
+    expect(response).toEqual({
+      content: 'Better goals',
+      model: 'gpt-4o-mini-2024-07-18',
+      usage: { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 },
+    })
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('https://api.openai.com/v1/chat/completions')
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer sk-test')
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'test-model',
+      messages: request.messages,
+      max_tokens: 500,
+      temperature: 0.7,
+    })
+  })
+
+  it('talks to an OpenAI-compatible server without a key', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ choices: [{ message: { content: 'ok' } }] }))
+    const provider = createLLMProvider(
+      { provider: 'openai-compatible', model: 'llama3.1', baseUrl: 'http://localhost:11434/v1/' },
+      {},
+      fetch
+    )
+
+    const response = await provider.complete(request)
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('http://localhost:11434/v1/chat/completions')
+    expect(init.headers).not.toHaveProperty('Authorization')
+    expect(response.usage.total_tokens).toBeNull()
+  })
+
+  it('sends the system prompt separately to Anthropic', async () => {
+    const fetch = vi.fn(async () =>
+      jsonResponse({
+        model: 'claude-3-5-haiku-20241022',
+        content: [{ type: 'text', text: 'Better goals' }],
+        usage: { input_tokens: 18, output_tokens: 4 },
+      })
+    )
+
+    const response = await createAnthropicProvider({ apiKey: 'key' }, fetch).complete(request)
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+    const body = JSON.parse(init.body as string)
+    expect(url).toBe('https://api.anthropic.com/v1/messages')
+    expect((init.headers as Record<string, string>)['x-api-key']).toBe('key')
+    expect(body.system).toBe('You are an editor.')
+    expect(body.messages).toEqual([{ role: 'user', content: 'Improve "My goals"' }])
+    expect(response).toEqual({
+      content: 'Better goals',
+      model: 'claude-3-5-haiku-20241022',
+      usage: { prompt_tokens: 18, completion_tokens: 4, total_tokens: 22 },
+    })
+  })
+
+  it('reports the status and body of a failed call', async () => {
+    const fetch = vi.fn(async () => new Response('overloaded', { status: 529 }))
+
+    await expect(createAnthropicProvider({ apiKey: 'key' }, fetch).complete(request)).rejects.toThrow(
+      'Anthropic API error: 529 - overloaded'
+    )
+  })
+
+  it('asks for JSON mode from OpenAI and prefills the reply for Anthropic', async () => {
+    const openAIFetch = vi.fn(async () => jsonResponse({ choices: [{ message: { content: '{"a":1}' } }] }))
+    await createOpenAIProvider({ apiKey: 'sk-test' }, openAIFetch).complete({ ...request, responseFormat: 'json' })
+    const [, openAIInit] = openAIFetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(JSON.parse(openAIInit.body as string).response_format).toEqual({ type: 'json_object' })
+
+    const anthropicFetch = vi.fn(async () => jsonResponse({ content: [{ type: 'text', text: '"a":1}' }] }))
+    const response = await createAnthropicProvider({ apiKey: 'key' }, anthropicFetch).complete({
+      ...request,
+      responseFormat: 'json',
+    })
+    const [, anthropicInit] = anthropicFetch.mock.calls[0] as unknown as [string, RequestInit]
+    expect(JSON.parse(anthropicInit.body as string).messages.at(-1)).toEqual({ role: 'assistant', content: '{' })
+    expect(response.content).toBe('{"a":1}')
+  })
+
+  describe('streaming', () => {
+    const eventStream = (body: string) =>
+      new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+
+    it('streams OpenAI deltas and picks up the usage from the last chunk', async () => {
+      const fetch = vi.fn(async () =>
+        eventStream(
+          [
+            'data: {"model":"gpt-4o-mini-2024-07-18","choices":[{"delta":{"content":"Better"}}]}',
+            'data: {"choices":[{"delta":{"content":" goals"}}]}',
+            'data: {"choices":[],"usage":{"prompt_tokens":20,"completion_tokens":2,"total_tokens":22}}',
+            'data: [DONE]',
+            '',
+          ].join('\n\n')
+        )
+      )
+      const deltas: string[] = []
+
+      const response = await createOpenAIProvider({ apiKey: 'sk-test' }, fetch).stream(request, (text) => deltas.push(text))
+
+      const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+      expect(JSON.parse(init.body as string)).toMatchObject({ stream: true, stream_options: { include_usage: true } })
+      expect(deltas).toEqual(['Better', ' goals'])
+      expect(response).toEqual({
+        content: 'Better goals',
+        model: 'gpt-4o-mini-2024-07-18',
+        usage: { prompt_tokens: 20, completion_tokens: 2, total_tokens: 22 },
+      })
+    })
+
+    it('streams Anthropic text deltas, including the JSON prefill', async () => {
+      const fetch = vi.fn(async () =>
+        eventStream(
+          [
+            'event: message_start\ndata: {"message":{"model":"claude-3-5-haiku-20241022","usage":{"input_tokens":18}}}',
+            'event: content_block_delta\ndata: {"delta":{"type":"text_delta","text":"\\"a\\":1}"}}',
+            'event: message_delta\ndata: {"usage":{"output_tokens":4}}',
+            'event: message_stop\ndata: {}',
+            '',
+          ].join('\n\n')
+        )
+      )
+      const deltas: string[] = []
+
+      const response = await createAnthropicProvider({ apiKey: 'key' }, fetch).stream(
+        { ...request, responseFormat: 'json' },
+        (text) => deltas.push(text)
+      )
+
+      expect(deltas).toEqual(['{', '"a":1}'])
+      expect(response).toEqual({
+        content: '{"a":1}',
+        model: 'claude-3-5-haiku-20241022',
+        usage: { prompt_tokens: 18, completion_tokens: 4, total_tokens: 22 },
+      })
+    })
+
+    it('fails on an Anthropic error event', async () => {
+      const fetch = vi.fn(async () => eventStream('event: error\ndata: {"error":{"message":"Overloaded"}}\n\n'))
+
+      await expect(createAnthropicProvider({ apiKey: 'key' }, fetch).stream(request, () => {})).rejects.toThrow(
+        'Anthropic API error: Overloaded'
+      )
+    })
+
+    it('passes the abort signal to the request', async () => {
+      const controller = new AbortController()
+      const fetch = vi.fn(async () => eventStream('data: [DONE]\n\n'))
+
+      await createOpenAIProvider({ apiKey: 'sk-test' }, fetch).stream(request, () => {}, controller.signal)
+
+      const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit]
+      expect(init.signal).toBe(controller.signal)
+    })
+
+    it('streams a mock fixture in pieces that add up to the answer', async () => {
+      const mock = createMockProvider(MOCK_LLM_FIXTURES)
+      const deltas: string[] = []
+
+      const response = await mock.stream(request, (text) => deltas.push(text))
+
+      expect(deltas.length).toBeGreaterThan(1)
+      expect(deltas.join('')).toBe(response.content)
+      expect(response).toEqual(await mock.complete(request))
+    })
+  })
+
+  describe('mock', () => {
+    const mock = createMockProvider(MOCK_LLM_FIXTURES)
+
+    it('answers the same way every time', async () => {
+      const first = await mock.complete(request)
+      const second = await mock.complete(request)
+
+      expect(first).toEqual(second)
+      expect(first.usage.total_tokens).toBeGreaterThan(0)
+    })
+
+    it('fails for a function without a fixture', async () => {
+      await expect(mock.complete({ ...request, name: 'write-novel' })).rejects.toThrow(/No mock fixture/)
+    })
+
+    // Each function parses its answer the same way; the fixtures must survive that
+    it('has a well-formed answer for every AI function', async () => {
+      const answer = async (name: string) => (await mock.complete({ ...request, name })).content
+
+      const field = JSON.parse(await answer('enhance-field'))
+      expect(field).toMatchObject({ suggestion: expect.any(String), explanation: expect.any(String) })
+      expect(field.alternatives.map((alternative: { style: string }) => alternative.style)).toEqual(['concise', 'vivid', 'smart'])
+      expect((await answer('enhance-goal')).length).toBeGreaterThan(0)
+
+      const letter = JSON.parse(await answer('enhance-letter'))
+      expect(letter.enhancedLetter).toEqual({ title: expect.any(String), goal: expect.any(String), content: expect.any(String) })
+
+      const inferred = JSON.parse(await answer('infer-milestones'))
+      expect(inferred.suggestedMilestones.length).toBeGreaterThan(0)
+      inferred.suggestedMilestones.forEach((milestone: Record<string, string>) => {
+        expect(milestone.text && milestone.reasoning).toBeTruthy()
+        expect(milestone.dueDate).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+      })
+
+      const suggested = JSON.parse(await answer('suggest-milestones')).suggestedMilestones
+      expect(Array.isArray(suggested)).toBe(true)
+      suggested.forEach((milestone: Record<string, unknown>) => {
+        expect(milestone.title && milestone.percentage && milestone.target_date).toBeTruthy()
+      })
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  DEFAULT_MAIL_FROM,
+  createMemoryOutbox,
+  createOutboxSender,
+  createTableOutboxWriter,
+  resolveMailSettings,
+  withMailSettings,
+} from '../mailer'
+
+const env = (values: Record<string, string>) => (name: string) => values[name]
+
+const message = { to: ['alex@example.com'], subject: 'Hello', html: '<p>Hi</p>', text: 'Hi' }
+
+describe('mail settings', () => {
+  it('defaults to Resend with the brand sender', () => {
+    expect(resolveMailSettings(env({}))).toEqual({
+      settings: { provider: 'resend', from: DEFAULT_MAIL_FROM, replyTo: undefined },
+    })
+  })
+
+  it('reads the provider, sender and reply-to from the environment', () => {
+    const { settings } = resolveMailSettings(
+      env({ MAIL_PROVIDER: 'SMTP', MAIL_FROM: 'Letters <letters@example.com>', MAIL_REPLY_TO: 'help@example.com' })
+    )
+    expect(settings).toEqual({
+      provider: 'smtp',
+      from: 'Letters <letters@example.com>',
+      replyTo: 'help@example.com',
+    })
+  })
+
+  it('rejects unknown providers', () => {
+    expect(resolveMailSettings(env({ MAIL_PROVIDER: 'carrier-pigeon' })).error).toMatch(/Unknown MAIL_PROVIDER/)
+  })
+
+  it('fills in from and reply-to without overriding explicit values', async () => {
+    const { sender, messages } = createMemoryOutbox()
+    const configured = withMailSettings(sender, { from: 'a@example.com', replyTo: 'b@example.com' })
+
+    await configured.send(message)
+    await configured.send({ ...message, from: 'c@example.com' })
+
+    expect(messages.map((m) => [m.from, m.replyTo])).toEqual([
+      ['a@example.com', 'b@example.com'],
+      ['c@example.com', 'b@example.com'],
+    ])
+  })
+})
+
+describe('outbox', () => {
+  it('keeps every message with an id and timestamp', async () => {
+    const { sender, messages } = createMemoryOutbox()
+
+    const { id } = await sender.send(message)
+
+    expect(messages).toHaveLength(1)
+    expect(messages[0]).toMatchObject({ ...message, id })
+    expect(Date.parse(messages[0].created_at)).not.toBeNaN()
+  })
+
+  it('inserts rows into email_outbox', async () => {
+    const insert = vi.fn(async () => ({ error: null }))
+    const supabase = { from: vi.fn(() => ({ insert })) } as unknown as SupabaseClient
+    const sender = createOutboxSender(createTableOutboxWriter(supabase))
+
+    const { id } = await sender.send({ ...message, from: 'a@example.com' })
+
+    expect(supabase.from).toHaveBeenCalledWith('email_outbox')
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id,
+        to_addresses: ['alex@example.com'],
+        from_address: 'a@example.com',
+        reply_to: null,
+        subject: 'Hello',
+        html: '<p>Hi</p>',
+        text: 'Hi',
+      })
+    )
+  })
+
+  it('surfaces insert failures so the delivery is retried', async () => {
+    const insert = vi.fn(async () => ({ error: { message: 'permission denied' } }))
+    const supabase = { from: () => ({ insert }) } as unknown as SupabaseClient
+    const sender = createOutboxSender(createTableOutboxWriter(supabase))
+
+    await expect(sender.send(message)).rejects.toThrow('Failed to write to outbox: permission denied')
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_MONTHLY_TOKEN_BUDGET,
+  getRateLimitConfig,
+  toRateLimitDecision,
+  withTokensUsed,
+} from '../rate-limit'
+
+const env = (values: Record<string, string>) => (name: string) => values[name]
+
+describe('rate limit', () => {
+  it('uses the per-function defaults', () => {
+    expect(getRateLimitConfig('infer-milestones', env({}))).toEqual({
+      windowSeconds: 60,
+      maxRequests: 5,
+      monthlyTokenBudget: DEFAULT_MONTHLY_TOKEN_BUDGET,
+    })
+    expect(getRateLimitConfig('enhance-field', env({})).maxRequests).toBe(10)
+  })
+
+  it('lets the environment override the limits', () => {
+    expect(
+      getRateLimitConfig(
+        'enhance-field',
+        env({ AI_RATE_LIMIT_WINDOW_SECONDS: '30', AI_RATE_LIMIT_MAX_REQUESTS: '3', AI_MONTHLY_TOKEN_BUDGET: '0' })
+      )
+    ).toEqual({ windowSeconds: 30, maxRequests: 3, monthlyTokenBudget: 0 })
+    expect(getRateLimitConfig('enhance-field', env({ AI_RATE_LIMIT_MAX_REQUESTS: 'lots' })).maxRequests).toBe(10)
+  })
+
+  it('reads the database decision', () => {
+    expect(
+      toRateLimitDecision({
+        allowed: false,
+        reason: 'rate_limit',
+        retry_after_seconds: 42,
+        remaining_requests: 0,
+        tokens_used: 1200,
+        token_budget: 200000,
+        resets_at: '2025-09-01T00:00:00+00:00',
+      })
+    ).toEqual({
+      allowed: false,
+      reason: 'rate_limit',
+      retryAfterSeconds: 42,
+      quota: { remainingRequests: 0, tokensUsed: 1200, tokenBudget: 200000, resetsAt: '2025-09-01T00:00:00+00:00' },
+    })
+  })
+
+  it('reports no budget when the monthly limit is off', () => {
+    const decision = toRateLimitDecision({ allowed: true, remaining_requests: 4, tokens_used: 0, token_budget: 0 })
+
+    expect(decision.allowed).toBe(true)
+    expect(decision.quota.tokenBudget).toBeNull()
+  })
+
+  it('adds the tokens a call used to the quota', () => {
+    const quota = { remainingRequests: 4, tokensUsed: 1000, tokenBudget: 5000, resetsAt: '' }
+
+    expect(withTokensUsed(quota, 250).tokensUsed).toBe(1250)
+    expect(withTokensUsed(quota, null).tokensUsed).toBe(1000)
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_RETRY_POLICY, getRetryDelay, planRetry } from '../retry'
+
+describe('retry policy', () => {
+  const now = new Date('2025-06-01T00:00:00Z')
+
+  it('doubles the delay after every failed attempt, up to the cap', () => {
+    expect([1, 2, 3, 4].map((n) => getRetryDelay(n))).toEqual([60_000, 120_000, 240_000, 480_000])
+    expect(getRetryDelay(30)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs)
+  })
+
+  it('schedules the next attempt from the current attempt count', () => {
+    expect(planRetry(0, now)).toEqual({
+      status: 'pending',
+      attemptCount: 1,
+      nextAttemptAt: new Date('2025-06-01T00:01:00Z'),
+    })
+    expect(planRetry(2, now).nextAttemptAt).toEqual(new Date('2025-06-01T00:04:00Z'))
+  })
+
+  it('gives up after the last allowed attempt', () => {
+    expect(planRetry(4, now)).toEqual({ status: 'dead_letter', attemptCount: 5, nextAttemptAt: null })
+    expect(planRetry(0, now, { maxAttempts: 1, baseDelayMs: 1000, maxDelayMs: 1000 }).status).toBe('dead_letter')
+  })
+})
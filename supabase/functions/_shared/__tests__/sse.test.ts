@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { formatServerSentEvent, readServerSentEvents, type ServerSentEvent } from '../sse'
+
+// A body delivered in the given pieces, split wherever the test likes
+function streamOf(...chunks: string[]) {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  })
+}
+
+async function collect(body: ReadableStream<Uint8Array>, signal?: AbortSignal) {
+  const events: ServerSentEvent[] = []
+  for await (const event of readServerSentEvents(body, signal)) events.push(event)
+  return events
+}
+
+describe('server-sent events', () => {
+  it('formats an event with JSON data', () => {
+    expect(formatServerSentEvent('delta', { text: 'Hi' })).toBe('event: delta\ndata: {"text":"Hi"}\n\n')
+  })
+
+  it('reads events split across chunks', async () => {
+    const events = await collect(streamOf('event: delta\ndata: {"te', 'xt":"Hi"}\n', '\ndata: [DONE]\n\n'))
+
+    expect(events).toEqual([
+      { event: 'delta', data: '{"text":"Hi"}' },
+      { event: 'message', data: '[DONE]' },
+    ])
+  })
+
+  it('ignores comments, joins multi-line data and reads a last event without a blank line', async () => {
+    const events = await collect(streamOf(': keep-alive\r\n\r\ndata: one\r\ndata: two\r\n\r\nevent: done\ndata: {}'))
+
+    expect(events).toEqual([
+      { event: 'message', data: 'one\ntwo' },
+      { event: 'done', data: '{}' },
+    ])
+  })
+
+  it('stops reading once the signal aborts', async () => {
+    const controller = new AbortController()
+    const body = new ReadableStream<Uint8Array>({
+      start(stream) {
+        stream.enqueue(new TextEncoder().encode('data: first\n\n'))
+      },
+    })
+
+    const events: ServerSentEvent[] = []
+    for await (const event of readServerSentEvents(body, controller.signal)) {
+      events.push(event)
+      controller.abort()
+    }
+
+    expect(events).toEqual([{ event: 'message', data: 'first' }])
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest'
+import { z } from 'https://esm.sh/zod@3.23.8'
+import { completeStructured, extractJSON, parseStructured, readPartialJSONString } from '../structured-output'
+import type { ChatMessage, LLMResponse } from '../llm'
+
+const schema = z.object({ suggestion: z.string().min(1), explanation: z.string().default('') })
+
+const reply = (content: string, total = 10): LLMResponse => ({
+  content,
+  model: 'test-model',
+  usage: { prompt_tokens: total - 2, completion_tokens: 2, total_tokens: total },
+})
+
+const messages: ChatMessage[] = [
+  { role: 'system', content: 'Respond with JSON.' },
+  { role: 'user', content: 'Improve "My goals"' },
+]
+
+describe('structured output', () => {
+  describe('extractJSON', () => {
+    it('finds JSON inside code fences and prose', () => {
+      expect(extractJSON('Sure! Here you go:\n```json\n{"a": 1}\n```\nHope that helps.')).toBe('{"a": 1}')
+      expect(extractJSON('The answer is {"a": [1, 2]} as requested.')).toBe('{"a": [1, 2]}')
+    })
+
+    it('drops comments and trailing commas but leaves strings alone', () => {
+      const json = extractJSON('{\n  "a": "http://x.y/*z*/", // the link\n  "b": [1, 2,],\n  /* done */\n}')
+
+      expect(JSON.parse(json!)).toEqual({ a: 'http://x.y/*z*/', b: [1, 2] })
+    })
+
+    it('keeps escaped quotes and brackets inside strings', () => {
+      expect(JSON.parse(extractJSON('{"a": "say \\"hi\\" {not json}"}')!)).toEqual({ a: 'say "hi" {not json}' })
+    })
+
+    it('returns null when there is no JSON at all', () => {
+      expect(extractJSON('I cannot help with that.')).toBeNull()
+    })
+  })
+
+  describe('parseStructured', () => {
+    it('applies the schema, including defaults', () => {
+      expect(parseStructured('{"suggestion": "Better"}', schema)).toEqual({
+        data: { suggestion: 'Better', explanation: '' },
+      })
+    })
+
+    it('explains what was wrong', () => {
+      expect(parseStructured('{"suggestion": ""}', schema).error).toMatch(/^Unexpected response shape: suggestion: /)
+      expect(parseStructured('{"suggestion": "cut off', schema).error).toMatch(/^Invalid JSON/)
+      expect(parseStructured('no', schema).error).toBe('No JSON found in the response')
+    })
+  })
+
+  describe('completeStructured', () => {
+    it('returns the first valid answer without a second call', async () => {
+      const complete = vi.fn(async () => reply('{"suggestion": "Better", "explanation": "Why"}'))
+
+      const result = await completeStructured(complete, messages, schema)
+
+      expect(result.data).toEqual({ suggestion: 'Better', explanation: 'Why' })
+      expect(result.attempts).toBe(1)
+      expect(complete).toHaveBeenCalledTimes(1)
+    })
+
+    it('shows the model its bad answer and the reason, then adds up the usage', async () => {
+      const complete = vi
+        .fn()
+        .mockResolvedValueOnce(reply('{"explanation": "forgot it"}', 10))
+        .mockResolvedValueOnce(reply('{"suggestion": "Better"}', 30))
+
+      const result = await completeStructured(complete, messages, schema)
+
+      expect(result.data).toEqual({ suggestion: 'Better', explanation: '' })
+      expect(result.attempts).toBe(2)
+      expect(result.response?.usage).toEqual({ prompt_tokens: 36, completion_tokens: 4, total_tokens: 40 })
+
+      const repair: ChatMessage[] = complete.mock.calls[1][0]
+      expect(repair.slice(0, 2)).toEqual(messages)
+      expect(repair[2]).toEqual({ role: 'assistant', content: '{"explanation": "forgot it"}' })
+      expect(repair[3].content).toMatch(/suggestion: Required/)
+    })
+
+    it('gives up after the repair round', async () => {
+      const complete = vi.fn(async () => reply('still not JSON'))
+
+      const result = await completeStructured(complete, messages, schema)
+
+      expect(result.data).toBeUndefined()
+      expect(result.error).toBe('No JSON found in the response')
+      expect(result.attempts).toBe(2)
+      expect(result.response?.usage.total_tokens).toBe(20)
+    })
+
+    it('tells the caller which attempt it is making', async () => {
+      const complete = vi
+        .fn()
+        .mockResolvedValueOnce(reply('nope'))
+        .mockResolvedValueOnce(reply('{"suggestion": "Better"}'))
+
+      await completeStructured(complete, messages, schema)
+
+      expect(complete.mock.calls.map((call) => call[1])).toEqual([1, 2])
+    })
+
+    it('lets a failed call through as an error', async () => {
+      const complete = vi.fn(async () => {
+        throw new Error('OpenAI API error: 500')
+      })
+
+      await expect(completeStructured(complete, messages, schema)).rejects.toThrow('OpenAI API error: 500')
+    })
+  })
+
+  describe('readPartialJSONString', () => {
+    it('reads a string field that is still being written', () => {
+      expect(readPartialJSONString('{"suggestion": "A Year of Sm', 'suggestion')).toBe('A Year of Sm')
+      expect(readPartialJSONString('{"suggestion":"Done", "explanation": "Wh', 'suggestion')).toBe('Done')
+      expect(readPartialJSONString('{"sugg', 'suggestion')).toBe('')
+    })
+
+    it('decodes escapes and waits for unfinished ones', () => {
+      expect(readPartialJSONString('{"suggestion": "Dear me,\\n\\"hi\\" \\u00e9', 'suggestion')).toBe('Dear me,\n"hi" é')
+      expect(readPartialJSONString('{"suggestion": "Line\\', 'suggestion')).toBe('Line')
+      expect(readPartialJSONString('{"suggestion": "caf\\u00', 'suggestion')).toBe('caf')
+    })
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getDaysUntilDelivery,
+  getDeliveryInstant,
+  resolveTimeZone,
+  zonedTimeToUtc,
+} from '../timezone'
+
+describe('timezone helpers', () => {
+  it('converts a local delivery hour to the matching UTC instant', () => {
+    expect(zonedTimeToUtc('2025-03-01', 9, 'Asia/Tokyo').toISOString()).toBe('2025-03-01T00:00:00.000Z')
+    expect(zonedTimeToUtc('2025-01-15', 9, 'America/Los_Angeles').toISOString()).toBe('2025-01-15T17:00:00.000Z')
+  })
+
+  it('accounts for daylight saving time', () => {
+    expect(zonedTimeToUtc('2025-07-15', 9, 'America/Los_Angeles').toISOString()).toBe('2025-07-15T16:00:00.000Z')
+    expect(zonedTimeToUtc('2025-03-30', 9, 'Europe/Berlin').toISOString()).toBe('2025-03-30T07:00:00.000Z')
+  })
+
+  it('defaults to 09:00 UTC and ignores unknown zones', () => {
+    expect(getDeliveryInstant('2025-05-01').toISOString()).toBe('2025-05-01T09:00:00.000Z')
+    expect(getDeliveryInstant('2025-05-01', { timezone: 'Mars/Olympus', delivery_hour: 7 }).toISOString())
+      .toBe('2025-05-01T07:00:00.000Z')
+    expect(resolveTimeZone('Mars/Olympus')).toBe('UTC')
+  })
+
+  it('counts days left from the user\'s own calendar date', () => {
+    // 20:00 UTC on May 1st is already May 2nd in Tokyo
+    const now = new Date('2025-05-01T20:00:00Z')
+
+    expect(getDaysUntilDelivery('2025-05-10', 'UTC', now)).toBe(9)
+    expect(getDaysUntilDelivery('2025-05-10', 'Asia/Tokyo', now)).toBe(8)
+    expect(getDaysUntilDelivery('2025-04-30', 'UTC', now)).toBe(-1)
+  })
+})
@@ -0,0 +1,92 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.53.0";
+
+// Rows in ai_events, one per call to an AI edge function
+
+export type AIEventType =
+  | "goal_rewrite"
+  | "milestone_generation"
+  | "field_enhancement"
+  | "milestone_inference"
+  | "letter_enhancement";
+
+export interface TokenUsage {
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+}
+
+// A completion, or anything else carrying OpenAI-style model and usage fields
+export interface CompletionInfo {
+  model?: unknown;
+  usage?: unknown;
+}
+
+export interface AIEvent {
+  userId: string;
+  eventType: AIEventType;
+  letterId?: string | null;
+  input: Record<string, unknown>;
+  output?: Record<string, unknown> | null;
+  status: "completed" | "failed";
+  latencyMs?: number;
+  // The completion, for the model name and token usage
+  response?: CompletionInfo;
+}
+
+// ai_events rejects negative counts, so drop them rather than lose the row
+const toCount = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value
+    : null;
+
+// OpenAI reports usage as { prompt_tokens, completion_tokens, total_tokens }
+export function getTokenUsage(response?: CompletionInfo): TokenUsage {
+  const usage = (response?.usage ?? {}) as Record<string, unknown>;
+
+  return {
+    prompt_tokens: toCount(usage.prompt_tokens),
+    completion_tokens: toCount(usage.completion_tokens),
+    total_tokens: toCount(usage.total_tokens),
+  };
+}
+
+export function toAIEventRow(event: AIEvent) {
+  return {
+    user_id: event.userId,
+    letter_id: event.letterId ?? null,
+    event_type: event.eventType,
+    input_data: event.input,
+    output_data: event.output ?? null,
+    status: event.status,
+    model:
+      typeof event.response?.model === "string" ? event.response.model : null,
+    latency_ms:
+      event.latencyMs === undefined ? null : Math.round(event.latencyMs),
+    ...getTokenUsage(event.response),
+  };
+}
+
+// Returns the new row's id so the app can report whether the suggestion was
+// used. Never throws: losing an analytics row must not fail the request.
+export async function recordAIEvent(
+  supabase: SupabaseClient,
+  event: AIEvent
+): Promise<string | null> {
+  try {
+    const { data, error } = await supabase
+      .from("ai_events")
+      .insert(toAIEventRow(event))
+      .select("id")
+      .single();
+
+    if (error) {
+      console.error("Failed to record AI event:", error);
+      return null;
+    }
+
+    return data?.id ?? null;
+  } catch (error) {
+    console.error("Failed to record AI event:", error);
+    return null;
+  }
+}
@@ -0,0 +1,100 @@
+// Writing preferences for the AI functions, read from the caller's profile.
+// Dependency-free so the web app shares the same tone list.
+
+import { resolveTimeZone } from "./timezone.ts";
+
+export const AI_TONES = [
+  "motivational",
+  "gentle",
+  "direct",
+  "humorous",
+  "coach",
+] as const;
+
+export type AITone = (typeof AI_TONES)[number];
+
+export const DEFAULT_AI_TONE: AITone = "motivational";
+export const DEFAULT_AI_LANGUAGE = "en";
+
+// The profile columns these come from; both are nullable and the JSON may
+// hold only some keys
+export interface AIProfileSettings {
+  language?: string | null;
+  timezone?: string | null;
+  ai_preferences?: {
+    tone?: string;
+    auto_apply?: boolean;
+  } | null;
+}
+
+export interface AIPreferences {
+  tone: AITone;
+  language: string;
+  autoApply: boolean;
+  // Where "today" is for dates in the answers
+  timeZone: string;
+}
+
+const TONE_INSTRUCTIONS: Record<AITone, string> = {
+  motivational:
+    "Be upbeat and energising. Celebrate the ambition and make the future feel within reach.",
+  gentle:
+    "Be warm, patient and kind. Avoid pressure; acknowledge that progress can be slow and that is fine.",
+  direct:
+    "Be plain and concise. Cut filler and flattery, and say exactly what to do.",
+  humorous:
+    "Be light-hearted and playful, with a touch of gentle humour, without mocking the goal.",
+  coach:
+    "Write like a supportive coach: challenge the writer, ask for commitment and focus on the next concrete step.",
+};
+
+// English names, since they go into an English prompt
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+  ja: "Japanese",
+};
+
+export function isAITone(value: unknown): value is AITone {
+  return AI_TONES.includes(value as AITone);
+}
+
+export function resolveAIPreferences(
+  profile?: AIProfileSettings | null
+): AIPreferences {
+  const tone = profile?.ai_preferences?.tone;
+  const language = profile?.language;
+
+  return {
+    tone: isAITone(tone) ? tone : DEFAULT_AI_TONE,
+    language: language && LANGUAGE_NAMES[language] ? language : DEFAULT_AI_LANGUAGE,
+    autoApply: profile?.ai_preferences?.auto_apply === true,
+    timeZone: resolveTimeZone(profile?.timezone),
+  };
+}
+
+// Appended to each function's system prompt. JSON keys stay in English so
+// the response still parses; only the text the user reads changes.
+export function buildPersonaPrompt(preferences: AIPreferences): string {
+  const lines = [`Tone: ${TONE_INSTRUCTIONS[preferences.tone]}`];
+
+  if (preferences.language !== "en") {
+    lines.push(
+      `Write every suggestion, explanation and milestone in ${LANGUAGE_NAMES[preferences.language]}. Keep JSON keys and dates exactly as specified.`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+export function withPersona(
+  systemPrompt: string,
+  preferences: AIPreferences
+): string {
+  return `${systemPrompt}\n\n${buildPersonaPrompt(preferences)}`;
+}
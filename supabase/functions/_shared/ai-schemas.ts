@@ -0,0 +1,141 @@
+import { z } from "https://esm.sh/zod@3.23.8";
+import { isRepeatedSuggestion } from "./enhancement-styles.ts";
+import { getTodayInTimeZone, resolveTimeZone } from "./timezone.ts";
+
+// What each AI function expects back from the model. Small slips (a number
+// sent as a string, a timestamp instead of a date, a missing explanation) are
+// accepted and normalised; anything else fails validation and is repaired.
+
+// A real calendar day as YYYY-MM-DD; "2030-02-30" is not one
+const isCalendarDate = (value: unknown): value is string => {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+// "2030-03-01T00:00:00Z" becomes "2030-03-01"
+const toISODate = (value: unknown) => {
+  if (typeof value !== "string") return value;
+  const match = value.trim().match(/^(\d{4}-\d{2}-\d{2})(?:$|[T ])/);
+  return match ? match[1] : value;
+};
+
+const isoDate = z.preprocess(
+  toISODate,
+  z.string().refine(isCalendarDate, "Expected a YYYY-MM-DD date")
+);
+
+// Inferred milestones may leave the date out; a bad one is dropped rather
+// than sent back, since the app picks a date itself when there is none
+const optionalDate = z.preprocess((value) => {
+  const date = toISODate(value);
+  return isCalendarDate(date) ? date : undefined;
+}, z.string().optional());
+
+const text = z.string().trim().min(1);
+
+export const FieldEnhancementResponseSchema = z.object({
+  suggestion: text,
+  explanation: z.string().trim().default(""),
+});
+
+export const FieldAlternativesResponseSchema = z.object({
+  alternatives: z.array(FieldEnhancementResponseSchema).min(1),
+});
+
+const REPEATED = "Repeats an earlier suggestion; write a different one";
+
+// A regenerated suggestion must not be one the user has already seen. The
+// issue is what the repair round shows the model.
+export function getFieldEnhancementSchema(avoid: string[] = []) {
+  return FieldEnhancementResponseSchema.superRefine((data, ctx) => {
+    if (isRepeatedSuggestion(data.suggestion, avoid)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["suggestion"], message: REPEATED });
+    }
+  });
+}
+
+// Alternatives must also differ from each other
+export function getFieldAlternativesSchema(avoid: string[] = []) {
+  return FieldAlternativesResponseSchema.superRefine((data, ctx) => {
+    data.alternatives.forEach((alternative, index) => {
+      const earlier = [
+        ...avoid,
+        ...data.alternatives.slice(0, index).map((other) => other.suggestion),
+      ];
+      if (isRepeatedSuggestion(alternative.suggestion, earlier)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["alternatives", index, "suggestion"],
+          message: REPEATED,
+        });
+      }
+    });
+  });
+}
+
+export const InferredMilestoneSchema = z.object({
+  text,
+  reasoning: z.string().trim().default(""),
+  dueDate: optionalDate,
+});
+
+export const MilestoneInferenceResponseSchema = z.object({
+  suggestedMilestones: z.array(InferredMilestoneSchema).min(1),
+});
+
+export const SuggestedMilestoneSchema = z.object({
+  title: text,
+  percentage: z.coerce.number().min(1).max(100),
+  target_date: isoDate,
+  description: z.string().trim().default(""),
+});
+
+export const EnhancementResponseSchema = z.object({
+  enhancedLetter: z.object({
+    title: text,
+    goal: text,
+    content: text,
+  }),
+  suggestedMilestones: z.array(SuggestedMilestoneSchema).optional(),
+});
+
+// JSON mode only allows an object at the top level, so suggest-milestones asks
+// for { "suggestedMilestones": [...] }; a bare array is still accepted
+export const MilestoneSuggestionResponseSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? { suggestedMilestones: value } : value),
+  z.object({
+    suggestedMilestones: z.array(SuggestedMilestoneSchema).min(1),
+  })
+);
+
+// ----------------------------------------------------------------------------
+// Post-validation: suggested dates must fall between today and the send date
+// ----------------------------------------------------------------------------
+
+export interface DateWindow {
+  from: string;
+  to?: string;
+}
+
+// Today in the user's timezone up to the letter's send date. A send date
+// that is missing, unreadable or already past leaves the window open-ended.
+export function getDateWindow(
+  sendDate?: string | null,
+  timeZone?: string | null,
+  now: Date = new Date()
+): DateWindow {
+  const from = getTodayInTimeZone(resolveTimeZone(timeZone), now);
+  const to = toISODate(sendDate ?? "");
+
+  return isCalendarDate(to) && to >= from
+    ? { from, to }
+    : { from };
+}
+
+// YYYY-MM-DD strings sort like the dates they stand for
+export function clampDate(date: string, window: DateWindow): string {
+  if (date < window.from) return window.from;
+  if (window.to && date > window.to) return window.to;
+  return date;
+}
@@ -0,0 +1,432 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.53.0";
+import {
+  renderLetterDeliveryEmail,
+  renderMilestoneReminderEmail,
+  type EmailTemplateOptions,
+} from "./email-templates.ts";
+import type { MailSender } from "./mailer.ts";
+import { DEFAULT_RETRY_POLICY, planRetry, type RetryPolicy } from "./retry.ts";
+import { withSignedVoiceMemo } from "./voice-memo.ts";
+
+export type { EmailMessage, MailSender } from "./mailer.ts";
+
+// Letter columns needed to render a delivery email
+export interface DeliverableLetter {
+  id: string;
+  user_id: string;
+  title: string;
+  content: string;
+  goal: string;
+  send_date: string;
+  status: string;
+  created_at?: string;
+  ai_enhanced_goal?: string | null;
+  voice_memo_url?: string | null;
+  personal_comments?: string | null;
+}
+
+// Milestone columns needed to render a reminder email
+export interface RemindableMilestone {
+  id: string;
+  letter_id: string;
+  title: string;
+  description?: string | null;
+  target_date: string;
+  completed: boolean | null;
+}
+
+// Per-user email switches stored in profiles.notification_preferences
+export interface NotificationPreferences {
+  email?: boolean;
+  push?: boolean;
+  milestone_reminders?: boolean;
+}
+
+// Notification row as claimed by the delivery worker
+export interface DeliveryNotification {
+  id: string;
+  user_id: string;
+  letter_id: string | null;
+  milestone_id?: string | null;
+  type: "letter_delivery" | "milestone_reminder" | "motivation_nudge";
+  status: string;
+  scheduled_for: string;
+  attempt_count?: number | null;
+  // Set once the email is out, before the notification is marked sent
+  email_sent_at?: string | null;
+}
+
+export interface DeliveryResult {
+  notificationId: string;
+  letterId: string | null;
+  milestoneId?: string | null;
+  // "failed" attempts are retried later; "dead_letter" ones are not
+  outcome: "sent" | "failed" | "dead_letter" | "cancelled";
+  error?: string;
+  nextAttemptAt?: string;
+  // The email went out but email_sent_at couldn't be stored, so a reclaimed
+  // row would send it again
+  warning?: string;
+}
+
+export interface DeliveryRunOptions {
+  batchSize?: number;
+  // Web app URL for the call-to-action links in emails
+  appUrl?: string;
+  retryPolicy?: RetryPolicy;
+}
+
+export interface DeliveryRunSummary {
+  claimed: number;
+  sent: number;
+  failed: number;
+  deadLettered: number;
+  cancelled: number;
+  results: DeliveryResult[];
+}
+
+// Render and send a letter to its author
+export async function sendLetterEmail(
+  sender: MailSender,
+  letter: DeliverableLetter,
+  email: string,
+  options: EmailTemplateOptions = {}
+): Promise<{ id?: string }> {
+  const { subject, html, text } = renderLetterDeliveryEmail(letter, options);
+  return sender.send({ to: [email], subject, html, text });
+}
+
+// Deliver every letter notification that is due.
+//
+// Rows are claimed through `claim_due_notifications`, which flips them to
+// `processing` with FOR UPDATE SKIP LOCKED, so overlapping runs never pick
+// up the same notification twice.
+export function processDueNotifications(
+  supabase: SupabaseClient,
+  sender: MailSender,
+  options: DeliveryRunOptions = {}
+): Promise<DeliveryRunSummary> {
+  return processClaimed(supabase, "letter_delivery", options, (notification) =>
+    deliverLetter(supabase, sender, notification, options)
+  );
+}
+
+// Queue upcoming milestone reminders, then send the ones that are due.
+// `leadDays` lists how many days before a target date to remind (e.g. [7, 1]).
+export async function processMilestoneReminders(
+  supabase: SupabaseClient,
+  sender: MailSender,
+  options: DeliveryRunOptions & { leadDays?: number[] } = {}
+): Promise<DeliveryRunSummary & { enqueued: number }> {
+  const { data: enqueued, error: enqueueError } = await supabase.rpc(
+    "enqueue_milestone_reminders",
+    { p_lead_days: options.leadDays ?? [7, 1] }
+  );
+
+  if (enqueueError) {
+    throw new Error(`Failed to enqueue reminders: ${enqueueError.message}`);
+  }
+
+  const summary = await processClaimed(
+    supabase,
+    "milestone_reminder",
+    options,
+    (notification) => deliverMilestoneReminder(supabase, sender, notification, options)
+  );
+
+  return { enqueued: (enqueued as number) ?? 0, ...summary };
+}
+
+async function processClaimed(
+  supabase: SupabaseClient,
+  type: DeliveryNotification["type"],
+  options: DeliveryRunOptions,
+  deliver: (notification: DeliveryNotification) => Promise<DeliveryResult>
+): Promise<DeliveryRunSummary> {
+  const { data: claimed, error: claimError } = await supabase.rpc(
+    "claim_due_notifications",
+    { p_type: type, p_limit: options.batchSize ?? 25 }
+  );
+
+  if (claimError) {
+    throw new Error(`Failed to claim notifications: ${claimError.message}`);
+  }
+
+  const notifications = (claimed || []) as DeliveryNotification[];
+  const results: DeliveryResult[] = [];
+
+  for (const notification of notifications) {
+    results.push(await deliver(notification));
+  }
+
+  return {
+    claimed: notifications.length,
+    sent: results.filter((r) => r.outcome === "sent").length,
+    failed: results.filter((r) => r.outcome === "failed").length,
+    deadLettered: results.filter((r) => r.outcome === "dead_letter").length,
+    cancelled: results.filter((r) => r.outcome === "cancelled").length,
+    results,
+  };
+}
+
+async function deliverLetter(
+  supabase: SupabaseClient,
+  sender: MailSender,
+  notification: DeliveryNotification,
+  options: DeliveryRunOptions
+): Promise<DeliveryResult> {
+  const base = {
+    notificationId: notification.id,
+    letterId: notification.letter_id,
+  };
+
+  const { data: letter, error: letterError } = await supabase
+    .from("letters")
+    .select("*, milestones(*)")
+    .eq("id", notification.letter_id)
+    .maybeSingle();
+
+  if (letterError) {
+    return markFailed(
+      supabase,
+      base,
+      notification,
+      options,
+      `Error fetching letter: ${letterError.message}`
+    );
+  }
+
+  // The letter was deleted, archived or already sent by hand
+  if (!letter || letter.status !== "scheduled") {
+    return markCancelled(
+      supabase,
+      base,
+      letter ? `Letter is ${letter.status}, nothing to deliver` : "Letter no longer exists"
+    );
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("email, timezone")
+    .eq("user_id", letter.user_id)
+    .maybeSingle();
+
+  if (profileError || !profile?.email) {
+    return markFailed(supabase, base, notification, options, "User email not found");
+  }
+
+  // A reclaimed row whose email already went out only needs completing
+  let warning: string | undefined;
+  if (!notification.email_sent_at) {
+    let sent: { id?: string };
+    try {
+      // Voice memos sit in a private bucket; the email gets a time-limited link
+      const deliverable = await withSignedVoiceMemo(supabase, letter as DeliverableLetter);
+      sent = await sendLetterEmail(sender, deliverable, profile.email, {
+        appUrl: options.appUrl,
+        timeZone: profile.timezone,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return markFailed(supabase, base, notification, options, message);
+    }
+    warning = await recordEmailSent(supabase, base, sent);
+  }
+
+  // Flip the notification and the letter in a single transaction
+  const result = await complete(supabase, "complete_letter_delivery", base);
+  return warning ? { ...result, warning } : result;
+}
+
+async function deliverMilestoneReminder(
+  supabase: SupabaseClient,
+  sender: MailSender,
+  notification: DeliveryNotification,
+  options: DeliveryRunOptions
+): Promise<DeliveryResult> {
+  const base = {
+    notificationId: notification.id,
+    letterId: notification.letter_id,
+    milestoneId: notification.milestone_id,
+  };
+
+  const { data: milestone, error: milestoneError } = await supabase
+    .from("milestones")
+    .select("*, letter:letters(id, title, goal, status, is_locked, milestones(*))")
+    .eq("id", notification.milestone_id)
+    .maybeSingle();
+
+  if (milestoneError) {
+    return markFailed(
+      supabase,
+      base,
+      notification,
+      options,
+      `Error fetching milestone: ${milestoneError.message}`
+    );
+  }
+
+  // Ticked off (or removed) since the reminder was queued
+  if (!milestone || milestone.completed) {
+    return markCancelled(
+      supabase,
+      base,
+      milestone ? "Milestone already completed" : "Milestone no longer exists"
+    );
+  }
+
+  // The letter has already arrived; reminding about it is pointless
+  if (milestone.letter?.status === "sent") {
+    return markCancelled(supabase, base, "Letter already delivered");
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("email, timezone, notification_preferences")
+    .eq("user_id", notification.user_id)
+    .maybeSingle();
+
+  if (profileError || !profile?.email) {
+    return markFailed(supabase, base, notification, options, "User email not found");
+  }
+
+  // Preferences may have changed after the reminder was queued
+  const preferences = (profile.notification_preferences || {}) as NotificationPreferences;
+  if (preferences.email === false || preferences.milestone_reminders === false) {
+    return markCancelled(supabase, base, "User opted out of milestone reminders");
+  }
+
+  let warning: string | undefined;
+  if (!notification.email_sent_at) {
+    let sent: { id?: string };
+    try {
+      const { subject, html, text } = renderMilestoneReminderEmail(
+        milestone as RemindableMilestone,
+        milestone.letter,
+        { appUrl: options.appUrl, timeZone: profile.timezone }
+      );
+      sent = await sender.send({ to: [profile.email], subject, html, text });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return markFailed(supabase, base, notification, options, message);
+    }
+    warning = await recordEmailSent(supabase, base, sent);
+  }
+
+  // Flip the notification and milestones.reminder_sent together
+  const result = await complete(supabase, "complete_milestone_reminder", base);
+  return warning ? { ...result, warning } : result;
+}
+
+type ResultBase = Pick<DeliveryResult, "notificationId" | "letterId" | "milestoneId">;
+
+const WRITE_ATTEMPTS = 3;
+const WRITE_RETRY_DELAY_MS = 200;
+
+// Once the email is out a failed write can't fail the delivery, so it is
+// retried a few times. Returns the last error message if every attempt failed.
+async function retryWrite(
+  write: () => PromiseLike<{ error: { message: string } | null }>
+): Promise<string | undefined> {
+  let message: string | undefined;
+
+  for (let attempt = 1; attempt <= WRITE_ATTEMPTS; attempt++) {
+    if (attempt > 1) {
+      await new Promise((resolve) => setTimeout(resolve, WRITE_RETRY_DELAY_MS * (attempt - 1)));
+    }
+
+    const { error } = await write();
+    if (!error) return undefined;
+    message = error.message;
+  }
+
+  return message;
+}
+
+// Noted before completing, so that if completing fails the reclaimed row is
+// completed without sending the email again. Returns a warning if it could
+// not be noted.
+async function recordEmailSent(
+  supabase: SupabaseClient,
+  base: ResultBase,
+  sent: { id?: string }
+): Promise<string | undefined> {
+  const emailSentAt = new Date().toISOString();
+  const message = await retryWrite(() =>
+    supabase
+      .from("notifications")
+      .update({
+        email_sent_at: emailSentAt,
+        provider_message_id: sent.id ?? null,
+      })
+      .eq("id", base.notificationId)
+  );
+  if (!message) return undefined;
+
+  console.error(`Failed to record sent email for notification ${base.notificationId}:`, message);
+  return `Email sent but not recorded: ${message}`;
+}
+
+// The email is out, so only the status update is retried. If every attempt
+// fails the row stays `processing` and is completed once it is reclaimed.
+async function complete(
+  supabase: SupabaseClient,
+  rpc: "complete_letter_delivery" | "complete_milestone_reminder",
+  base: ResultBase
+): Promise<DeliveryResult> {
+  const message = await retryWrite(() =>
+    supabase.rpc(rpc, { p_notification_id: base.notificationId })
+  );
+  if (!message) return { ...base, outcome: "sent" };
+
+  return {
+    ...base,
+    outcome: "failed",
+    error: `Email sent but status update failed: ${message}`,
+  };
+}
+
+// Record a failed attempt and either schedule the next one with backoff or,
+// once the policy's attempts are used up, park the notification as dead_letter
+async function markFailed(
+  supabase: SupabaseClient,
+  base: ResultBase,
+  notification: DeliveryNotification,
+  options: DeliveryRunOptions,
+  errorMessage: string
+): Promise<DeliveryResult> {
+  const decision = planRetry(
+    notification.attempt_count,
+    new Date(),
+    options.retryPolicy ?? DEFAULT_RETRY_POLICY
+  );
+  const nextAttemptAt = decision.nextAttemptAt?.toISOString() ?? null;
+
+  await supabase
+    .from("notifications")
+    .update({
+      status: decision.status,
+      attempt_count: decision.attemptCount,
+      next_attempt_at: nextAttemptAt,
+      last_error: errorMessage,
+      error_message: errorMessage,
+    })
+    .eq("id", base.notificationId);
+
+  return decision.status === "dead_letter"
+    ? { ...base, outcome: "dead_letter", error: errorMessage }
+    : { ...base, outcome: "failed", error: errorMessage, nextAttemptAt };
+}
+
+async function markCancelled(
+  supabase: SupabaseClient,
+  base: ResultBase,
+  reason: string
+): Promise<DeliveryResult> {
+  await supabase
+    .from("notifications")
+    .update({ status: "cancelled", error_message: reason })
+    .eq("id", base.notificationId);
+
+  return { ...base, outcome: "cancelled", error: reason };
+}
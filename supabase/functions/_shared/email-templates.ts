@@ -0,0 +1,442 @@
+// Email templates shared by the edge functions and the /dev/email-preview page.
+// Pure string rendering (no Deno or DOM APIs) so both runtimes produce the
+// exact same HTML and plain-text output.
+//
+// User-controlled values are escaped where they are written into HTML: the
+// building blocks below take plain text, except for `html` and `body`
+// parameters, which are fragments the templates already rendered.
+
+import { DEFAULT_TIMEZONE, getDaysUntilDelivery } from "./timezone.ts";
+import { escapeHtml, renderSafeMarkdown, sanitizeUrl, toSingleLine } from "./html.ts";
+
+export const EMAIL_BRAND_NAME = "FutureLetter AI";
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Milestone columns the templates read (a subset of the `milestones` row)
+export interface EmailMilestone {
+  id: string;
+  title: string;
+  description?: string | null;
+  target_date: string;
+  completed: boolean | null;
+  percentage?: number | null;
+}
+
+// Letter columns the templates read (a subset of the `letters` row)
+export interface EmailLetter {
+  id: string;
+  title: string;
+  content: string;
+  goal: string;
+  send_date: string;
+  created_at?: string;
+  ai_enhanced_goal?: string | null;
+  voice_memo_url?: string | null;
+  personal_comments?: string | null;
+  // Sealed letters keep their goal out of reminders until delivery
+  is_locked?: boolean | null;
+  milestones?: EmailMilestone[];
+}
+
+export interface EmailRecipient {
+  email?: string;
+  full_name?: string | null;
+}
+
+export interface EmailTemplateOptions {
+  // Base URL of the web app; call-to-action links are left out without it
+  appUrl?: string;
+  // Recipient's timezone, used for "due in N days" and timestamps
+  timeZone?: string;
+  // Clock used for relative dates (fixed in previews and tests)
+  now?: Date;
+  // Render the letter body as (safe) Markdown; plain escaped text when false
+  markdown?: boolean;
+}
+
+const BRAND_GRADIENT = "linear-gradient(135deg, #667eea 0%, #764ba2 100%)";
+const FONT_STACK =
+  "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+
+// "December 31, 2024". Plain YYYY-MM-DD dates are calendar dates and are
+// never shifted; timestamps are shown in the recipient's zone.
+export function formatEmailDate(
+  value: string,
+  timeZone: string = DEFAULT_TIMEZONE
+): string {
+  const isCalendarDate = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return new Date(isCalendarDate ? `${value}T00:00:00Z` : value).toLocaleDateString(
+    "en-US",
+    {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+      timeZone: isCalendarDate ? "UTC" : timeZone,
+    }
+  );
+}
+
+// Share of milestones ticked off, 0-100
+export function getMilestoneProgress(milestones: EmailMilestone[] = []): number {
+  if (milestones.length === 0) return 0;
+  const completed = milestones.filter((m) => m.completed).length;
+  return Math.round((completed / milestones.length) * 100);
+}
+
+// Milestones in the order they come due
+function sortByTargetDate(milestones: EmailMilestone[] = []): EmailMilestone[] {
+  return [...milestones].sort((a, b) => a.target_date.localeCompare(b.target_date));
+}
+
+function appLink(options: EmailTemplateOptions, path: string): string | undefined {
+  const appUrl = sanitizeUrl(options.appUrl);
+  if (!appUrl) return undefined;
+  return `${appUrl.replace(/\/+$/, "")}${path}`;
+}
+
+function greetingName(recipient: EmailRecipient): string {
+  return recipient.full_name?.trim().split(/\s+/)[0] || "there";
+}
+
+// ----------------------------------------------------------------------------
+// HTML building blocks
+// ----------------------------------------------------------------------------
+
+function renderButton(label: string, href: string | undefined): string {
+  if (!href) return "";
+  return `
+                  <div style="text-align: center; margin-top: 30px;">
+                    <a href="${escapeHtml(href)}" style="display: inline-block; background: ${BRAND_GRADIENT}; color: #ffffff; text-decoration: none; font-size: 16px; font-weight: 600; padding: 14px 28px; border-radius: 8px;">${escapeHtml(label)}</a>
+                  </div>`;
+}
+
+function renderSection(title: string, html: string): string {
+  return `
+                  <div style="background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 12px; padding: 24px; margin-bottom: 24px;">
+                    <h3 style="margin: 0 0 12px 0; color: #374151; font-size: 18px; font-weight: 600;">${escapeHtml(title)}</h3>
+                    ${html}
+                  </div>`;
+}
+
+const PARAGRAPH_STYLE = "margin: 0; color: #4b5563; font-size: 16px; line-height: 1.6;";
+const LINK_STYLE = "color: #4f46e5; text-decoration: underline;";
+
+function renderParagraph(text: string): string {
+  return `<p style="${PARAGRAPH_STYLE}">${escapeHtml(text)}</p>`;
+}
+
+// The letter body: safe Markdown by default, escaped plain text otherwise
+function renderLetterBody(content: string, options: EmailTemplateOptions): string {
+  if (options.markdown === false) {
+    return `<div style="color: #4b5563; font-size: 16px; line-height: 1.7; white-space: pre-wrap;">${escapeHtml(content)}</div>`;
+  }
+  return `<div style="color: #4b5563; font-size: 16px; line-height: 1.7;">${renderSafeMarkdown(content, {
+    paragraph: "margin: 0 0 16px 0;",
+    list: "margin: 0 0 16px 0; padding-left: 24px;",
+    link: LINK_STYLE,
+  })}</div>`;
+}
+
+function renderProgressBar(percent: number): string {
+  return `
+                    <div style="background: #e5e7eb; border-radius: 999px; height: 12px; overflow: hidden;">
+                      <div style="background: ${BRAND_GRADIENT}; width: ${percent}%; height: 12px;"></div>
+                    </div>`;
+}
+
+function renderMilestoneList(milestones: EmailMilestone[], timeZone: string): string {
+  const items = milestones
+    .map(
+      (m) => `
+                      <li style="padding: 10px 0; border-bottom: 1px solid #e5e7eb; color: ${m.completed ? "#047857" : "#374151"}; font-size: 15px;">
+                        ${m.completed ? "✅" : "⏳"} <span style="${m.completed ? "text-decoration: line-through;" : ""}">${escapeHtml(m.title)}</span>
+                        <span style="float: right; color: #6b7280; font-size: 13px;">${formatEmailDate(m.target_date, timeZone)}</span>
+                      </li>`
+    )
+    .join("");
+  return `<ul style="list-style: none; margin: 0; padding: 0;">${items}
+                    </ul>`;
+}
+
+function renderLayout(parts: {
+  title: string;
+  tagline: string;
+  body: string;
+  footer: string;
+}): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(parts.title)}</title>
+  </head>
+  <body style="margin: 0; padding: 24px 0; font-family: ${FONT_STACK}; background: #f1f5f9;">
+    <div style="max-width: 600px; margin: 0 auto; background: #ffffff; box-shadow: 0 10px 30px rgba(0,0,0,0.1);">
+      <div style="background: ${BRAND_GRADIENT}; padding: 40px 30px; text-align: center;">
+        <h1 style="margin: 0; color: white; font-size: 28px; font-weight: 700; letter-spacing: -0.5px;">${EMAIL_BRAND_NAME}</h1>
+        <p style="margin: 12px 0 0 0; color: rgba(255,255,255,0.9); font-size: 16px;">${escapeHtml(parts.tagline)}</p>
+      </div>
+      <div style="padding: 40px 30px;">${parts.body}
+      </div>
+      <div style="background: #f8fafc; padding: 30px; text-align: center; border-top: 1px solid #e5e7eb;">
+        <p style="margin: 0; color: #9ca3af; font-size: 12px;">${escapeHtml(parts.footer)}</p>
+      </div>
+    </div>
+  </body>
+</html>
+`;
+}
+
+// Join plain-text blocks with blank lines, dropping empty ones
+function joinText(blocks: Array<string | false | undefined>): string {
+  return blocks.filter(Boolean).join("\n\n") + "\n";
+}
+
+// ----------------------------------------------------------------------------
+// Templates
+// ----------------------------------------------------------------------------
+
+// A letter arriving on its send date
+export function renderLetterDeliveryEmail(
+  letter: EmailLetter,
+  options: EmailTemplateOptions = {}
+): RenderedEmail {
+  const timeZone = options.timeZone ?? DEFAULT_TIMEZONE;
+  const goal = letter.ai_enhanced_goal || letter.goal;
+  const deliveredOn = formatEmailDate(letter.send_date, timeZone);
+  const writtenOn = letter.created_at
+    ? formatEmailDate(letter.created_at, timeZone)
+    : undefined;
+  const milestones = sortByTargetDate(letter.milestones);
+  const letterUrl = appLink(options, "/letters");
+  const voiceMemoUrl = sanitizeUrl(letter.voice_memo_url);
+
+  const body = `
+                  <div style="text-align: center; margin-bottom: 32px;">
+                    <h2 style="margin: 0 0 10px 0; color: #1a1a1a; font-size: 24px; font-weight: 600; line-height: 1.3;">${escapeHtml(letter.title)}</h2>
+                    <p style="margin: 0; color: #6b7280; font-size: 14px;">${writtenOn ? `Written on ${writtenOn} · ` : ""}Delivered on ${deliveredOn}</p>
+                  </div>
+${renderSection("Your Goal", renderParagraph(goal))}
+${renderSection("Your Message", renderLetterBody(letter.content, options))}
+${
+  letter.personal_comments
+    ? renderSection(
+        "Your Past Reflection",
+        `<p style="${PARAGRAPH_STYLE}"><em>${escapeHtml(letter.personal_comments)}</em></p>`
+      )
+    : ""
+}
+${
+  milestones.length > 0
+    ? renderSection(
+        `Your Milestones (${getMilestoneProgress(milestones)}% complete)`,
+        renderMilestoneList(milestones, timeZone)
+      )
+    : ""
+}
+${
+  voiceMemoUrl
+    ? renderSection(
+        "Voice Memo",
+        `<a href="${escapeHtml(voiceMemoUrl)}" style="${LINK_STYLE} font-size: 15px;">Listen to the voice memo you recorded</a>`
+      )
+    : ""
+}
+                  <div style="background: #fef3c7; border: 1px solid #f59e0b; border-radius: 12px; padding: 20px; text-align: center;">
+                    <p style="margin: 0; color: #92400e; font-size: 15px; font-weight: 500;">💭 Take a moment to reflect: How far have you come since writing this letter?</p>
+                  </div>
+${renderButton("Open your letter", letterUrl)}`;
+
+  const text = joinText([
+    `A letter from your past self has arrived`,
+    `${letter.title}\n${writtenOn ? `Written on ${writtenOn}\n` : ""}Delivered on ${deliveredOn}`,
+    `YOUR GOAL\n${goal}`,
+    `YOUR MESSAGE\n${letter.content}`,
+    letter.personal_comments && `YOUR PAST REFLECTION\n${letter.personal_comments}`,
+    milestones.length > 0 &&
+      `YOUR MILESTONES (${getMilestoneProgress(milestones)}% complete)\n` +
+        milestones
+          .map((m) => `[${m.completed ? "x" : " "}] ${m.title} (${formatEmailDate(m.target_date, timeZone)})`)
+          .join("\n"),
+    voiceMemoUrl && `Voice memo: ${voiceMemoUrl}`,
+    `Take a moment to reflect: How far have you come since writing this letter?`,
+    letterUrl && `Open your letter: ${letterUrl}`,
+    `Delivered with care by ${EMAIL_BRAND_NAME}`,
+  ]);
+
+  return {
+    subject: `Letter: ${toSingleLine(letter.title)}`,
+    html: renderLayout({
+      title: letter.title,
+      tagline: "A letter from your past self has arrived",
+      body,
+      footer: `Delivered with care by ${EMAIL_BRAND_NAME}`,
+    }),
+    text,
+  };
+}
+
+// Heads-up ahead of a milestone's target date
+export function renderMilestoneReminderEmail(
+  milestone: EmailMilestone,
+  letter: Pick<EmailLetter, "id" | "title" | "goal"> & Partial<EmailLetter>,
+  options: EmailTemplateOptions = {}
+): RenderedEmail {
+  const timeZone = options.timeZone ?? DEFAULT_TIMEZONE;
+  const daysLeft = getDaysUntilDelivery(milestone.target_date, timeZone, options.now);
+  const when =
+    daysLeft <= 0
+      ? "is due today"
+      : `is due in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`;
+  const targetDate = formatEmailDate(milestone.target_date, timeZone);
+  const milestones = sortByTargetDate(letter.milestones);
+  const letterUrl = appLink(options, "/letters");
+  const goal = letter.is_locked ? "Sealed until delivery" : letter.goal;
+
+  const body = `
+                  <div style="text-align: center; margin-bottom: 32px;">
+                    <h2 style="margin: 0 0 10px 0; color: #1a1a1a; font-size: 22px; font-weight: 600;">${escapeHtml(milestone.title)}</h2>
+                    <p style="margin: 0; color: #6b7280; font-size: 14px;">Target date: ${targetDate}</p>
+                  </div>
+${milestone.description ? renderSection("What it involves", renderParagraph(milestone.description)) : ""}
+${renderSection(`Part of: ${letter.title}`, renderParagraph(goal))}
+${
+  milestones.length > 0
+    ? renderSection(
+        `Your Progress (${getMilestoneProgress(milestones)}% complete)`,
+        renderMilestoneList(milestones, timeZone)
+      )
+    : ""
+}
+${renderButton("Update your progress", letterUrl)}`;
+
+  const footer = "You can turn off milestone reminders in your notification settings.";
+
+  const text = joinText([
+    `Your milestone ${when}`,
+    `${milestone.title}\nTarget date: ${targetDate}`,
+    milestone.description,
+    `PART OF: ${letter.title}\n${goal}`,
+    milestones.length > 0 &&
+      `YOUR PROGRESS (${getMilestoneProgress(milestones)}% complete)\n` +
+        milestones.map((m) => `[${m.completed ? "x" : " "}] ${m.title}`).join("\n"),
+    letterUrl && `Update your progress: ${letterUrl}`,
+    footer,
+  ]);
+
+  return {
+    subject: `Milestone reminder: ${toSingleLine(milestone.title)}`,
+    html: renderLayout({
+      title: "Milestone reminder",
+      tagline: `Your milestone ${when}`,
+      body,
+      footer,
+    }),
+    text,
+  };
+}
+
+// Sent once after sign-up
+export function renderWelcomeEmail(
+  recipient: EmailRecipient,
+  options: EmailTemplateOptions = {}
+): RenderedEmail {
+  const name = greetingName(recipient);
+  const steps = [
+    "Write your first letter to your future self",
+    "Set meaningful milestones along the way",
+    "Receive your letter when the time is right",
+  ];
+  const startUrl = appLink(options, "/letters");
+
+  const body = `
+                  <h2 style="margin: 0 0 16px 0; color: #1a1a1a; font-size: 24px; font-weight: 600;">Welcome, ${escapeHtml(name)}! 🎉</h2>
+                  <p style="margin: 0 0 24px 0; color: #4b5563; font-size: 16px; line-height: 1.6;">Your journey to a better future starts now.</p>
+${renderSection(
+  "What happens next?",
+  `<ol style="margin: 0; padding-left: 20px; color: #4b5563; font-size: 16px; line-height: 1.8;">${steps
+    .map((step) => `<li>${escapeHtml(step)}</li>`)
+    .join("")}</ol>`
+)}
+${renderButton("Write your first letter", startUrl)}`;
+
+  const text = joinText([
+    `Welcome, ${name}!`,
+    `Your journey to a better future starts now.`,
+    `WHAT HAPPENS NEXT?\n${steps.map((step, i) => `${i + 1}. ${step}`).join("\n")}`,
+    startUrl && `Write your first letter: ${startUrl}`,
+    `${EMAIL_BRAND_NAME}`,
+  ]);
+
+  return {
+    subject: `Welcome to ${EMAIL_BRAND_NAME}`,
+    html: renderLayout({
+      title: `Welcome to ${EMAIL_BRAND_NAME}`,
+      tagline: "Letters to your future self",
+      body,
+      footer: `You're receiving this because you signed up for ${EMAIL_BRAND_NAME}.`,
+    }),
+    text,
+  };
+}
+
+// Periodic summary of how a letter's milestones are going
+export function renderProgressUpdateEmail(
+  letter: EmailLetter,
+  options: EmailTemplateOptions = {}
+): RenderedEmail {
+  const timeZone = options.timeZone ?? DEFAULT_TIMEZONE;
+  const milestones = sortByTargetDate(letter.milestones);
+  const completed = milestones.filter((m) => m.completed).length;
+  const progress = getMilestoneProgress(milestones);
+  const daysLeft = getDaysUntilDelivery(letter.send_date, timeZone, options.now);
+  const summary = `${completed} of ${milestones.length} milestone${milestones.length === 1 ? "" : "s"} completed`;
+  const arrival =
+    daysLeft > 0
+      ? `Your letter arrives in ${daysLeft} day${daysLeft === 1 ? "" : "s"}.`
+      : "Your letter has arrived.";
+  const dashboardUrl = appLink(options, "/dashboard");
+
+  const body = `
+                  <div style="text-align: center; margin-bottom: 32px;">
+                    <h2 style="margin: 0 0 10px 0; color: #1a1a1a; font-size: 24px; font-weight: 600;">${escapeHtml(letter.title)}</h2>
+                    <p style="margin: 0; color: #6b7280; font-size: 14px;">${escapeHtml(arrival)}</p>
+                  </div>
+${renderSection(
+  `Overall Progress: ${progress}%`,
+  `${renderProgressBar(progress)}
+                    <p style="margin: 12px 0 0 0; color: #6b7280; font-size: 14px;">${escapeHtml(summary)}</p>`
+)}
+${milestones.length > 0 ? renderSection("Milestones", renderMilestoneList(milestones, timeZone)) : ""}
+${renderButton("View your dashboard", dashboardUrl)}`;
+
+  const text = joinText([
+    `Progress update: ${letter.title}`,
+    arrival,
+    `OVERALL PROGRESS: ${progress}%\n${summary}`,
+    milestones.length > 0 &&
+      `MILESTONES\n` +
+        milestones
+          .map((m) => `[${m.completed ? "x" : " "}] ${m.title} (${formatEmailDate(m.target_date, timeZone)})`)
+          .join("\n"),
+    dashboardUrl && `View your dashboard: ${dashboardUrl}`,
+    `Keep up the momentum!`,
+  ]);
+
+  return {
+    subject: `Progress update: ${toSingleLine(letter.title)} (${progress}% complete)`,
+    html: renderLayout({
+      title: "Progress update",
+      tagline: "Here's how you're doing with your goals",
+      body,
+      footer: "Keep up the momentum!",
+    }),
+    text,
+  };
+}
@@ -0,0 +1,85 @@
+// Styles for alternative field suggestions, and keeping a regenerated
+// suggestion from repeating an earlier one. Dependency-free so the web app
+// shares the same style list and labels.
+
+export const ENHANCEMENT_STYLES = ["concise", "vivid", "smart"] as const;
+
+export type EnhancementStyle = (typeof ENHANCEMENT_STYLES)[number];
+
+export type EnhancedField = "title" | "goal" | "content";
+
+export const ENHANCEMENT_STYLE_LABELS: Record<EnhancementStyle, string> = {
+  concise: "Concise",
+  vivid: "Vivid",
+  smart: "SMART goal",
+};
+
+const STYLE_INSTRUCTIONS: Record<EnhancementStyle, string> = {
+  concise: "Short and plain: keep only what matters and cut every filler word.",
+  vivid: "Rich and emotional: concrete images, sensory detail and forward-looking hope.",
+  smart:
+    "A SMART goal: specific, measurable, achievable, relevant and time-bound, with a number and a deadline.",
+};
+
+// SMART only makes sense for a goal, so it comes first there
+export function getEnhancementStyles(field: EnhancedField): EnhancementStyle[] {
+  return field === "goal" ? ["smart", "concise", "vivid"] : ["concise", "vivid"];
+}
+
+// Replaces the single-suggestion format in a field prompt
+export function buildAlternativesFormat(
+  styles: EnhancementStyle[],
+  suggestion: string
+): string {
+  const items = styles
+    .map(
+      (style) =>
+        `    { "style": "${style}", "suggestion": "${suggestion}", "explanation": "brief explanation of what was improved and why" }`
+    )
+    .join(",\n");
+  const guide = styles
+    .map((style) => `- ${style}: ${STYLE_INSTRUCTIONS[style]}`)
+    .join("\n");
+
+  return `RESPOND WITH VALID JSON IN THIS EXACT FORMAT, ONE ALTERNATIVE PER STYLE IN THIS ORDER:
+{
+  "alternatives": [
+${items}
+  ]
+}
+
+Each alternative must read clearly differently from the others:
+${guide}`;
+}
+
+// Long earlier suggestions are cut short; the start is enough to recognise them
+const AVOID_EXCERPT_LENGTH = 300;
+
+export function buildAvoidPrompt(previous: string[]): string {
+  if (previous.length === 0) return "";
+
+  const list = previous
+    .map((text) =>
+      text.length > AVOID_EXCERPT_LENGTH
+        ? `- "${text.slice(0, AVOID_EXCERPT_LENGTH)}..."`
+        : `- "${text}"`
+    )
+    .join("\n");
+
+  return `
+
+These suggestions were already offered and turned down. Do not repeat or closely paraphrase any of them:
+${list}`;
+}
+
+// Case, spacing and punctuation don't make a suggestion new
+const normalise = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+export function isRepeatedSuggestion(suggestion: string, previous: string[]): boolean {
+  const normalised = normalise(suggestion);
+  return previous.some((text) => normalise(text) === normalised);
+}
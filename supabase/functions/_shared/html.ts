@@ -0,0 +1,127 @@
+// HTML escaping and a deliberately small Markdown renderer for user content
+// in outgoing email. Everything a user typed goes through `escapeHtml`,
+// `sanitizeUrl` or `renderSafeMarkdown` before it reaches a template.
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+const SAFE_URL_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+// Escape text for use in element content or a quoted attribute value
+export function escapeHtml(value: string | null | undefined): string {
+  if (value == null) return "";
+  return String(value).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+// Collapse line breaks so user text can't add lines to a mail header
+export function toSingleLine(value: string | null | undefined): string {
+  return (value ?? "").replace(/[\r\n]+/g, " ").trim();
+}
+
+// Return the URL if it is absolute http(s)/mailto, otherwise undefined.
+// The result still has to be escaped when written into an attribute.
+export function sanitizeUrl(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  // Control characters and whitespace inside a URL are a smuggling attempt
+  // (e.g. "java\tscript:") or at best a broken link
+  const hasControlOrSpace = Array.from(trimmed).some((char) => {
+    const code = char.charCodeAt(0);
+    return code <= 0x20 || code === 0x7f;
+  });
+  if (hasControlOrSpace) return undefined;
+
+  try {
+    const url = new URL(trimmed);
+    return SAFE_URL_PROTOCOLS.includes(url.protocol) ? trimmed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Markdown
+// ----------------------------------------------------------------------------
+
+const LINK_PATTERN = /\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+
+// Escape, then re-introduce the only inline markup we allow
+function renderEmphasis(escaped: string): string {
+  return escaped
+    .replace(/\*\*(?=\S)(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/__(?=\S)(.+?)__/g, "<strong>$1</strong>")
+    .replace(/(^|[^*])\*(?=\S)([^*]+?)\*(?!\*)/g, "$1<em>$2</em>");
+}
+
+function renderInline(raw: string, linkAttrs: string): string {
+  let html = "";
+  let lastIndex = 0;
+
+  for (const match of raw.matchAll(LINK_PATTERN)) {
+    const [whole, label, href] = match;
+    const index = match.index ?? 0;
+    html += renderEmphasis(escapeHtml(raw.slice(lastIndex, index)));
+
+    const safeHref = sanitizeUrl(href);
+    html += safeHref
+      ? `<a href="${escapeHtml(safeHref)}"${linkAttrs}>${renderEmphasis(escapeHtml(label))}</a>`
+      : renderEmphasis(escapeHtml(label));
+
+    lastIndex = index + whole.length;
+  }
+
+  return html + renderEmphasis(escapeHtml(raw.slice(lastIndex)));
+}
+
+export interface MarkdownStyles {
+  paragraph?: string;
+  list?: string;
+  link?: string;
+}
+
+// Render paragraphs, line breaks, **bold**, *italic*, - / 1. lists and
+// [links](https://...). Anything else (raw HTML included) is shown as text.
+export function renderSafeMarkdown(
+  source: string | null | undefined,
+  styles: MarkdownStyles = {}
+): string {
+  const attr = (style?: string) => (style ? ` style="${escapeHtml(style)}"` : "");
+  const paragraphAttrs = attr(styles.paragraph);
+  const listAttrs = attr(styles.list);
+  const linkAttrs = attr(styles.link);
+
+  const blocks = (source ?? "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((block) => block.replace(/^\n+|\n+$/g, ""))
+    .filter((block) => block.trim().length > 0);
+
+  return blocks
+    .map((block) => {
+      const lines = block.split("\n");
+
+      for (const [pattern, tag] of [
+        [UNORDERED_ITEM, "ul"],
+        [ORDERED_ITEM, "ol"],
+      ] as const) {
+        if (lines.every((line) => pattern.test(line))) {
+          const items = lines
+            .map((line) => `<li>${renderInline(line.replace(pattern, "$1"), linkAttrs)}</li>`)
+            .join("");
+          return `<${tag}${listAttrs}>${items}</${tag}>`;
+        }
+      }
+
+      const content = lines.map((line) => renderInline(line, linkAttrs)).join("<br>");
+      return `<p${paragraphAttrs}>${content}</p>`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,75 @@
+// Canned answers for LLM_PROVIDER=mock, one per AI function. Each is exactly
+// what that function's prompt asks the model for, so the functions run end
+// to end without a model. Dates are fixed to keep runs reproducible.
+
+export const MOCK_LLM_FIXTURES: Record<string, string> = {
+  // Answers both the single suggestion and the alternatives format
+  "enhance-field": JSON.stringify({
+    suggestion: "A Year of Small Steps Toward the Person I Want to Be",
+    explanation: "Made it more personal and forward-looking while keeping your intent.",
+    alternatives: [
+      {
+        style: "concise",
+        suggestion: "A Year of Small Steps",
+        explanation: "Kept only the heart of it.",
+      },
+      {
+        style: "vivid",
+        suggestion: "Every Sunrise a Step Closer to Who I'm Becoming",
+        explanation: "Added an image and a sense of momentum.",
+      },
+      {
+        style: "smart",
+        suggestion: "Run a Half Marathon by December, Training Three Times a Week",
+        explanation: "Made it specific, measurable and time-bound.",
+      },
+    ],
+  }),
+
+  "enhance-goal":
+    "By the end of this year, I will run a half marathon by training three times a week and logging every run.",
+
+  "enhance-letter": JSON.stringify({
+    enhancedLetter: {
+      title: "A Year of Small Steps",
+      goal: "Run a half marathon by training three times a week and logging every run.",
+      content:
+        "Dear Future Me,\n\nToday I decided to stop waiting for the right moment. By the time you read this, I hope every early morning was worth it.\n\nWith love,\nPast Me",
+    },
+    suggestedMilestones: [
+      { title: "Build the habit", percentage: 25, target_date: "2030-03-01", description: "Three short runs every week for a month." },
+      { title: "Run 10 km", percentage: 50, target_date: "2030-06-01", description: "Finish a 10 km run without stopping." },
+      { title: "Run 16 km", percentage: 75, target_date: "2030-09-01", description: "Complete the longest training run." },
+      { title: "Race day", percentage: 100, target_date: "2030-12-01", description: "Cross the half marathon finish line." },
+    ],
+  }),
+
+  "infer-milestones": JSON.stringify({
+    suggestedMilestones: [
+      {
+        text: "Run three times a week for four weeks",
+        reasoning: "Consistency comes before distance and makes everything after it easier.",
+        dueDate: "2030-03-01",
+      },
+      {
+        text: "Finish a 10 km run",
+        reasoning: "Halfway to the goal, and proof the plan is working.",
+        dueDate: "2030-06-01",
+      },
+      {
+        text: "Complete a 16 km training run",
+        reasoning: "The longest run before the race builds the confidence to finish it.",
+        dueDate: "2030-09-01",
+      },
+    ],
+  }),
+
+  "suggest-milestones": JSON.stringify({
+    suggestedMilestones: [
+      { title: "Build the habit", percentage: 25, target_date: "2030-03-01", description: "Three short runs every week for a month." },
+      { title: "Run 10 km", percentage: 50, target_date: "2030-06-01", description: "Finish a 10 km run without stopping." },
+      { title: "Run 16 km", percentage: 75, target_date: "2030-09-01", description: "Complete the longest training run." },
+      { title: "Race day", percentage: 100, target_date: "2030-12-01", description: "Cross the half marathon finish line." },
+    ],
+  }),
+};
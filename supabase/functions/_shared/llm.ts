@@ -0,0 +1,462 @@
+import { getTokenUsage, type TokenUsage } from "./ai-events.ts";
+import { readServerSentEvents } from "./sse.ts";
+
+// Provider-independent chat completion for the AI functions. Every provider
+// talks plain HTTP through an injectable fetch, so this module has no runtime
+// imports and the whole thing can be unit tested outside Deno.
+
+export type LLMProviderName = "openai" | "anthropic" | "openai-compatible" | "mock";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  // The calling function; the mock answers from its fixture
+  name: string;
+  messages: ChatMessage[];
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  // "json" asks for a bare JSON object where the provider can enforce it
+  responseFormat?: "text" | "json";
+}
+
+// Usage keeps OpenAI's field names, which is what ai_events stores
+export interface LLMResponse {
+  content: string;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  // The same completion, passing each piece of text to onDelta as the model
+  // writes it. Aborting `signal` stops the model.
+  stream(
+    request: LLMRequest,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMResponse>;
+}
+
+// Provider, credentials and default model, configured through LLM_* variables
+export interface LLMSettings {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+// Per-call knobs a function can have overridden
+export interface LLMCallOptions {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+const LLM_PROVIDERS: LLMProviderName[] = [
+  "openai",
+  "anthropic",
+  "openai-compatible",
+  "mock",
+];
+
+export const DEFAULT_LLM_MODELS: Record<LLMProviderName, string> = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  "openai-compatible": "llama3.1",
+  mock: "mock-model",
+};
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const ANTHROPIC_BASE_URL = "https://api.anthropic.com/v1";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// Read provider settings from the environment (`Deno.env.get` in functions).
+// LLM_API_KEY wins; OPENAI_API_KEY and ANTHROPIC_API_KEY keep working.
+export function resolveLLMSettings(
+  getEnv: (name: string) => string | undefined
+): { settings?: LLMSettings; error?: string } {
+  const provider = (getEnv("LLM_PROVIDER") || "openai").toLowerCase();
+
+  if (!LLM_PROVIDERS.includes(provider as LLMProviderName)) {
+    return {
+      error: `Unknown LLM_PROVIDER "${provider}" (expected ${LLM_PROVIDERS.join(", ")})`,
+    };
+  }
+
+  const name = provider as LLMProviderName;
+  const apiKey =
+    getEnv("LLM_API_KEY") ||
+    (name === "openai" ? getEnv("OPENAI_API_KEY") : undefined) ||
+    (name === "anthropic" ? getEnv("ANTHROPIC_API_KEY") : undefined) ||
+    undefined;
+  const baseUrl = getEnv("LLM_BASE_URL") || undefined;
+
+  if ((name === "openai" || name === "anthropic") && !apiKey) {
+    return { error: `${name === "openai" ? "OpenAI" : "Anthropic"} API key not configured` };
+  }
+  if (name === "openai-compatible" && !baseUrl) {
+    return { error: "LLM_BASE_URL is required for an OpenAI-compatible provider" };
+  }
+
+  return {
+    settings: {
+      provider: name,
+      model: getEnv("LLM_MODEL") || DEFAULT_LLM_MODELS[name],
+      apiKey,
+      baseUrl,
+    },
+  };
+}
+
+const toEnvSuffix = (functionName: string) =>
+  functionName.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+
+const readNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// A function's own settings, e.g. LLM_MODEL_ENHANCE_FIELD,
+// LLM_TEMPERATURE_ENHANCE_FIELD and LLM_MAX_TOKENS_ENHANCE_FIELD, fall back
+// to the provider's model and the function's built-in defaults
+export function resolveCallOptions(
+  functionName: string,
+  defaults: { maxTokens: number; temperature: number },
+  settings: Pick<LLMSettings, "model">,
+  getEnv: (name: string) => string | undefined
+): LLMCallOptions {
+  const suffix = toEnvSuffix(functionName);
+  const maxTokens = readNumber(getEnv(`LLM_MAX_TOKENS_${suffix}`));
+  const temperature = readNumber(getEnv(`LLM_TEMPERATURE_${suffix}`));
+
+  return {
+    model: getEnv(`LLM_MODEL_${suffix}`) || settings.model,
+    maxTokens:
+      maxTokens !== undefined && Number.isInteger(maxTokens) && maxTokens > 0
+        ? maxTokens
+        : defaults.maxTokens,
+    temperature:
+      temperature !== undefined && temperature >= 0 && temperature <= 2
+        ? temperature
+        : defaults.temperature,
+  };
+}
+
+async function post(
+  fetchImpl: FetchLike,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetchImpl(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${label} API error: ${response.status} - ${errorText}`);
+  }
+
+  return response;
+}
+
+async function postJSON(
+  fetchImpl: FetchLike,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string
+): Promise<Record<string, unknown>> {
+  const response = await post(fetchImpl, url, headers, body, label);
+  return await response.json();
+}
+
+// The events of a streamed completion, each parsed as JSON
+async function* postStream(
+  fetchImpl: FetchLike,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+  signal?: AbortSignal
+): AsyncGenerator<{ event: string; data: Record<string, unknown> }> {
+  const response = await post(fetchImpl, url, headers, body, label, signal);
+  if (!response.body) {
+    throw new Error(`${label} API error: empty stream`);
+  }
+
+  for await (const event of readServerSentEvents(response.body, signal)) {
+    if (event.data === "[DONE]") return;
+    yield { event: event.event, data: JSON.parse(event.data) };
+  }
+}
+
+const toCount = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+// ----------------------------------------------------------------------------
+// OpenAI and anything that speaks its chat completions API (Ollama, vLLM, ...)
+// ----------------------------------------------------------------------------
+
+export function createOpenAIProvider(
+  options: { apiKey?: string; baseUrl?: string; name?: "openai" | "openai-compatible" },
+  fetchImpl: FetchLike = fetch
+): LLMProvider {
+  const name = options.name ?? "openai";
+  const baseUrl = (options.baseUrl || OPENAI_BASE_URL).replace(/\/+$/, "");
+  const url = `${baseUrl}/chat/completions`;
+  const headers: Record<string, string> = options.apiKey
+    ? { Authorization: `Bearer ${options.apiKey}` }
+    : {};
+  const label = name === "openai" ? "OpenAI" : "LLM";
+
+  const toBody = (request: LLMRequest) => ({
+    model: request.model,
+    messages: request.messages,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    response_format:
+      request.responseFormat === "json" ? { type: "json_object" } : undefined,
+  });
+
+  return {
+    name,
+    async complete(request: LLMRequest) {
+      const data = await postJSON(fetchImpl, url, headers, toBody(request), label);
+
+      const choices = data.choices as Array<{ message?: { content?: string } }> | undefined;
+
+      return {
+        content: choices?.[0]?.message?.content ?? "",
+        model: typeof data.model === "string" ? data.model : request.model,
+        usage: getTokenUsage(data),
+      };
+    },
+
+    // Usage comes in a last chunk without choices
+    async stream(request, onDelta, signal) {
+      const body = {
+        ...toBody(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      };
+      let content = "";
+      let model = request.model;
+      let usage = getTokenUsage();
+
+      for await (const { data } of postStream(fetchImpl, url, headers, body, label, signal)) {
+        const choices = data.choices as Array<{ delta?: { content?: string } }> | undefined;
+        const delta = choices?.[0]?.delta?.content;
+
+        if (typeof data.model === "string") model = data.model;
+        if (data.usage) usage = getTokenUsage(data);
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+      }
+
+      return { content, model, usage };
+    },
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Anthropic Messages API: system prompt is a separate field. There is no JSON
+// mode, so JSON requests prefill the reply with "{" and the model continues it.
+// ----------------------------------------------------------------------------
+
+export function createAnthropicProvider(
+  options: { apiKey: string; baseUrl?: string },
+  fetchImpl: FetchLike = fetch
+): LLMProvider {
+  const baseUrl = (options.baseUrl || ANTHROPIC_BASE_URL).replace(/\/+$/, "");
+  const url = `${baseUrl}/messages`;
+  const headers = { "x-api-key": options.apiKey, "anthropic-version": ANTHROPIC_VERSION };
+
+  const toBody = (request: LLMRequest, prefill: string) => {
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+    const messages: ChatMessage[] = request.messages.filter(
+      (message) => message.role !== "system"
+    );
+    if (prefill) {
+      messages.push({ role: "assistant", content: prefill });
+    }
+
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: Math.min(request.temperature, 1),
+      system: system || undefined,
+      messages,
+    };
+  };
+
+  const toUsage = (promptTokens: number | null, completionTokens: number | null): TokenUsage => ({
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens:
+      promptTokens === null || completionTokens === null
+        ? null
+        : promptTokens + completionTokens,
+  });
+
+  const getPrefill = (request: LLMRequest) =>
+    request.responseFormat === "json" ? "{" : "";
+
+  return {
+    name: "anthropic",
+    async complete(request: LLMRequest) {
+      const prefill = getPrefill(request);
+      const data = await postJSON(fetchImpl, url, headers, toBody(request, prefill), "Anthropic");
+
+      const blocks = (data.content ?? []) as Array<{ type?: string; text?: string }>;
+      const usage = (data.usage ?? {}) as Record<string, unknown>;
+
+      return {
+        content:
+          prefill +
+          blocks
+            .filter((block) => block.type === "text")
+            .map((block) => block.text ?? "")
+            .join(""),
+        model: typeof data.model === "string" ? data.model : request.model,
+        usage: toUsage(toCount(usage.input_tokens), toCount(usage.output_tokens)),
+      };
+    },
+
+    // message_start carries the model and input tokens, message_delta the
+    // output tokens so far, content_block_delta the text
+    async stream(request, onDelta, signal) {
+      const prefill = getPrefill(request);
+      const body = { ...toBody(request, prefill), stream: true };
+      let content = prefill;
+      let model = request.model;
+      let promptTokens: number | null = null;
+      let completionTokens: number | null = null;
+
+      if (prefill) onDelta(prefill);
+
+      for await (const { event, data } of postStream(fetchImpl, url, headers, body, "Anthropic", signal)) {
+        if (event === "error") {
+          const error = data.error as { message?: string } | undefined;
+          throw new Error(`Anthropic API error: ${error?.message ?? "stream failed"}`);
+        }
+        if (event === "message_start") {
+          const message = (data.message ?? {}) as Record<string, unknown>;
+          const usage = (message.usage ?? {}) as Record<string, unknown>;
+          if (typeof message.model === "string") model = message.model;
+          promptTokens = toCount(usage.input_tokens);
+        }
+        if (event === "message_delta") {
+          const usage = (data.usage ?? {}) as Record<string, unknown>;
+          completionTokens = toCount(usage.output_tokens);
+        }
+        if (event === "content_block_delta") {
+          const delta = (data.delta ?? {}) as { type?: string; text?: string };
+          if (delta.type === "text_delta" && delta.text) {
+            content += delta.text;
+            onDelta(delta.text);
+          }
+        }
+      }
+
+      return { content, model, usage: toUsage(promptTokens, completionTokens) };
+    },
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Mock: answers every function from a fixture, for offline runs and CI
+// ----------------------------------------------------------------------------
+
+// Rough count so quotas and ai_events still get plausible numbers
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// The fixture is streamed in small pieces, like a model would
+const MOCK_CHUNK_LENGTH = 12;
+
+export function createMockProvider(fixtures: Record<string, string>): LLMProvider {
+  const complete = async (request: LLMRequest): Promise<LLMResponse> => {
+    const content = fixtures[request.name];
+    if (content === undefined) {
+      throw new Error(`No mock fixture for "${request.name}"`);
+    }
+
+    const promptTokens = estimateTokens(
+      request.messages.map((message) => message.content).join("\n")
+    );
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      model: request.model,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  };
+
+  return {
+    name: "mock",
+    complete,
+    async stream(request, onDelta, signal) {
+      const response = await complete(request);
+
+      for (let i = 0; i < response.content.length; i += MOCK_CHUNK_LENGTH) {
+        if (signal?.aborted) {
+          throw new Error("Mock stream aborted");
+        }
+        onDelta(response.content.slice(i, i + MOCK_CHUNK_LENGTH));
+        await Promise.resolve();
+      }
+
+      return response;
+    },
+  };
+}
+
+export function createLLMProvider(
+  settings: LLMSettings,
+  fixtures: Record<string, string>,
+  fetchImpl: FetchLike = fetch
+): LLMProvider {
+  switch (settings.provider) {
+    case "anthropic":
+      return createAnthropicProvider(
+        { apiKey: settings.apiKey ?? "", baseUrl: settings.baseUrl },
+        fetchImpl
+      );
+    case "openai-compatible":
+      return createOpenAIProvider(
+        { apiKey: settings.apiKey, baseUrl: settings.baseUrl, name: "openai-compatible" },
+        fetchImpl
+      );
+    case "mock":
+      return createMockProvider(fixtures);
+    case "openai":
+    default:
+      return createOpenAIProvider(
+        { apiKey: settings.apiKey, baseUrl: settings.baseUrl },
+        fetchImpl
+      );
+  }
+}
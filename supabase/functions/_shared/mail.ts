@@ -0,0 +1,143 @@
+import { Resend } from "npm:resend@2.0.0";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.53.0";
+import {
+  createDirectoryOutboxWriter,
+  createOutboxSender,
+  createTableOutboxWriter,
+  resolveMailSettings,
+  withMailSettings,
+  type EmailMessage,
+  type MailSender,
+} from "./mailer.ts";
+
+// Resend-backed sender used in production
+export function createResendSender(apiKey: string): MailSender {
+  const resend = new Resend(apiKey);
+
+  return {
+    name: "resend",
+    async send(message: EmailMessage) {
+      const { data, error } = await resend.emails.send({
+        from: message.from!,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        reply_to: message.replyTo,
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return { id: data?.id };
+    },
+  };
+}
+
+export interface SmtpConfig {
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
+  // Implicit TLS (usually port 465); STARTTLS is negotiated otherwise
+  secure: boolean;
+}
+
+// Plain SMTP sender for self-hosted relays and local catchers (Mailpit, ...)
+export function createSmtpSender(config: SmtpConfig): MailSender {
+  return {
+    name: "smtp",
+    async send(message: EmailMessage) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: config.hostname,
+          port: config.port,
+          tls: config.secure,
+          auth: config.username
+            ? { username: config.username, password: config.password ?? "" }
+            : undefined,
+        },
+      });
+
+      try {
+        await client.send({
+          from: message.from!,
+          to: message.to,
+          replyTo: message.replyTo,
+          subject: message.subject,
+          content: message.text ?? "",
+          html: message.html,
+        });
+      } finally {
+        await client.close();
+      }
+
+      return {};
+    },
+  };
+}
+
+function createSmtpSenderFromEnv(): { sender?: MailSender; error?: string } {
+  const hostname = Deno.env.get("SMTP_HOST");
+  if (!hostname) {
+    return { error: "SMTP host not configured" };
+  }
+
+  const port = Number(Deno.env.get("SMTP_PORT") || 465);
+  if (!Number.isInteger(port) || port <= 0) {
+    return { error: "SMTP port is invalid" };
+  }
+
+  return {
+    sender: createSmtpSender({
+      hostname,
+      port,
+      username: Deno.env.get("SMTP_USERNAME") || undefined,
+      password: Deno.env.get("SMTP_PASSWORD") || undefined,
+      secure: (Deno.env.get("SMTP_SECURE") ?? String(port === 465)) === "true",
+    }),
+  };
+}
+
+// Pick the sender from MAIL_PROVIDER (resend, smtp or outbox). The outbox
+// writes to MAIL_OUTBOX_DIR when set, otherwise to the email_outbox table.
+export function createMailSender(
+  supabase?: SupabaseClient
+): { sender?: MailSender; error?: string } {
+  const { settings, error } = resolveMailSettings((name) => Deno.env.get(name));
+  if (!settings) {
+    return { error };
+  }
+
+  let result: { sender?: MailSender; error?: string };
+
+  switch (settings.provider) {
+    case "smtp":
+      result = createSmtpSenderFromEnv();
+      break;
+    case "outbox": {
+      const directory = Deno.env.get("MAIL_OUTBOX_DIR");
+      if (directory) {
+        result = { sender: createOutboxSender(createDirectoryOutboxWriter(directory)) };
+      } else if (supabase) {
+        result = { sender: createOutboxSender(createTableOutboxWriter(supabase)) };
+      } else {
+        result = { error: "Outbox needs MAIL_OUTBOX_DIR or a database client" };
+      }
+      break;
+    }
+    case "resend":
+    default: {
+      const resendApiKey = Deno.env.get("RESEND_API_KEY");
+      result = resendApiKey
+        ? { sender: createResendSender(resendApiKey) }
+        : { error: "Resend API key not configured" };
+    }
+  }
+
+  return result.sender
+    ? { sender: withMailSettings(result.sender, settings) }
+    : result;
+}
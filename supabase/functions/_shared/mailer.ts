@@ -0,0 +1,143 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.53.0";
+import { EMAIL_BRAND_NAME } from "./email-templates.ts";
+
+// Provider-independent mail types, sender settings and the local outbox sink.
+// Network providers (Resend, SMTP) live in mail.ts; this module stays free of
+// runtime imports so it can be unit tested outside Deno.
+
+// Outgoing email message handed to a mail sender
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text?: string;
+  // Filled in from MailSettings when left out
+  from?: string;
+  replyTo?: string;
+}
+
+// Anything able to deliver an email (Resend, SMTP, the outbox, ...)
+export interface MailSender {
+  name: string;
+  send(message: EmailMessage): Promise<{ id?: string }>;
+}
+
+export type MailProvider = "resend" | "smtp" | "outbox";
+
+// Sender identity, configured through MAIL_FROM / MAIL_REPLY_TO
+export interface MailSettings {
+  provider: MailProvider;
+  from: string;
+  replyTo?: string;
+}
+
+export const DEFAULT_MAIL_FROM = `${EMAIL_BRAND_NAME} <onboarding@resend.dev>`;
+
+const MAIL_PROVIDERS: MailProvider[] = ["resend", "smtp", "outbox"];
+
+// Read mail settings from the environment (`Deno.env.get` in functions)
+export function resolveMailSettings(
+  getEnv: (name: string) => string | undefined
+): { settings?: MailSettings; error?: string } {
+  const provider = (getEnv("MAIL_PROVIDER") || "resend").toLowerCase();
+
+  if (!MAIL_PROVIDERS.includes(provider as MailProvider)) {
+    return {
+      error: `Unknown MAIL_PROVIDER "${provider}" (expected ${MAIL_PROVIDERS.join(", ")})`,
+    };
+  }
+
+  return {
+    settings: {
+      provider: provider as MailProvider,
+      from: getEnv("MAIL_FROM") || DEFAULT_MAIL_FROM,
+      replyTo: getEnv("MAIL_REPLY_TO") || undefined,
+    },
+  };
+}
+
+// Wrap a sender so every message carries the configured from/reply-to
+export function withMailSettings(
+  sender: MailSender,
+  settings: Pick<MailSettings, "from" | "replyTo">
+): MailSender {
+  return {
+    name: sender.name,
+    send(message: EmailMessage) {
+      return sender.send({
+        ...message,
+        from: message.from ?? settings.from,
+        replyTo: message.replyTo ?? settings.replyTo,
+      });
+    },
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Outbox: keeps rendered messages instead of sending them
+// ----------------------------------------------------------------------------
+
+export interface OutboxEntry extends EmailMessage {
+  id: string;
+  created_at: string;
+}
+
+// Where outbox entries end up (the email_outbox table, a directory, memory)
+export type OutboxWriter = (entry: OutboxEntry) => Promise<void>;
+
+export function createOutboxSender(
+  write: OutboxWriter,
+  name = "outbox"
+): MailSender {
+  return {
+    name,
+    async send(message: EmailMessage) {
+      const entry: OutboxEntry = {
+        ...message,
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+      await write(entry);
+      return { id: entry.id };
+    },
+  };
+}
+
+// Rows in public.email_outbox (service role only)
+export function createTableOutboxWriter(supabase: SupabaseClient): OutboxWriter {
+  return async (entry) => {
+    const { error } = await supabase.from("email_outbox").insert({
+      id: entry.id,
+      to_addresses: entry.to,
+      from_address: entry.from ?? null,
+      reply_to: entry.replyTo ?? null,
+      subject: entry.subject,
+      html: entry.html,
+      text: entry.text ?? null,
+      created_at: entry.created_at,
+    });
+
+    if (error) {
+      throw new Error(`Failed to write to outbox: ${error.message}`);
+    }
+  };
+}
+
+// One JSON file plus an .html file per message, for opening in a browser
+export function createDirectoryOutboxWriter(directory: string): OutboxWriter {
+  return async (entry) => {
+    const base = `${directory.replace(/\/+$/, "")}/${entry.created_at.replace(/[:.]/g, "-")}-${entry.id}`;
+    await Deno.mkdir(directory, { recursive: true });
+    await Deno.writeTextFile(`${base}.json`, JSON.stringify(entry, null, 2));
+    await Deno.writeTextFile(`${base}.html`, entry.html);
+  };
+}
+
+// In-memory outbox for tests
+export function createMemoryOutbox(): { sender: MailSender; messages: OutboxEntry[] } {
+  const messages: OutboxEntry[] = [];
+  const sender = createOutboxSender(async (entry) => {
+    messages.push(entry);
+  }, "memory-outbox");
+  return { sender, messages };
+}
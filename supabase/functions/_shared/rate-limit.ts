@@ -0,0 +1,99 @@
+// Per-user limits for the AI functions. The counting happens in Postgres
+// (consume_ai_quota); this module holds the limits and shapes the result.
+
+export interface RateLimitConfig {
+  windowSeconds: number;
+  maxRequests: number;
+  // 0 turns the monthly budget off
+  monthlyTokenBudget: number;
+}
+
+// What the app is told about its remaining allowance
+export interface AIQuota {
+  remainingRequests: number;
+  tokensUsed: number;
+  tokenBudget: number | null;
+  resetsAt: string;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  reason: "rate_limit" | "monthly_quota" | null;
+  retryAfterSeconds: number;
+  quota: AIQuota;
+}
+
+// Inference runs automatically while typing, so it gets a tighter window
+// than the functions that only run on a click
+export const DEFAULT_RATE_LIMITS: Record<
+  string,
+  Pick<RateLimitConfig, "windowSeconds" | "maxRequests">
+> = {
+  "enhance-field": { windowSeconds: 60, maxRequests: 10 },
+  "enhance-goal": { windowSeconds: 60, maxRequests: 10 },
+  "enhance-letter": { windowSeconds: 60, maxRequests: 5 },
+  "infer-milestones": { windowSeconds: 60, maxRequests: 5 },
+  "suggest-milestones": { windowSeconds: 60, maxRequests: 5 },
+};
+
+export const DEFAULT_MONTHLY_TOKEN_BUDGET = 200_000;
+
+const readNonNegativeInt = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isInteger(number) && number >= 0 ? number : undefined;
+};
+
+// AI_RATE_LIMIT_WINDOW_SECONDS and AI_RATE_LIMIT_MAX_REQUESTS override the
+// window for every function; AI_MONTHLY_TOKEN_BUDGET sets the shared budget
+export function getRateLimitConfig(
+  functionName: string,
+  getEnv: (name: string) => string | undefined
+): RateLimitConfig {
+  const defaults =
+    DEFAULT_RATE_LIMITS[functionName] ?? { windowSeconds: 60, maxRequests: 5 };
+
+  return {
+    windowSeconds:
+      readNonNegativeInt(getEnv("AI_RATE_LIMIT_WINDOW_SECONDS")) ||
+      defaults.windowSeconds,
+    maxRequests:
+      readNonNegativeInt(getEnv("AI_RATE_LIMIT_MAX_REQUESTS")) ||
+      defaults.maxRequests,
+    monthlyTokenBudget:
+      readNonNegativeInt(getEnv("AI_MONTHLY_TOKEN_BUDGET")) ??
+      DEFAULT_MONTHLY_TOKEN_BUDGET,
+  };
+}
+
+// consume_ai_quota returns snake_case JSON
+export function toRateLimitDecision(
+  row: Record<string, unknown>
+): RateLimitDecision {
+  const budget = Number(row.token_budget) || 0;
+  const reason = row.reason;
+
+  return {
+    allowed: row.allowed === true,
+    reason:
+      reason === "rate_limit" || reason === "monthly_quota" ? reason : null,
+    retryAfterSeconds: Math.max(Number(row.retry_after_seconds) || 0, 0),
+    quota: {
+      remainingRequests: Math.max(Number(row.remaining_requests) || 0, 0),
+      tokensUsed: Number(row.tokens_used) || 0,
+      tokenBudget: budget > 0 ? budget : null,
+      resetsAt: String(row.resets_at ?? ""),
+    },
+  };
+}
+
+// The quota is read before the call; add what the call itself used
+export function withTokensUsed(quota: AIQuota, tokens: number | null): AIQuota {
+  return { ...quota, tokensUsed: quota.tokensUsed + (tokens ?? 0) };
+}
+
+export function getRateLimitMessage(decision: RateLimitDecision): string {
+  return decision.reason === "monthly_quota"
+    ? "Monthly AI quota reached"
+    : "Too many AI requests, please wait a moment";
+}
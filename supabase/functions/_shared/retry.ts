@@ -0,0 +1,48 @@
+// Retry policy for outgoing notifications. Pure so the worker, the
+// trigger function and the web app agree on attempts and backoff.
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// 1m, 2m, 4m, 8m between attempts, then dead-lettered after the 5th failure
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 6 * 60 * 60 * 1000,
+};
+
+// What to do with a notification whose attempt just failed
+export type RetryDecision =
+  | { status: "pending"; attemptCount: number; nextAttemptAt: Date }
+  | { status: "dead_letter"; attemptCount: number; nextAttemptAt: null };
+
+// Delay before the next attempt, doubling after every failure
+export function getRetryDelay(
+  attemptCount: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): number {
+  const exponent = Math.max(attemptCount - 1, 0);
+  return Math.min(policy.baseDelayMs * 2 ** exponent, policy.maxDelayMs);
+}
+
+// `previousAttempts` is the attempt_count stored before this failure
+export function planRetry(
+  previousAttempts: number | null | undefined,
+  now: Date = new Date(),
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): RetryDecision {
+  const attemptCount = (previousAttempts ?? 0) + 1;
+
+  if (attemptCount >= policy.maxAttempts) {
+    return { status: "dead_letter", attemptCount, nextAttemptAt: null };
+  }
+
+  return {
+    status: "pending",
+    attemptCount,
+    nextAttemptAt: new Date(now.getTime() + getRetryDelay(attemptCount, policy)),
+  };
+}
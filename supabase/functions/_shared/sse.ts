@@ -0,0 +1,70 @@
+// Server-sent events, both ways: reading a model's token stream in the edge
+// functions, and reading a function's stream in the app. No imports, so the
+// app shares this file as it is.
+
+export interface ServerSentEvent {
+  // "message" when the event has no name
+  event: string;
+  data: string;
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseBlock(block: string): ServerSentEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+    if (field === "event") event = value;
+    if (field === "data") data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
+
+// Events as they arrive. Aborting `signal` cancels the body, which ends the
+// loop and, for a fetch, closes the connection.
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const cancel = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  let buffer = "";
+
+  if (signal?.aborted) cancel();
+  signal?.addEventListener("abort", cancel);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? "";
+
+      for (const block of blocks) {
+        const event = parseBlock(block);
+        if (event) yield event;
+      }
+    }
+
+    const last = parseBlock(buffer + decoder.decode());
+    if (last && !signal?.aborted) yield last;
+  } finally {
+    // Also closes the connection when the caller stops reading early
+    signal?.removeEventListener("abort", cancel);
+    cancel();
+  }
+}
@@ -0,0 +1,197 @@
+import type { z } from "https://esm.sh/zod@3.23.8";
+import type { TokenUsage } from "./ai-events.ts";
+import type { ChatMessage, LLMResponse } from "./llm.ts";
+
+// JSON answers from a model, checked against a schema. Models wrap JSON in
+// code fences, add a sentence before it or leave a trailing comma; those are
+// cleaned up here. Anything the schema still rejects gets one repair round
+// in which the model is shown what was wrong.
+
+export interface StructuredResult<T> {
+  data?: T;
+  // Why the last answer was rejected, when no attempt passed
+  error?: string;
+  // The last completion, with the usage of every attempt added up
+  response?: LLMResponse;
+  attempts: number;
+}
+
+// The first JSON object or array in the text, without comments or trailing
+// commas. Returns null when there is none. A truncated answer is returned as
+// far as it goes and left for JSON.parse to reject.
+export function extractJSON(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const source = fenced ? fenced[1] : text;
+  const start = source.search(/[{[]/);
+  if (start === -1) return null;
+
+  let depth = 0;
+  let output = "";
+  let inString = false;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+
+    if (inString) {
+      output += char;
+      if (char === "\\") {
+        output += source[++i] ?? "";
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === "/" && source[i + 1] === "/") {
+      while (i < source.length && source[i] !== "\n") i++;
+      continue;
+    }
+    if (char === "/" && source[i + 1] === "*") {
+      const end = source.indexOf("*/", i + 2);
+      i = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      output = output.replace(/,\s*$/, "");
+      if (--depth === 0) return output + char;
+    }
+    output += char;
+  }
+
+  return output;
+}
+
+const describeIssues = (error: z.ZodError) =>
+  error.errors
+    .map((issue) => `${issue.path.join(".") || "response"}: ${issue.message}`)
+    .join(", ");
+
+export function parseStructured<T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { data?: T; error?: string } {
+  const json = extractJSON(text);
+  if (json === null) {
+    return { error: "No JSON found in the response" };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return {
+      error: `Invalid JSON: ${error instanceof Error ? error.message : "parse error"}`,
+    };
+  }
+
+  const result = schema.safeParse(value);
+  return result.success
+    ? { data: result.data }
+    : { error: `Unexpected response shape: ${describeIssues(result.error)}` };
+}
+
+const addCounts = (a: number | null, b: number | null) =>
+  a === null && b === null ? null : (a ?? 0) + (b ?? 0);
+
+function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    prompt_tokens: addCounts(a.prompt_tokens, b.prompt_tokens),
+    completion_tokens: addCounts(a.completion_tokens, b.completion_tokens),
+    total_tokens: addCounts(a.total_tokens, b.total_tokens),
+  };
+}
+
+export function buildRepairMessages(
+  messages: ChatMessage[],
+  reply: string,
+  error: string
+): ChatMessage[] {
+  return [
+    ...messages,
+    { role: "assistant", content: reply },
+    {
+      role: "user",
+      content: `That response could not be used (${error}). Reply again with only the corrected JSON in the format requested above: no code fences, comments or other text.`,
+    },
+  ];
+}
+
+// Ask, validate and, if needed, ask again with the rejected answer and the
+// reason. `complete` errors are not caught: a failed call is not a bad answer.
+// `attempt` starts at 1, so a caller can stream the first answer only.
+export async function completeStructured<T>(
+  complete: (messages: ChatMessage[], attempt: number) => Promise<LLMResponse>,
+  messages: ChatMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  maxAttempts: number = 2
+): Promise<StructuredResult<T>> {
+  let conversation = messages;
+  let response: LLMResponse | undefined;
+  let error: string | undefined;
+  let attempts = 0;
+
+  while (attempts < maxAttempts) {
+    const reply = await complete(conversation, ++attempts);
+    response = response
+      ? { ...reply, usage: addUsage(response.usage, reply.usage) }
+      : reply;
+
+    const parsed = parseStructured(reply.content, schema);
+    if (parsed.error === undefined) {
+      return { data: parsed.data, response, attempts };
+    }
+
+    error = parsed.error;
+    conversation = buildRepairMessages(messages, reply.content, error);
+  }
+
+  return { error, response, attempts };
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+// The text of a string field in JSON that is still being written, e.g.
+// `{"suggestion": "A Year of Sm` gives "A Year of Sm". Stops before an
+// unfinished escape, so the result only ever grows as more text arrives.
+export function readPartialJSONString(text: string, key: string): string {
+  const start = text.match(new RegExp(`"${key}"\\s*:\\s*"`));
+  if (!start || start.index === undefined) return "";
+
+  let value = "";
+  for (let i = start.index + start[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char !== "\\") {
+      value += char;
+      continue;
+    }
+
+    const escaped = text[i + 1];
+    if (escaped === undefined) break;
+    if (escaped === "u") {
+      const hex = text.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ESCAPES[escaped] ?? escaped;
+      i += 1;
+    }
+  }
+
+  return value;
+}
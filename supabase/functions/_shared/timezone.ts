@@ -0,0 +1,127 @@
+// Timezone helpers shared by the edge functions and the web app.
+// Dependency-free (Intl only) so the same code runs in Deno and the browser.
+
+export const DEFAULT_TIMEZONE = "UTC";
+export const DEFAULT_DELIVERY_HOUR = 9;
+
+export interface DeliverySettings {
+  timezone?: string | null;
+  delivery_hour?: number | null;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Return the zone if Intl knows it, otherwise fall back to UTC
+export function resolveTimeZone(timeZone?: string | null): string {
+  if (!timeZone) return DEFAULT_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+// The browser's (or runtime's) own zone
+export function getLocalTimeZone(): string {
+  return resolveTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+}
+
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+// Offset of `timeZone` from UTC at the given instant, in milliseconds
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUTC - (date.getTime() - date.getMilliseconds());
+}
+
+// Convert a wall-clock time (YYYY-MM-DD + hour) in `timeZone` to a UTC instant
+export function zonedTimeToUtc(
+  date: string,
+  hour: number,
+  timeZone: string
+): Date {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  const zone = resolveTimeZone(timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour);
+
+  // Re-check the offset at the candidate instant to land on the right side
+  // of a DST transition
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), zone);
+  const offset = getTimeZoneOffset(new Date(firstGuess), zone);
+  return new Date(wallClock - offset);
+}
+
+// Calendar date (YYYY-MM-DD) of an instant as seen in `timeZone`
+export function formatDateInTimeZone(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, resolveTimeZone(timeZone));
+  return [
+    String(p.year).padStart(4, "0"),
+    String(p.month).padStart(2, "0"),
+    String(p.day).padStart(2, "0"),
+  ].join("-");
+}
+
+// Add whole calendar days to a YYYY-MM-DD date
+export function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
+
+// Today's calendar date for the user
+export function getTodayInTimeZone(timeZone: string, now: Date = new Date()): string {
+  return formatDateInTimeZone(now, timeZone);
+}
+
+// The instant a letter with this send date should be delivered
+export function getDeliveryInstant(
+  sendDate: string,
+  settings: DeliverySettings = {}
+): Date {
+  return zonedTimeToUtc(
+    sendDate,
+    settings.delivery_hour ?? DEFAULT_DELIVERY_HOUR,
+    resolveTimeZone(settings.timezone)
+  );
+}
+
+// Whole calendar days between the user's today and the send date.
+// Negative once the send date has passed.
+export function getDaysUntilDelivery(
+  sendDate: string,
+  timeZone: string,
+  now: Date = new Date()
+): number {
+  const today = getTodayInTimeZone(timeZone, now);
+  const toUtcMidnight = (value: string) => {
+    const [year, month, day] = value.slice(0, 10).split("-").map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtcMidnight(sendDate) - toUtcMidnight(today)) / MS_PER_DAY);
+}
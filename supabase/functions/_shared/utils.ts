@@ -1,5 +1,28 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.53.0";
 import { z } from "https://esm.sh/zod@3.23.8";
+import {
+  resolveAIPreferences,
+  type AIPreferences,
+} from "./ai-preferences.ts";
+import { recordAIEvent, type AIEvent } from "./ai-events.ts";
+import {
+  createLLMProvider,
+  resolveCallOptions,
+  resolveLLMSettings,
+  type ChatMessage,
+  type LLMCallOptions,
+  type LLMProvider,
+  type LLMResponse,
+} from "./llm.ts";
+import { MOCK_LLM_FIXTURES } from "./llm-fixtures.ts";
+import { completeStructured } from "./structured-output.ts";
+import { formatServerSentEvent } from "./sse.ts";
+import {
+  getRateLimitConfig,
+  getRateLimitMessage,
+  toRateLimitDecision,
+  type RateLimitDecision,
+} from "./rate-limit.ts";
 
 // Environment variables
 const supabaseUrl = Deno.env.get("SUPABASE_URL");
@@ -112,6 +135,101 @@ export async function verifyJWT(
   }
 }
 
+// Service-to-service verification for scheduled jobs (pg_cron, CI, ...).
+// Accepts the service role key or a dedicated CRON_SECRET.
+export function verifyServiceRequest(authHeader: string | null): {
+  authorized: boolean;
+  error?: string;
+} {
+  if (!authHeader?.startsWith("Bearer ")) {
+    return { authorized: false, error: "No authorization header" };
+  }
+
+  const token = authHeader.substring(7);
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  if (
+    (supabaseServiceKey && token === supabaseServiceKey) ||
+    (cronSecret && token === cronSecret)
+  ) {
+    return { authorized: true };
+  }
+
+  return { authorized: false, error: "Invalid service credentials" };
+}
+
+// The caller's tone, language and timezone for the AI functions. A missing profile or
+// a failed lookup falls back to the defaults rather than failing the request.
+export async function getAIPreferences(userId: string): Promise<AIPreferences> {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return resolveAIPreferences(null);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { data } = await supabase
+      .from("profiles")
+      .select("language, timezone, ai_preferences")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    return resolveAIPreferences(data);
+  } catch {
+    return resolveAIPreferences(null);
+  }
+}
+
+// Per-user rate limit and monthly token budget for the AI functions. Counts
+// the call if it is allowed. Returns null when the limiter itself can't be
+// reached; AI calls then go ahead rather than failing for everyone.
+export async function checkRateLimit(
+  userId: string,
+  functionName: string
+): Promise<RateLimitDecision | null> {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  const config = getRateLimitConfig(functionName, (name) => Deno.env.get(name));
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { data, error } = await supabase.rpc("consume_ai_quota", {
+      p_user_id: userId,
+      p_function_name: functionName,
+      p_window_seconds: config.windowSeconds,
+      p_max_requests: config.maxRequests,
+      p_monthly_token_budget: config.monthlyTokenBudget,
+    });
+
+    if (error || !data) {
+      console.error("Rate limit check failed:", error);
+      return null;
+    }
+
+    return toRateLimitDecision(data);
+  } catch (error) {
+    console.error("Rate limit check failed:", error);
+    return null;
+  }
+}
+
+// 429 with a Retry-After header and the quota in the details
+export function createRateLimitedResponse(decision: RateLimitDecision): Response {
+  const response = createErrorResponse(
+    "RATE_LIMITED",
+    getRateLimitMessage(decision),
+    {
+      reason: decision.reason,
+      retryAfterSeconds: decision.retryAfterSeconds,
+      quota: decision.quota,
+    },
+    429
+  );
+  response.headers.set("Retry-After", String(decision.retryAfterSeconds));
+  return response;
+}
+
 // Input validation schemas
 export const LetterEnhancementSchema = z.object({
   title: z.string().optional(),
@@ -127,10 +245,20 @@ export const MilestoneSuggestionSchema = z.object({
   sendDate: z.string().min(1, "Send date is required"),
 });
 
-export const LetterDeliverySchema = z.object({
-  letterId: z.string().uuid(),
-  action: z.enum(["schedule", "send"]),
-});
+export const LetterDeliverySchema = z
+  .object({
+    letterId: z.string().uuid(),
+    action: z.enum(["schedule", "send", "retry", "cancel", "reschedule"]),
+    // New send date (YYYY-MM-DD) for "reschedule"
+    sendDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Send date must be YYYY-MM-DD")
+      .optional(),
+  })
+  .refine((data) => data.action !== "reschedule" || !!data.sendDate, {
+    message: "Send date is required to reschedule",
+    path: ["sendDate"],
+  });
 
 // Generic input validation helper
 export function validateInput<T>(
@@ -151,45 +279,253 @@ export function validateInput<T>(
   }
 }
 
-// OpenAI API helper
-export async function callOpenAI(
-  messages: Array<{ role: string; content: string }>,
+// The provider chosen by LLM_PROVIDER and this function's call options. The
+// model, temperature and max tokens can be overridden per function (see llm.ts).
+function getLLMCall(
+  functionName: string,
+  maxTokens: number,
+  temperature: number
+): { provider?: LLMProvider; options?: LLMCallOptions; error?: string } {
+  const getEnv = (name: string) => Deno.env.get(name);
+  const { settings, error } = resolveLLMSettings(getEnv);
+
+  if (!settings) {
+    return { error };
+  }
+
+  return {
+    provider: createLLMProvider(settings, MOCK_LLM_FIXTURES),
+    options: resolveCallOptions(
+      functionName,
+      { maxTokens, temperature },
+      settings,
+      getEnv
+    ),
+  };
+}
+
+const describeLLMError = (provider: LLMProvider, error: unknown) =>
+  `${provider.name} call failed: ${
+    error instanceof Error ? error.message : "Unknown error"
+  }`;
+
+// Chat completion as plain text. latencyMs covers the whole round trip,
+// failed or not.
+export async function callLLM(
+  functionName: string,
+  messages: ChatMessage[],
   maxTokens: number = 800,
   temperature: number = 0.7
-): Promise<{ data?: Record<string, unknown>; error?: string }> {
-  const openAIApiKey = Deno.env.get("OPENAI_API_KEY");
+): Promise<{ data?: LLMResponse; error?: string; latencyMs: number }> {
+  const { provider, options, error } = getLLMCall(
+    functionName,
+    maxTokens,
+    temperature
+  );
 
-  if (!openAIApiKey) {
-    return { error: "OpenAI API key not configured" };
+  if (!provider) {
+    return { error, latencyMs: 0 };
   }
 
+  const startedAt = Date.now();
   try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${openAIApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages,
-        max_tokens: maxTokens,
-        temperature,
-      }),
+    const data = await provider.complete({
+      name: functionName,
+      messages,
+      ...options,
     });
+    return { data, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      error: describeLLMError(provider, error),
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+}
+
+export interface StructuredLLMResult<T> {
+  data?: T;
+  response?: LLMResponse;
+  error?: string;
+  invalid?: string;
+  attempts: number;
+  latencyMs: number;
+}
+
+async function runStructured<T>(
+  functionName: string,
+  messages: ChatMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  maxTokens: number,
+  temperature: number,
+  streaming?: { onContent: (content: string) => void; signal?: AbortSignal }
+): Promise<StructuredLLMResult<T>> {
+  const { provider, options, error } = getLLMCall(
+    functionName,
+    maxTokens,
+    temperature
+  );
+
+  if (!provider) {
+    return { error, attempts: 0, latencyMs: 0 };
+  }
+
+  const startedAt = Date.now();
+  let response: LLMResponse | undefined;
+  let attempts = 0;
+  try {
+    const result = await completeStructured(
+      async (conversation, attempt) => {
+        const request = {
+          name: functionName,
+          messages: conversation,
+          responseFormat: "json" as const,
+          ...options,
+        };
+        let content = "";
+        // Only the first answer is streamed; a repair replaces it at the end
+        const reply =
+          streaming && attempt === 1
+            ? await provider.stream(
+                request,
+                (delta) => {
+                  content += delta;
+                  streaming.onContent(content);
+                },
+                streaming.signal
+              )
+            : await provider.complete(request);
+        response = reply;
+        attempts = attempt;
+        return reply;
+      },
+      messages,
+      schema
+    );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      return { error: `OpenAI API error: ${response.status} - ${errorText}` };
+    if (result.attempts > 1) {
+      console.warn(
+        `${functionName}: ${result.error ? "could not repair" : "repaired"} the JSON answer`,
+        result.error ?? ""
+      );
     }
 
-    const data = await response.json();
-    return { data };
+    return {
+      data: result.data,
+      response: result.response,
+      invalid: result.error,
+      attempts: result.attempts,
+      latencyMs: Date.now() - startedAt,
+    };
   } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    return { error: `OpenAI API call failed: ${errorMessage}` };
+    // A failed repair round still used the tokens of the first answer
+    return {
+      response,
+      error: streaming?.signal?.aborted
+        ? "Cancelled"
+        : describeLLMError(provider, error),
+      attempts,
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+}
+
+// Chat completion in JSON mode, validated against `schema` with one repair
+// round (see structured-output.ts). `error` means the call itself failed;
+// `invalid` means it answered, but not in a usable shape. `response` carries
+// the model and the usage of every attempt either way.
+export function callLLMStructured<T>(
+  functionName: string,
+  messages: ChatMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  maxTokens: number = 800,
+  temperature: number = 0.7
+): Promise<StructuredLLMResult<T>> {
+  return runStructured(functionName, messages, schema, maxTokens, temperature);
+}
+
+// callLLMStructured, with the answer passed to onContent as it is written.
+// Aborting `signal` stops the model; the result then has error "Cancelled".
+export function streamLLMStructured<T>(
+  functionName: string,
+  messages: ChatMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  onContent: (content: string) => void,
+  signal: AbortSignal,
+  maxTokens: number = 800,
+  temperature: number = 0.7
+): Promise<StructuredLLMResult<T>> {
+  return runStructured(functionName, messages, schema, maxTokens, temperature, {
+    onContent,
+    signal,
+  });
+}
+
+// A text/event-stream response fed by `run`. Whatever `run` throws becomes an
+// "error" event. When the client goes away, `signal` aborts and `send` stops
+// writing.
+export function createEventStreamResponse(
+  run: (
+    send: (event: string, data: unknown) => void,
+    signal: AbortSignal
+  ) => Promise<void>
+): Response {
+  const abort = new AbortController();
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+        }
+      };
+
+      run(send, abort.signal)
+        .catch((error) => {
+          console.error("Event stream failed:", error);
+          send("error", {
+            code: "INTERNAL_ERROR",
+            message: "An unexpected error occurred",
+          });
+        })
+        .finally(() => {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        });
+    },
+    cancel() {
+      closed = true;
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+// Why AI calls can't be made right now, if they can't
+export function getLLMConfigurationError(): string | undefined {
+  return resolveLLMSettings((name) => Deno.env.get(name)).error;
+}
+
+// Persist an AI call to ai_events with the service role. Returns the row id,
+// or null if it could not be written.
+export async function logAIEvent(event: AIEvent): Promise<string | null> {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
   }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  return await recordAIEvent(supabase, event);
 }
 
 // Logging helper
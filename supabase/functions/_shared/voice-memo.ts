@@ -0,0 +1,58 @@
+// Voice memos live in a private Storage bucket under `<user_id>/<file>`.
+// letters.voice_memo_url holds that object path; older rows may still hold
+// an absolute URL, which is passed through unchanged.
+//
+// Shared with the web app, so it only describes the slice of the Supabase
+// client it needs instead of importing the Deno build.
+
+export interface VoiceMemoStorageClient {
+  storage: {
+    from(bucket: string): {
+      createSignedUrl(
+        path: string,
+        expiresIn: number
+      ): Promise<{ data: { signedUrl: string } | null; error: { message: string } | null }>;
+    };
+  };
+}
+
+export const VOICE_MEMO_BUCKET = "voice-memos";
+
+// How long the link in a delivery email keeps working
+export const VOICE_MEMO_EMAIL_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export function isExternalVoiceMemoUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+// Turn a stored voice memo reference into a time-limited link
+export async function createVoiceMemoLink(
+  supabase: VoiceMemoStorageClient,
+  value: string | null | undefined,
+  expiresIn: number = VOICE_MEMO_EMAIL_LINK_TTL_SECONDS
+): Promise<string | null> {
+  if (!value) return null;
+  if (isExternalVoiceMemoUrl(value)) return value;
+
+  const { data, error } = await supabase.storage
+    .from(VOICE_MEMO_BUCKET)
+    .createSignedUrl(value, expiresIn);
+
+  if (error || !data?.signedUrl) {
+    throw new Error(`Failed to sign voice memo link: ${error?.message ?? "no URL returned"}`);
+  }
+
+  return data.signedUrl;
+}
+
+// Copy of the letter whose voice memo points at a signed link, ready to render
+export async function withSignedVoiceMemo<T extends { voice_memo_url?: string | null }>(
+  supabase: VoiceMemoStorageClient,
+  letter: T
+): Promise<T> {
+  if (!letter.voice_memo_url) return letter;
+  return {
+    ...letter,
+    voice_memo_url: await createVoiceMemoLink(supabase, letter.voice_memo_url),
+  };
+}
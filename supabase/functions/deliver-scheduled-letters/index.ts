@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.53.0";
+import { z } from "https://esm.sh/zod@3.23.8";
+import {
+  corsHeaders,
+  createErrorResponse,
+  createSuccessResponse,
+  verifyServiceRequest,
+  validateInput,
+  logFunctionCall,
+  logFunctionResult,
+} from "../_shared/utils.ts";
+import { processDueNotifications } from "../_shared/delivery.ts";
+import { createMailSender } from "../_shared/mail.ts";
+
+// Optional body when invoked by hand; cron invocations send `{}`
+const DeliveryRunSchema = z.object({
+  batchSize: z.number().int().min(1).max(100).optional(),
+});
+
+interface DeliveryRunRequest {
+  batchSize?: number;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only the scheduler (service role key or CRON_SECRET) may run deliveries
+  const authHeader = req.headers.get("authorization");
+  const { authorized, error: authError } = verifyServiceRequest(authHeader);
+
+  if (!authorized) {
+    return createErrorResponse(
+      "UNAUTHORIZED",
+      "Service credentials required",
+      { authError },
+      401
+    );
+  }
+
+  try {
+    const requestData: DeliveryRunRequest = await req.json().catch(() => ({}));
+
+    // Log function call
+    logFunctionCall("deliver-scheduled-letters", requestData);
+
+    // Validate input
+    const validation = validateInput(DeliveryRunSchema, requestData);
+    if (validation.error) {
+      return createErrorResponse("VALIDATION_ERROR", validation.error);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return createErrorResponse(
+        "CONFIGURATION_ERROR",
+        "Supabase configuration missing"
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { sender, error: senderError } = createMailSender(supabase);
+    if (!sender) {
+      return createErrorResponse("CONFIGURATION_ERROR", senderError);
+    }
+
+    const summary = await processDueNotifications(supabase, sender, {
+      batchSize: requestData.batchSize,
+      appUrl: Deno.env.get("APP_URL"),
+    });
+
+    // Log successful result
+    logFunctionResult("deliver-scheduled-letters", {
+      sender: sender.name,
+      ...summary,
+    });
+
+    // Return success response
+    return createSuccessResponse(summary);
+  } catch (error: any) {
+    // Log error
+    logFunctionResult("deliver-scheduled-letters", null, error);
+
+    return createErrorResponse(
+      "INTERNAL_ERROR",
+      "An unexpected error occurred",
+      { error: error.message }
+    );
+  }
+};
+
+serve(handler);
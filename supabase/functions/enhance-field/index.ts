@@ -6,10 +6,33 @@ import {
   createSuccessResponse,
   verifyJWT,
   validateInput,
-  callOpenAI,
+  callLLMStructured,
+  streamLLMStructured,
+  createEventStreamResponse,
+  type StructuredLLMResult,
+  getLLMConfigurationError,
   logFunctionCall,
   logFunctionResult,
+  getAIPreferences,
+  logAIEvent,
+  checkRateLimit,
+  createRateLimitedResponse,
 } from "../_shared/utils.ts";
+import { withPersona } from "../_shared/ai-preferences.ts";
+import { getTokenUsage } from "../_shared/ai-events.ts";
+import { withTokensUsed, type AIQuota } from "../_shared/rate-limit.ts";
+import {
+  getFieldAlternativesSchema,
+  getFieldEnhancementSchema,
+} from "../_shared/ai-schemas.ts";
+import {
+  buildAlternativesFormat,
+  buildAvoidPrompt,
+  getEnhancementStyles,
+  type EnhancementStyle,
+} from "../_shared/enhancement-styles.ts";
+import { readPartialJSONString } from "../_shared/structured-output.ts";
+import type { ChatMessage } from "../_shared/llm.ts";
 import { z } from "https://esm.sh/zod@3.23.8";
 
 // Input validation schema
@@ -23,6 +46,15 @@ const FieldEnhancementSchema = z.object({
       content: z.string().optional(),
     })
     .optional(),
+  // Answer with server-sent events instead of a single JSON response
+  stream: z.boolean().optional(),
+  // One suggestion per style, up to the styles the field has
+  alternatives: z.number().int().min(1).max(3).optional(),
+  // Earlier suggestions a regenerated one must not repeat
+  avoid: z.array(z.string()).max(10).optional(),
+}).refine((data) => !data.stream || !data.alternatives || data.alternatives === 1, {
+  message: "Alternatives can't be streamed",
+  path: ["stream"],
 });
 
 interface FieldEnhancementRequest {
@@ -33,11 +65,25 @@ interface FieldEnhancementRequest {
     goal?: string;
     content?: string;
   };
+  stream?: boolean;
+  alternatives?: number;
+  avoid?: string[];
+}
+
+interface FieldEnhancementAlternative {
+  style: EnhancementStyle;
+  suggestion: string;
+  explanation: string;
 }
 
 interface FieldEnhancementResponse {
   suggestion: string;
   explanation: string;
+  // With alternatives: the first one is also the suggestion above
+  style?: EnhancementStyle;
+  alternatives?: FieldEnhancementAlternative[];
+  eventId?: string | null;
+  quota?: AIQuota | null;
 }
 
 serve(async (req) => {
@@ -71,17 +117,34 @@ serve(async (req) => {
       return createErrorResponse("VALIDATION_ERROR", validation.error);
     }
 
-    const { field, value, context } = requestData;
+    const { field, value, context, stream, alternatives, avoid = [] } = requestData;
+    const styles =
+      alternatives && alternatives > 1
+        ? getEnhancementStyles(field).slice(0, alternatives)
+        : [];
+    const aiPreferences = await getAIPreferences(user.id);
 
-    // Check if OpenAI API key is available
-    const openAIApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openAIApiKey) {
-      return createErrorResponse(
-        "CONFIGURATION_ERROR",
-        "OpenAI API key not configured"
-      );
+    const rateLimit = await checkRateLimit(user.id, "enhance-field");
+    if (rateLimit && !rateLimit.allowed) {
+      return createRateLimitedResponse(rateLimit);
+    }
+
+    // Check that an AI provider is configured
+    const configurationError = getLLMConfigurationError();
+    if (configurationError) {
+      return createErrorResponse("CONFIGURATION_ERROR", configurationError);
     }
 
+    // One suggestion, or one per style
+    const responseFormat = (suggestion: string) =>
+      styles.length > 1
+        ? buildAlternativesFormat(styles, suggestion)
+        : `RESPOND WITH VALID JSON IN THIS EXACT FORMAT:
+{
+  "suggestion": "${suggestion}",
+  "explanation": "brief explanation of what was improved and why"
+}`;
+
     // Create contextual enhancement prompts based on field type
     let systemPrompt = "";
     let userPrompt = "";
@@ -90,11 +153,7 @@ serve(async (req) => {
       case "title":
         systemPrompt = `You are an expert writer specializing in creating compelling, emotional titles for personal letters to future selves. Your task is to enhance letter titles while maintaining the user's original intent and voice.
 
-RESPOND WITH VALID JSON IN THIS EXACT FORMAT:
-{
-  "suggestion": "enhanced title",
-  "explanation": "brief explanation of what was improved and why"
-}
+${responseFormat("enhanced title")}
 
 Guidelines for title enhancement:
 - Add emotional depth and forward-looking language
@@ -119,11 +178,7 @@ Return ONLY the JSON response with your enhanced title and explanation.`;
       case "goal":
         systemPrompt = `You are a goal-setting expert and life coach. Your task is to enhance personal goals to make them more SMART (Specific, Measurable, Achievable, Relevant, Time-bound) while maintaining the user's passion and personal voice.
 
-RESPOND WITH VALID JSON IN THIS EXACT FORMAT:
-{
-  "suggestion": "enhanced goal with specific strategies and mindset framing",
-  "explanation": "brief explanation of what was improved and why"
-}
+${responseFormat("enhanced goal with specific strategies and mindset framing")}
 
 Guidelines for goal enhancement:
 - Make goals more specific and actionable
@@ -148,11 +203,7 @@ Make it more actionable and inspiring while keeping the personal touch. Return O
       case "content":
         systemPrompt = `You are an expert in personal letter writing and emotional communication. Your task is to enhance letter content while preserving the user's authentic voice and personal message.
 
-RESPOND WITH VALID JSON IN THIS EXACT FORMAT:
-{
-  "suggestion": "enhanced letter content",
-  "explanation": "brief explanation of what was improved and why"
-}
+${responseFormat("enhanced letter content")}
 
 Guidelines for content enhancement:
 - Improve emotional connection and warmth
@@ -176,48 +227,145 @@ Improve the emotional connection and impact while maintaining the personal voice
         break;
     }
 
-    // Call OpenAI API
-    const openAIResult = await callOpenAI(
-      [
-        {
-          role: "system",
-          content: systemPrompt,
-        },
-        {
-          role: "user",
-          content: userPrompt,
-        },
-      ],
-      500,
-      0.7
-    );
+    userPrompt += buildAvoidPrompt(avoid);
+
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: withPersona(systemPrompt, aiPreferences),
+      },
+      {
+        role: "user",
+        content: userPrompt,
+      },
+    ];
+
+    // Every call is kept in ai_events, including the ones that fail
+    const recordEvent = (
+      aiResult: StructuredLLMResult<unknown>,
+      status: "completed" | "failed",
+      output: Record<string, unknown>
+    ) =>
+      logAIEvent({
+        userId: user.id,
+        eventType: "field_enhancement",
+        input: { field, value, context, stream: !!stream, styles, avoid },
+        output,
+        status,
+        latencyMs: aiResult.latencyMs,
+        response: aiResult.response,
+      });
+
+    // The validated answer, or the fallback enhancement if it could not be
+    // repaired, with the event id and the quota left
+    const finish = async (
+      aiResult: StructuredLLMResult<unknown>,
+      answer?: FieldEnhancementResponse
+    ): Promise<FieldEnhancementResponse> => {
+      const usedFallback = !answer;
+      const result: FieldEnhancementResponse = answer ?? {
+        suggestion: getSimpleEnhancement(field, value),
+        explanation: `Added improvements to make your ${field} more impactful and engaging.`,
+      };
 
-    if (openAIResult.error) {
+      // The id lets the app report whether the suggestion was used
+      const eventId = await recordEvent(aiResult, "completed", {
+        ...result,
+        fallback: usedFallback,
+        attempts: aiResult.attempts,
+        invalid: aiResult.invalid,
+      });
+
+      logFunctionResult("enhance-field", result);
+
+      return {
+        ...result,
+        eventId,
+        quota: rateLimit
+          ? withTokensUsed(rateLimit.quota, getTokenUsage(aiResult.response).total_tokens)
+          : null,
+      };
+    };
+
+    if (stream) {
+      // "delta" events carry the suggestion text as it is written, "done"
+      // the validated response, which replaces it. Closing the connection
+      // stops the model.
+      return createEventStreamResponse(async (send, signal) => {
+        let streamed = "";
+        const aiResult = await streamLLMStructured(
+          "enhance-field",
+          messages,
+          getFieldEnhancementSchema(avoid),
+          (content) => {
+            const suggestion = readPartialJSONString(content, "suggestion");
+            if (suggestion.length > streamed.length) {
+              send("delta", { text: suggestion.slice(streamed.length) });
+              streamed = suggestion;
+            }
+          },
+          signal,
+          500,
+          0.7
+        );
+
+        if (aiResult.error) {
+          await recordEvent(aiResult, "failed", {
+            error: aiResult.error,
+            cancelled: signal.aborted,
+          });
+          send("error", {
+            code: "OPENAI_API_ERROR",
+            message: "Failed to enhance field",
+          });
+          return;
+        }
+
+        send("done", await finish(aiResult, aiResult.data));
+      });
+    }
+
+    // Call the AI provider; the answer is validated and repaired if needed
+    let aiResult: StructuredLLMResult<unknown>;
+    let answer: FieldEnhancementResponse | undefined;
+
+    if (styles.length > 1) {
+      const result = await callLLMStructured(
+        "enhance-field",
+        messages,
+        getFieldAlternativesSchema(avoid),
+        500 * styles.length,
+        0.9
+      );
+      // Styles go by position; whatever style the model named is ignored
+      const answered = result.data?.alternatives
+        .slice(0, styles.length)
+        .map((alternative, index) => ({ ...alternative, style: styles[index] }));
+      aiResult = result;
+      answer = answered && { ...answered[0], alternatives: answered };
+    } else {
+      const result = await callLLMStructured(
+        "enhance-field",
+        messages,
+        getFieldEnhancementSchema(avoid),
+        500,
+        0.7
+      );
+      aiResult = result;
+      answer = result.data;
+    }
+
+    if (aiResult.error) {
+      await recordEvent(aiResult, "failed", { error: aiResult.error });
       return createErrorResponse(
         "OPENAI_API_ERROR",
         "Failed to enhance field",
-        { openAIError: openAIResult.error }
+        { openAIError: aiResult.error }
       );
     }
 
-    // Parse the AI response
-    let result: FieldEnhancementResponse;
-    try {
-      const aiResponse = openAIResult.data.choices[0].message.content;
-      result = JSON.parse(aiResponse);
-    } catch (parseError) {
-      // Fallback enhancement if JSON parsing fails
-      result = {
-        suggestion: getSimpleEnhancement(field, value),
-        explanation: `Added improvements to make your ${field} more impactful and engaging.`,
-      };
-    }
-
-    // Log successful result
-    logFunctionResult("enhance-field", result);
-
     // Return success response
-    return createSuccessResponse(result);
+    return createSuccessResponse(await finish(aiResult, answer));
   } catch (error) {
     // Log error
     logFunctionResult("enhance-field", null, error);
@@ -7,10 +7,15 @@ import {
   createSuccessResponse,
   verifyJWT,
   validateInput,
-  callOpenAI,
+  callLLM,
   logFunctionCall,
   logFunctionResult,
+  getAIPreferences,
+  logAIEvent,
+  checkRateLimit,
+  createRateLimitedResponse,
 } from "../_shared/utils.ts";
+import { withPersona } from "../_shared/ai-preferences.ts";
 
 // Input validation schema for goal enhancement
 const GoalEnhancementSchema = z.object({
@@ -53,14 +58,23 @@ serve(async (req) => {
     }
 
     const { goal } = requestData;
+    const aiPreferences = await getAIPreferences(user.id);
 
-    // Call OpenAI API
-    const openAIResult = await callOpenAI(
+    const rateLimit = await checkRateLimit(user.id, "enhance-goal");
+    if (rateLimit && !rateLimit.allowed) {
+      return createRateLimitedResponse(rateLimit);
+    }
+
+    // Call the AI provider
+    const aiResult = await callLLM(
+      "enhance-goal",
       [
         {
           role: "system",
-          content:
+          content: withPersona(
             "You are a goal clarity expert. Transform vague goals into specific, measurable, inspiring goals. Make them SMART (Specific, Measurable, Achievable, Relevant, Time-bound) while keeping the user's original intent and passion. Keep it concise but motivating.",
+            aiPreferences
+          ),
         },
         {
           role: "user",
@@ -71,13 +85,31 @@ serve(async (req) => {
       0.7
     );
 
-    if (openAIResult.error) {
+    // Every call is kept in ai_events, including the ones that fail
+    const recordEvent = (
+      status: "completed" | "failed",
+      output: Record<string, unknown>
+    ) =>
+      logAIEvent({
+        userId: user.id,
+        eventType: "goal_rewrite",
+        input: { goal },
+        output,
+        status,
+        latencyMs: aiResult.latencyMs,
+        response: aiResult.data,
+      });
+
+    if (aiResult.error) {
+      await recordEvent("failed", { error: aiResult.error });
       return createErrorResponse("OPENAI_API_ERROR", "Failed to enhance goal", {
-        openAIError: openAIResult.error,
+        openAIError: aiResult.error,
       });
     }
 
-    const enhancedGoal = openAIResult.data.choices[0].message.content;
+    const enhancedGoal = aiResult.data.content;
+
+    await recordEvent("completed", { enhancedGoal });
 
     // Log successful result
     logFunctionResult("enhance-goal", { enhancedGoal });
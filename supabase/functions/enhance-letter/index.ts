@@ -7,10 +7,21 @@ import {
   verifyJWT,
   validateInput,
   LetterEnhancementSchema,
-  callOpenAI,
+  callLLMStructured,
+  getLLMConfigurationError,
   logFunctionCall,
   logFunctionResult,
+  getAIPreferences,
+  logAIEvent,
+  checkRateLimit,
+  createRateLimitedResponse,
 } from "../_shared/utils.ts";
+import { withPersona } from "../_shared/ai-preferences.ts";
+import {
+  EnhancementResponseSchema,
+  clampDate,
+  getDateWindow,
+} from "../_shared/ai-schemas.ts";
 
 interface EnhancementRequest {
   title?: string;
@@ -70,14 +81,17 @@ serve(async (req) => {
     }
 
     const { title, goal, content, send_date, includeMilestones } = requestData;
+    const aiPreferences = await getAIPreferences(user.id);
 
-    // Check if OpenAI API key is available
-    const openAIApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openAIApiKey) {
-      return createErrorResponse(
-        "CONFIGURATION_ERROR",
-        "OpenAI API key not configured"
-      );
+    const rateLimit = await checkRateLimit(user.id, "enhance-letter");
+    if (rateLimit && !rateLimit.allowed) {
+      return createRateLimitedResponse(rateLimit);
+    }
+
+    // Check that an AI provider is configured
+    const configurationError = getLLMConfigurationError();
+    if (configurationError) {
+      return createErrorResponse("CONFIGURATION_ERROR", configurationError);
     }
 
     // Create the enhancement prompt
@@ -112,12 +126,13 @@ ${
     : ""
 }`;
 
-    // Call OpenAI API
-    const openAIResult = await callOpenAI(
+    // Call the AI provider; the answer is validated and repaired if needed
+    const aiResult = await callLLMStructured(
+      "enhance-letter",
       [
         {
           role: "system",
-          content: enhancementPrompt,
+          content: withPersona(enhancementPrompt, aiPreferences),
         },
         {
           role: "user",
@@ -133,25 +148,51 @@ Send Date: "${send_date || "Not specified"}"
 Use the send date as the target deadline for planning milestones. Return ONLY the JSON response.`,
         },
       ],
+      EnhancementResponseSchema,
       800,
       0.7
     );
 
-    if (openAIResult.error) {
+    // Every call is kept in ai_events, including the ones that fail
+    const recordEvent = (
+      status: "completed" | "failed",
+      output: Record<string, unknown>
+    ) =>
+      logAIEvent({
+        userId: user.id,
+        eventType: "letter_enhancement",
+        input: { title, goal, content, send_date, includeMilestones },
+        output,
+        status,
+        latencyMs: aiResult.latencyMs,
+        response: aiResult.response,
+      });
+
+    if (aiResult.error) {
+      await recordEvent("failed", { error: aiResult.error });
       return createErrorResponse(
         "OPENAI_API_ERROR",
         "Failed to enhance letter",
-        { openAIError: openAIResult.error }
+        { openAIError: aiResult.error }
       );
     }
 
-    // Parse the AI response
     let result: EnhancementResponse;
-    try {
-      const aiResponse = openAIResult.data.choices[0].message.content;
-      result = JSON.parse(aiResponse);
-    } catch (parseError) {
-      // Fallback enhancement if JSON parsing fails
+    const usedFallback = !aiResult.data;
+    if (aiResult.data) {
+      // Milestones are due between today and the send date
+      const dateWindow = getDateWindow(send_date, aiPreferences.timeZone);
+      result = {
+        enhancedLetter: aiResult.data.enhancedLetter,
+        suggestedMilestones: includeMilestones
+          ? aiResult.data.suggestedMilestones?.map((milestone) => ({
+              ...milestone,
+              target_date: clampDate(milestone.target_date, dateWindow),
+            }))
+          : undefined,
+      };
+    } else {
+      // Fallback enhancement if the answer could not be repaired
       result = {
         enhancedLetter: {
           title: title
@@ -225,6 +266,13 @@ Use the send date as the target deadline for planning milestones. Return ONLY th
       }
     }
 
+    await recordEvent("completed", {
+      ...result,
+      fallback: usedFallback,
+      attempts: aiResult.attempts,
+      invalid: aiResult.invalid,
+    });
+
     // Log successful result
     logFunctionResult("enhance-letter", result);
 
@@ -8,6 +8,7 @@ import {
   logFunctionCall,
   logFunctionResult,
 } from "../_shared/utils.ts";
+import { resolveLLMSettings } from "../_shared/llm.ts";
 
 interface StatusResponse {
   available: boolean;
@@ -15,6 +16,7 @@ interface StatusResponse {
   config: {
     hasOpenAIKey: boolean;
     hasSupabaseConfig: boolean;
+    llmProvider?: string;
   };
 }
 
@@ -34,6 +36,7 @@ serve(async (req) => {
 
     // Check configuration
     const openAIApiKey = Deno.env.get("OPENAI_API_KEY");
+    const llm = resolveLLMSettings((name) => Deno.env.get(name));
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
@@ -44,9 +47,9 @@ serve(async (req) => {
     let available = true;
     let reason: string | undefined;
 
-    if (!hasOpenAIKey) {
+    if (!llm.settings) {
       available = false;
-      reason = "OpenAI API key not configured";
+      reason = llm.error;
     } else if (!hasSupabaseConfig) {
       available = false;
       reason = "Supabase configuration missing";
@@ -58,6 +61,7 @@ serve(async (req) => {
       config: {
         hasOpenAIKey,
         hasSupabaseConfig,
+        llmProvider: llm.settings?.provider,
       },
     };
 
@@ -6,10 +6,23 @@ import {
   createSuccessResponse,
   verifyJWT,
   validateInput,
-  callOpenAI,
+  callLLMStructured,
+  getLLMConfigurationError,
   logFunctionCall,
   logFunctionResult,
+  getAIPreferences,
+  logAIEvent,
+  checkRateLimit,
+  createRateLimitedResponse,
 } from "../_shared/utils.ts";
+import { withPersona } from "../_shared/ai-preferences.ts";
+import { getTokenUsage } from "../_shared/ai-events.ts";
+import { withTokensUsed, type AIQuota } from "../_shared/rate-limit.ts";
+import {
+  MilestoneInferenceResponseSchema,
+  clampDate,
+  getDateWindow,
+} from "../_shared/ai-schemas.ts";
 import { z } from "https://esm.sh/zod@3.23.8";
 
 // Input validation schema
@@ -17,12 +30,15 @@ const MilestoneInferenceSchema = z.object({
   goal: z.string().min(10, "Goal must be at least 10 characters"),
   content: z.string().min(20, "Content must be at least 20 characters"),
   title: z.string().optional(),
+  // The letter's send date; suggested due dates never go past it
+  sendDate: z.string().optional(),
 });
 
 interface MilestoneInferenceRequest {
   goal: string;
   content: string;
   title?: string;
+  sendDate?: string;
 }
 
 interface InferredMilestone {
@@ -33,6 +49,7 @@ interface InferredMilestone {
 
 interface MilestoneInferenceResponse {
   suggestedMilestones: InferredMilestone[];
+  quota?: AIQuota | null;
 }
 
 serve(async (req) => {
@@ -66,15 +83,19 @@ serve(async (req) => {
       return createErrorResponse("VALIDATION_ERROR", validation.error);
     }
 
-    const { goal, content, title } = requestData;
+    const { goal, content, title, sendDate } = requestData;
+    const aiPreferences = await getAIPreferences(user.id);
+    const dateWindow = getDateWindow(sendDate, aiPreferences.timeZone);
 
-    // Check if OpenAI API key is available
-    const openAIApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openAIApiKey) {
-      return createErrorResponse(
-        "CONFIGURATION_ERROR",
-        "OpenAI API key not configured"
-      );
+    const rateLimit = await checkRateLimit(user.id, "infer-milestones");
+    if (rateLimit && !rateLimit.allowed) {
+      return createRateLimitedResponse(rateLimit);
+    }
+
+    // Check that an AI provider is configured
+    const configurationError = getLLMConfigurationError();
+    if (configurationError) {
+      return createErrorResponse("CONFIGURATION_ERROR", configurationError);
     }
 
     const systemPrompt = `You are an expert goal strategist and milestone planner. Your task is to analyze a user's goal and letter content to infer meaningful, actionable milestones that will help them achieve their objective.
@@ -94,7 +115,7 @@ Guidelines for milestone inference:
 - Create 3-5 progressive milestones that logically build toward the main goal
 - Make each milestone specific, actionable, and measurable
 - Provide clear reasoning for why each milestone matters
-- Suggest realistic timelines (next 3-12 months)
+- Suggest realistic timelines (next 3-12 months), never after the letter's send date
 - Consider different types of milestones: learning, action, checkpoint, achievement
 - Focus on building momentum and maintaining motivation
 - Consider potential obstacles and include preparatory milestones`;
@@ -106,57 +127,79 @@ ${title ? `Title: "${title}"` : ""}
 Goal: "${goal}"
 
 Letter Content: "${content}"
-
+${sendDate ? `\nSend Date: "${sendDate}" (every milestone must be due by then)\n` : ""}
 Based on this information, suggest 3-5 progressive milestones that would help achieve this goal. Focus on creating a logical progression from where they are now to their desired outcome. Return ONLY the JSON response.`;
 
-    // Call OpenAI API
-    const openAIResult = await callOpenAI(
+    // Call the AI provider; the answer is validated and repaired if needed
+    const aiResult = await callLLMStructured(
+      "infer-milestones",
       [
         {
           role: "system",
-          content: systemPrompt,
+          content: withPersona(systemPrompt, aiPreferences),
         },
         {
           role: "user",
           content: userPrompt,
         },
       ],
+      MilestoneInferenceResponseSchema,
       800,
       0.7
     );
 
-    if (openAIResult.error) {
+    // Every call is kept in ai_events, including the ones that fail
+    const recordEvent = (
+      status: "completed" | "failed",
+      output: Record<string, unknown>
+    ) =>
+      logAIEvent({
+        userId: user.id,
+        eventType: "milestone_inference",
+        input: { goal, content, title, sendDate },
+        output,
+        status,
+        latencyMs: aiResult.latencyMs,
+        response: aiResult.response,
+      });
+
+    if (aiResult.error) {
+      await recordEvent("failed", { error: aiResult.error });
       return createErrorResponse(
         "OPENAI_API_ERROR",
         "Failed to infer milestones",
-        { openAIError: openAIResult.error }
+        { openAIError: aiResult.error }
       );
     }
 
-    // Parse the AI response
-    let result: MilestoneInferenceResponse;
-    try {
-      const aiResponse = openAIResult.data.choices[0].message.content;
-      result = JSON.parse(aiResponse);
-    } catch (parseError) {
-      // Fallback milestone inference if JSON parsing fails
-      result = {
-        suggestedMilestones: getKeywordBasedMilestones(goal, content),
-      };
-    }
+    // Fallback milestone inference if the answer could not be repaired
+    const usedFallback = !aiResult.data;
+    const milestones =
+      aiResult.data?.suggestedMilestones ?? getKeywordBasedMilestones(goal, content);
+    const result: MilestoneInferenceResponse = {
+      suggestedMilestones: milestones.map((milestone) => ({
+        ...milestone,
+        dueDate: milestone.dueDate && clampDate(milestone.dueDate, dateWindow),
+      })),
+    };
 
-    // Validate the result has milestones
-    if (!result.suggestedMilestones || result.suggestedMilestones.length === 0) {
-      result = {
-        suggestedMilestones: getKeywordBasedMilestones(goal, content),
-      };
-    }
+    await recordEvent("completed", {
+      ...result,
+      fallback: usedFallback,
+      attempts: aiResult.attempts,
+      invalid: aiResult.invalid,
+    });
 
     // Log successful result
     logFunctionResult("infer-milestones", result);
 
     // Return success response
-    return createSuccessResponse(result);
+    return createSuccessResponse({
+      ...result,
+      quota: rateLimit
+        ? withTokensUsed(rateLimit.quota, getTokenUsage(aiResult.response).total_tokens)
+        : null,
+    });
   } catch (error) {
     // Log error
     logFunctionResult("infer-milestones", null, error);
@@ -0,0 +1,112 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.53.0";
+import { z } from "https://esm.sh/zod@3.23.8";
+import {
+  corsHeaders,
+  createErrorResponse,
+  createSuccessResponse,
+  verifyServiceRequest,
+  validateInput,
+  logFunctionCall,
+  logFunctionResult,
+} from "../_shared/utils.ts";
+import { processMilestoneReminders } from "../_shared/delivery.ts";
+import { createMailSender } from "../_shared/mail.ts";
+
+// Optional body when invoked by hand; cron invocations send `{}`
+const ReminderRunSchema = z.object({
+  batchSize: z.number().int().min(1).max(100).optional(),
+  leadDays: z.array(z.number().int().min(0).max(90)).min(1).optional(),
+});
+
+interface ReminderRunRequest {
+  batchSize?: number;
+  leadDays?: number[];
+}
+
+// Days before a milestone's target date to send reminders, e.g. "7,1"
+function getDefaultLeadDays(): number[] {
+  const configured = Deno.env.get("MILESTONE_REMINDER_LEAD_DAYS");
+  const leadDays = (configured || "7,1")
+    .split(",")
+    .map((value) => parseInt(value.trim(), 10))
+    .filter((value) => Number.isInteger(value) && value >= 0);
+  return leadDays.length > 0 ? leadDays : [7, 1];
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only the scheduler (service role key or CRON_SECRET) may send reminders
+  const authHeader = req.headers.get("authorization");
+  const { authorized, error: authError } = verifyServiceRequest(authHeader);
+
+  if (!authorized) {
+    return createErrorResponse(
+      "UNAUTHORIZED",
+      "Service credentials required",
+      { authError },
+      401
+    );
+  }
+
+  try {
+    const requestData: ReminderRunRequest = await req.json().catch(() => ({}));
+
+    // Log function call
+    logFunctionCall("send-milestone-reminders", requestData);
+
+    // Validate input
+    const validation = validateInput(ReminderRunSchema, requestData);
+    if (validation.error) {
+      return createErrorResponse("VALIDATION_ERROR", validation.error);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return createErrorResponse(
+        "CONFIGURATION_ERROR",
+        "Supabase configuration missing"
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { sender, error: senderError } = createMailSender(supabase);
+    if (!sender) {
+      return createErrorResponse("CONFIGURATION_ERROR", senderError);
+    }
+
+    const summary = await processMilestoneReminders(supabase, sender, {
+      batchSize: requestData.batchSize,
+      appUrl: Deno.env.get("APP_URL"),
+      leadDays: requestData.leadDays ?? getDefaultLeadDays(),
+    });
+
+    // Log successful result
+    logFunctionResult("send-milestone-reminders", {
+      sender: sender.name,
+      ...summary,
+    });
+
+    // Return success response
+    return createSuccessResponse(summary);
+  } catch (error: any) {
+    // Log error
+    logFunctionResult("send-milestone-reminders", null, error);
+
+    return createErrorResponse(
+      "INTERNAL_ERROR",
+      "An unexpected error occurred",
+      { error: error.message }
+    );
+  }
+};
+
+serve(handler);
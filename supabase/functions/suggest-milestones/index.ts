@@ -7,10 +7,20 @@ import {
   verifyJWT,
   validateInput,
   MilestoneSuggestionSchema,
-  callOpenAI,
+  callLLMStructured,
   logFunctionCall,
   logFunctionResult,
+  getAIPreferences,
+  logAIEvent,
+  checkRateLimit,
+  createRateLimitedResponse,
 } from "../_shared/utils.ts";
+import { withPersona } from "../_shared/ai-preferences.ts";
+import {
+  MilestoneSuggestionResponseSchema,
+  clampDate,
+  getDateWindow,
+} from "../_shared/ai-schemas.ts";
 
 interface MilestoneSuggestionRequest {
   letterId: string;
@@ -58,6 +68,12 @@ serve(async (req) => {
     }
 
     const { letterId, goal, content, sendDate } = requestData;
+    const aiPreferences = await getAIPreferences(user.id);
+
+    const rateLimit = await checkRateLimit(user.id, "suggest-milestones");
+    if (rateLimit && !rateLimit.allowed) {
+      return createRateLimitedResponse(rateLimit);
+    }
 
     // Calculate days between now and send date
     const today = new Date();
@@ -80,72 +96,89 @@ Requirements:
 5. Suggest realistic target dates based on the timeline
 6. Make milestones SMART (Specific, Measurable, Achievable, Relevant, Time-bound)
 
-Return ONLY a valid JSON array of milestone objects with this exact structure:
-[
-  {
-    "title": "Milestone title",
-    "percentage": 25,
-    "target_date": "YYYY-MM-DD",
-    "description": "Brief description of what this milestone involves"
-  }
-]
+Return ONLY a valid JSON object with this exact structure:
+{
+  "suggestedMilestones": [
+    {
+      "title": "Milestone title",
+      "percentage": 25,
+      "target_date": "YYYY-MM-DD",
+      "description": "Brief description of what this milestone involves"
+    }
+  ]
+}
 
 Keep titles concise (max 50 characters) and descriptions helpful but brief (max 150 characters).
-Ensure percentages add up logically and target dates are distributed across the timeline.`;
+Ensure percentages add up logically and target dates are distributed across the timeline, no later than ${sendDate}.`;
 
-    // Call OpenAI API
-    const openAIResult = await callOpenAI(
+    // Call the AI provider; the answer is validated and repaired if needed
+    const aiResult = await callLLMStructured(
+      "suggest-milestones",
       [
         {
           role: "system",
-          content:
-            "You are a goal achievement expert. Return only valid JSON arrays of milestone objects as requested. No additional text or formatting.",
+          content: withPersona(
+            "You are a goal achievement expert. Return only a valid JSON object with the milestones as requested. No additional text or formatting.",
+            aiPreferences
+          ),
         },
         { role: "user", content: prompt },
       ],
+      MilestoneSuggestionResponseSchema,
       1000,
       0.7
     );
 
-    if (openAIResult.error) {
+    // Every call is kept in ai_events, including the ones that fail
+    const recordEvent = (
+      status: "completed" | "failed",
+      output: Record<string, unknown>
+    ) =>
+      logAIEvent({
+        userId: user.id,
+        letterId,
+        eventType: "milestone_generation",
+        input: { goal, content, sendDate },
+        output,
+        status,
+        latencyMs: aiResult.latencyMs,
+        response: aiResult.response,
+      });
+
+    if (aiResult.error) {
+      await recordEvent("failed", { error: aiResult.error });
       return createErrorResponse(
         "OPENAI_API_ERROR",
         "Failed to generate milestone suggestions",
-        { openAIError: openAIResult.error }
+        { openAIError: aiResult.error }
       );
     }
 
-    // Parse the JSON response
-    let suggestedMilestones: Milestone[];
-    try {
-      const aiResponse = openAIResult.data.choices[0].message.content;
-      suggestedMilestones = JSON.parse(aiResponse);
-    } catch (parseError) {
+    // Still unusable after the repair round: there is no sensible fallback
+    if (!aiResult.data) {
+      await recordEvent("failed", {
+        error: aiResult.invalid,
+        attempts: aiResult.attempts,
+      });
       return createErrorResponse(
         "PARSE_ERROR",
         "Invalid response format from AI",
-        { parseError: parseError.message }
+        { parseError: aiResult.invalid }
       );
     }
 
-    // Validate the response structure
-    if (!Array.isArray(suggestedMilestones)) {
-      return createErrorResponse(
-        "VALIDATION_ERROR",
-        "AI response is not an array"
-      );
-    }
-
-    // Validate each milestone has required fields
-    for (const milestone of suggestedMilestones) {
-      if (!milestone.title || !milestone.percentage || !milestone.target_date) {
-        return createErrorResponse(
-          "VALIDATION_ERROR",
-          "Invalid milestone structure",
-          { milestone }
-        );
-      }
-    }
+    // Target dates are kept between today and the send date
+    const dateWindow = getDateWindow(sendDate, aiPreferences.timeZone);
+    const suggestedMilestones: Milestone[] =
+      aiResult.data.suggestedMilestones.map((milestone) => ({
+        ...milestone,
+        target_date: clampDate(milestone.target_date, dateWindow),
+      }));
+
+    await recordEvent("completed", {
+      suggestedMilestones,
+      attempts: aiResult.attempts,
+    });
 
     // Log successful result
     logFunctionResult("suggest-milestones", { suggestedMilestones });
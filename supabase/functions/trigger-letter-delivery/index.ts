@@ -1,6 +1,5 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { Resend } from "npm:resend@2.0.0";
 import {
   corsHeaders,
   createErrorResponse,
@@ -11,10 +10,20 @@ import {
   logFunctionCall,
   logFunctionResult,
 } from "../_shared/utils.ts";
+import { sendLetterEmail } from "../_shared/delivery.ts";
+import { withSignedVoiceMemo } from "../_shared/voice-memo.ts";
+import { createMailSender } from "../_shared/mail.ts";
+import {
+  getDeliveryInstant,
+  getTodayInTimeZone,
+  resolveTimeZone,
+} from "../_shared/timezone.ts";
+import { planRetry } from "../_shared/retry.ts";
 
 interface TriggerDeliveryRequest {
   letterId: string;
-  action: "schedule" | "send";
+  action: "schedule" | "send" | "retry" | "cancel" | "reschedule";
+  sendDate?: string;
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -66,7 +75,7 @@ const handler = async (req: Request): Promise<Response> => {
     // Get the letter details
     const { data: letter, error: letterError } = await supabase
       .from("letters")
-      .select("*")
+      .select("*, milestones(*)")
       .eq("id", letterId)
       .single();
 
@@ -86,10 +95,10 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    // Get user email from profiles table
+    // Get user email and delivery preferences from profiles table
     const { data: profile, error: profileError } = await supabase
       .from("profiles")
-      .select("email")
+      .select("email, timezone, delivery_hour")
       .eq("user_id", letter.user_id)
       .single();
 
@@ -99,157 +108,277 @@ const handler = async (req: Request): Promise<Response> => {
       });
     }
 
+    // Hand a failed or dead-lettered delivery back to the worker right away
+    if (action === "retry") {
+      if (letter.status !== "scheduled") {
+        return createErrorResponse(
+          "INVALID_STATE",
+          `Only scheduled letters can be retried (letter is ${letter.status})`,
+          undefined,
+          409
+        );
+      }
+
+      const { data: failedDelivery, error: lookupError } = await supabase
+        .from("notifications")
+        .select("id, status, attempt_count")
+        .eq("letter_id", letterId)
+        .eq("type", "letter_delivery")
+        .in("status", ["pending", "failed", "dead_letter"])
+        .gt("attempt_count", 0)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (lookupError) {
+        return createErrorResponse(
+          "NOTIFICATION_ERROR",
+          "Error fetching delivery",
+          { lookupError }
+        );
+      }
+
+      if (!failedDelivery) {
+        return createErrorResponse(
+          "NOTHING_TO_RETRY",
+          "This letter has no failed delivery to retry",
+          undefined,
+          409
+        );
+      }
+
+      const nextAttemptAt = new Date().toISOString();
+      const { error: retryError } = await supabase
+        .from("notifications")
+        .update({
+          status: "pending",
+          // A manual retry starts a fresh round of attempts
+          attempt_count: 0,
+          next_attempt_at: nextAttemptAt,
+        })
+        .eq("id", failedDelivery.id);
+
+      if (retryError) {
+        return createErrorResponse(
+          "NOTIFICATION_ERROR",
+          "Error queueing retry",
+          { retryError }
+        );
+      }
+
+      logFunctionResult("trigger-letter-delivery", {
+        action,
+        letterId,
+        notificationId: failedDelivery.id,
+        previousStatus: failedDelivery.status,
+      });
+
+      return createSuccessResponse({
+        message: "Delivery retry queued",
+        newStatus: letter.status,
+        emailSent: false,
+        nextAttemptAt,
+      });
+    }
+
+    // Pull a scheduled letter back into drafts. The reconcile_letter_deliveries
+    // trigger cancels its outstanding deliveries in the same statement.
+    if (action === "cancel") {
+      if (letter.status !== "scheduled") {
+        return createErrorResponse(
+          "INVALID_STATE",
+          `Only scheduled letters can be cancelled (letter is ${letter.status})`,
+          undefined,
+          409
+        );
+      }
+
+      // Cancelling would hand the author back a letter they sealed
+      if (letter.is_locked) {
+        return createErrorResponse(
+          "LETTER_SEALED",
+          "This letter is sealed. Break the seal before cancelling its delivery.",
+          undefined,
+          409
+        );
+      }
+
+      const { error: cancelError } = await supabase
+        .from("letters")
+        .update({ status: "draft" })
+        .eq("id", letterId);
+
+      if (cancelError) {
+        return createErrorResponse(
+          "UPDATE_ERROR",
+          "Error cancelling delivery",
+          { cancelError }
+        );
+      }
+
+      logFunctionResult("trigger-letter-delivery", { action, letterId });
+
+      return createSuccessResponse({
+        message: "Delivery cancelled. The letter is back in your drafts.",
+        newStatus: "draft",
+        emailSent: false,
+      });
+    }
+
+    // Move a scheduled letter to a new send date. The trigger re-times the
+    // pending delivery; if there is none (e.g. it was dead-lettered) a fresh
+    // one is queued.
+    if (action === "reschedule") {
+      if (letter.status !== "scheduled") {
+        return createErrorResponse(
+          "INVALID_STATE",
+          `Only scheduled letters can be rescheduled (letter is ${letter.status})`,
+          undefined,
+          409
+        );
+      }
+
+      const sendDate = requestData.sendDate!;
+      if (sendDate <= getTodayInTimeZone(resolveTimeZone(profile.timezone))) {
+        return createErrorResponse(
+          "VALIDATION_ERROR",
+          "Send date must be in the future"
+        );
+      }
+
+      // An earlier date would open the capsule early without breaking the seal
+      if (letter.is_locked && sendDate < letter.send_date.slice(0, 10)) {
+        return createErrorResponse(
+          "LETTER_SEALED",
+          "This letter is sealed. Break the seal before moving its delivery earlier.",
+          undefined,
+          409
+        );
+      }
+
+      const { error: rescheduleError } = await supabase
+        .from("letters")
+        .update({ send_date: sendDate })
+        .eq("id", letterId);
+
+      if (rescheduleError) {
+        return createErrorResponse(
+          "UPDATE_ERROR",
+          "Error updating send date",
+          { rescheduleError }
+        );
+      }
+
+      const deliverAt = getDeliveryInstant(sendDate, profile);
+
+      const { data: pendingDelivery, error: lookupError } = await supabase
+        .from("notifications")
+        .select("id")
+        .eq("letter_id", letterId)
+        .eq("type", "letter_delivery")
+        .in("status", ["pending", "processing"])
+        .limit(1)
+        .maybeSingle();
+
+      if (lookupError) {
+        return createErrorResponse(
+          "NOTIFICATION_ERROR",
+          "Error fetching delivery",
+          { lookupError }
+        );
+      }
+
+      if (!pendingDelivery) {
+        const { error: notificationError } = await supabase
+          .from("notifications")
+          .insert({
+            user_id: letter.user_id,
+            letter_id: letter.id,
+            type: "letter_delivery",
+            subject: `Letter: ${letter.title}`,
+            content: `Your letter "${letter.title}" has been scheduled for delivery on ${sendDate}`,
+            scheduled_for: deliverAt.toISOString(),
+            delivery_method: "email",
+            status: "pending",
+          });
+
+        if (notificationError) {
+          return createErrorResponse(
+            "NOTIFICATION_ERROR",
+            "Error creating notification",
+            { notificationError }
+          );
+        }
+      }
+
+      logFunctionResult("trigger-letter-delivery", {
+        action,
+        letterId,
+        sendDate,
+        requeued: !pendingDelivery,
+      });
+
+      return createSuccessResponse({
+        message: `Letter rescheduled for ${sendDate}`,
+        newStatus: "scheduled",
+        emailSent: false,
+        scheduledFor: deliverAt.toISOString(),
+      });
+    }
+
+    // Scheduling twice would queue a second delivery
+    if (action === "schedule" && letter.status === "scheduled") {
+      return createErrorResponse(
+        "INVALID_STATE",
+        "Letter is already scheduled; reschedule it to change the send date",
+        undefined,
+        409
+      );
+    }
+
+    // Sending now would open the seal as a delivery, skipping the audited
+    // break_letter_seal() path
+    if (action === "send" && letter.is_locked) {
+      return createErrorResponse(
+        "LETTER_SEALED",
+        "This letter is sealed. Break the seal before sending it early.",
+        undefined,
+        409
+      );
+    }
+
     let emailSent = false;
     let emailError = null;
 
     // Send email if action is 'send'
     if (action === "send") {
-      try {
-        const resendApiKey = Deno.env.get("RESEND_API_KEY");
-        if (!resendApiKey) {
-          return createErrorResponse(
-            "CONFIGURATION_ERROR",
-            "Resend API key not configured"
-          );
-        }
+      const { sender, error: senderError } = createMailSender(supabase);
+      if (!sender) {
+        return createErrorResponse("CONFIGURATION_ERROR", senderError);
+      }
 
-        const resend = new Resend(resendApiKey);
-
-        const emailPayload = {
-          from: "Vision Vault <onboarding@resend.dev>",
-          to: [profile.email],
-          subject: `Letter: ${letter.title}`,
-          html: `
-            <!DOCTYPE html>
-            <html lang="en">
-            <head>
-              <meta charset="UTF-8">
-              <meta name="viewport" content="width=device-width, initial-scale=1.0">
-              <title>Your FutureLetter AI</title>
-            </head>
-            <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); min-height: 100vh;">
-              
-              <!-- Email Container -->
-              <div style="max-width: 600px; margin: 0 auto; background: #ffffff; box-shadow: 0 10px 30px rgba(0,0,0,0.1);">
-                
-                <!-- Header -->
-                <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 40px 30px; text-align: center;">
-                  <div style="display: inline-flex; align-items: center; margin-bottom: 20px;">
-                    <div style="width: 40px; height: 40px; background: rgba(255,255,255,0.2); border-radius: 8px; display: flex; align-items: center; justify-content: center; margin-right: 12px;">
-                      <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="white" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-                        <path d="M12 19l7-7 3 3-7 7-3-3z"></path>
-                        <path d="M18 13l-1.5-7.5L2 2l3.5 14.5L13 18l5-5z"></path>
-                        <path d="M2 2l7.586 7.586"></path>
-                        <circle cx="11" cy="11" r="2"></circle>
-                      </svg>
-                    </div>
-                    <h1 style="margin: 0; color: white; font-size: 28px; font-weight: 700; letter-spacing: -0.5px;">
-                      FutureLetter AI
-                    </h1>
-                  </div>
-                  <p style="margin: 0; color: rgba(255,255,255,0.9); font-size: 16px; font-weight: 400;">
-                    A letter from your past self has arrived
-                  </p>
-                </div>
-                
-                <!-- Main Content -->
-                <div style="padding: 40px 30px;">
-                  
-                  <!-- Letter Title -->
-                  <div style="text-align: center; margin-bottom: 40px;">
-                    <h2 style="margin: 0 0 10px 0; color: #1a1a1a; font-size: 24px; font-weight: 600; line-height: 1.3;">
-                      ${letter.title}
-                    </h2>
-                    <p style="margin: 0; color: #6b7280; font-size: 14px;">
-                      Delivered on ${new Date(
-                        letter.send_date
-                      ).toLocaleDateString("en-US", {
-                        year: "numeric",
-                        month: "long",
-                        day: "numeric",
-                      })}
-                    </p>
-                  </div>
-                  
-                  <!-- Goal Section -->
-                  <div style="background: linear-gradient(135deg, #f8fafc 0%, #f1f5f9 100%); border: 1px solid #e2e8f0; border-radius: 12px; padding: 24px; margin-bottom: 30px;">
-                    <div style="display: flex; align-items: center; margin-bottom: 16px;">
-                      <div style="width: 32px; height: 32px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px; display: flex; align-items: center; justify-content: center; margin-right: 12px;">
-                        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="white" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-                          <circle cx="12" cy="12" r="10"></circle>
-                          <path d="M12 6l-2 6h4l-2 6"></path>
-                        </svg>
-                      </div>
-                      <h3 style="margin: 0; color: #374151; font-size: 18px; font-weight: 600;">Your Goal</h3>
-                    </div>
-                    <p style="margin: 0; color: #4b5563; font-size: 16px; line-height: 1.6;">
-                      ${letter.ai_enhanced_goal || letter.goal}
-                    </p>
-                  </div>
-                  
-                  <!-- Letter Content -->
-                  <div style="background: #ffffff; border: 1px solid #e5e7eb; border-radius: 12px; padding: 24px; position: relative; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
-                    <div style="position: absolute; top: -1px; left: -1px; right: -1px; height: 4px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 12px 12px 0 0;"></div>
-                    <h3 style="margin: 0 0 16px 0; color: #374151; font-size: 18px; font-weight: 600;">Your Message</h3>
-                    <div style="color: #4b5563; font-size: 16px; line-height: 1.7; white-space: pre-wrap;">
-                      ${letter.content}
-                    </div>
-                  </div>
-                  
-                  <!-- Voice Memo Section -->
-                  ${
-                    letter.voice_memo_url
-                      ? `
-                  <div style="margin-top: 30px; text-align: center;">
-                    <h3 style="margin: 0 0 10px 0; color: #374151; font-size: 18px; font-weight: 600;">Voice Memo</h3>
-                    <audio controls style="width: 100%; max-width: 400px; margin: 0 auto;">
-                      <source src="${letter.voice_memo_url}" type="audio/mpeg" />
-                      Your browser does not support the audio element.
-                    </audio>
-                    <div style="margin-top: 8px;">
-                      <a href="${letter.voice_memo_url}" style="color: #4f46e5; text-decoration: underline; font-size: 14px;" download>Download Voice Memo</a>
-                    </div>
-                  </div>
-                  `
-                      : ""
-                  }
-                  
-                  <!-- Reflection Prompt -->
-                  <div style="background: linear-gradient(135deg, #fef3c7 0%, #fde68a 100%); border: 1px solid #f59e0b; border-radius: 12px; padding: 20px; margin-top: 30px; text-align: center;">
-                    <p style="margin: 0; color: #92400e; font-size: 15px; font-weight: 500;">
-                      💭 Take a moment to reflect: How far have you come since writing this letter?
-                    </p>
-                  </div>
-                  
-                </div>
-                
-                <!-- Footer -->
-                <div style="background: #f8fafc; padding: 30px; text-align: center; border-top: 1px solid #e5e7eb;">
-                  <p style="margin: 0 0 10px 0; color: #6b7280; font-size: 14px;">
-                    Delivered with care by <strong style="color: #4f46e5;">FutureLetter AI</strong>
-                  </p>
-                  <p style="margin: 0; color: #9ca3af; font-size: 12px;">
-                    Helping you bridge the gap between dreams and reality
-                  </p>
-                </div>
-                
-              </div>
-              
-            </body>
-            </html>
-          `,
-        };
-
-        const emailResponse = await resend.emails.send(emailPayload);
+      try {
+        const deliverable = await withSignedVoiceMemo(supabase, letter);
+        await sendLetterEmail(sender, deliverable, profile.email, {
+          appUrl: Deno.env.get("APP_URL"),
+          timeZone: profile.timezone,
+        });
         emailSent = true;
       } catch (error: any) {
         emailError = error.message;
       }
     }
 
+    // Scheduled letters arrive at the user's preferred hour in their own zone
+    const deliverAt = getDeliveryInstant(letter.send_date, profile);
+
+    // A failed immediate send is left to the delivery worker to retry
+    const retry = action === "send" && !emailSent ? planRetry(0) : null;
+    const nextAttemptAt = retry?.nextAttemptAt?.toISOString() ?? null;
+
     // Create notification record
     const notificationStatus =
-      action === "schedule" ? "pending" : emailSent ? "sent" : "failed";
+      action === "schedule" ? "pending" : emailSent ? "sent" : retry.status;
     const { error: notificationError } = await supabase
       .from("notifications")
       .insert({
@@ -262,12 +391,17 @@ const handler = async (req: Request): Promise<Response> => {
             ? `Your letter "${letter.title}" has been scheduled for delivery on ${letter.send_date}`
             : emailSent
             ? `Your letter "${letter.title}" has been delivered`
-            : `Failed to deliver letter "${letter.title}"`,
+            : `Failed to deliver letter "${letter.title}", retrying automatically`,
         scheduled_for:
-          action === "schedule" ? letter.send_date : new Date().toISOString(),
+          action === "schedule"
+            ? deliverAt.toISOString()
+            : new Date().toISOString(),
         delivery_method: "email",
         status: notificationStatus,
         error_message: emailError,
+        attempt_count: action === "send" ? 1 : 0,
+        next_attempt_at: nextAttemptAt,
+        last_error: emailError,
         sent_at: emailSent ? new Date().toISOString() : null,
       });
 
@@ -305,11 +439,15 @@ const handler = async (req: Request): Promise<Response> => {
 
     // Return success response
     return createSuccessResponse({
-      message: `Letter ${
-        action === "schedule" ? "scheduled" : "sent"
-      } successfully`,
+      message:
+        action === "schedule"
+          ? "Letter scheduled successfully"
+          : emailSent
+          ? "Letter sent successfully"
+          : "The letter could not be sent yet and will be retried automatically",
       newStatus,
       emailSent,
+      nextAttemptAt,
     });
   } catch (error: any) {
     // Log error
@@ -0,0 +1,69 @@
+-- Let the delivery worker claim notifications while it sends them
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_status_check;
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_status_check
+CHECK (status IN ('pending', 'processing', 'sent', 'failed', 'cancelled'));
+
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_status_scheduled
+ON public.notifications(status, scheduled_for);
+
+-- Atomically claim due notifications of a given type.
+-- Rows left in 'processing' by a crashed run are reclaimed after p_stale_after.
+CREATE OR REPLACE FUNCTION public.claim_due_notifications(
+  p_type TEXT,
+  p_limit INTEGER DEFAULT 25,
+  p_stale_after INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS SETOF public.notifications AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.notifications AS n
+  SET status = 'processing',
+      claimed_at = now()
+  WHERE n.id IN (
+    SELECT candidate.id
+    FROM public.notifications AS candidate
+    WHERE candidate.type = p_type
+      AND candidate.scheduled_for <= now()
+      AND (
+        candidate.status = 'pending'
+        OR (candidate.status = 'processing' AND candidate.claimed_at < now() - p_stale_after)
+      )
+    ORDER BY candidate.scheduled_for
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Mark a claimed letter delivery as sent together with its letter
+CREATE OR REPLACE FUNCTION public.complete_letter_delivery(p_notification_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_letter_id UUID;
+BEGIN
+  UPDATE public.notifications
+  SET status = 'sent',
+      sent_at = now(),
+      error_message = NULL
+  WHERE id = p_notification_id
+    AND status = 'processing'
+  RETURNING letter_id INTO v_letter_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Notification % is not being processed', p_notification_id;
+  END IF;
+
+  UPDATE public.letters
+  SET status = 'sent'
+  WHERE id = v_letter_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the service role (edge functions) may drive deliveries
+REVOKE EXECUTE ON FUNCTION public.claim_due_notifications(TEXT, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_letter_delivery(UUID) FROM PUBLIC, anon, authenticated;
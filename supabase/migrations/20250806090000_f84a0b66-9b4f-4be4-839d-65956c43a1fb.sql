@@ -0,0 +1,29 @@
+-- Preferred local hour for letter delivery (0-23), interpreted in profiles.timezone
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS delivery_hour INTEGER DEFAULT 9 CHECK (delivery_hour >= 0 AND delivery_hour <= 23);
+
+-- Instant at which a letter with the given send date reaches the user.
+-- Unknown zones fall back to UTC, mirroring _shared/timezone.ts.
+CREATE OR REPLACE FUNCTION public.letter_delivery_instant(
+  p_send_date DATE,
+  p_timezone TEXT,
+  p_delivery_hour INTEGER
+)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT (p_send_date + make_interval(hours => COALESCE(p_delivery_hour, 9)))
+    AT TIME ZONE (
+      CASE
+        WHEN EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN p_timezone
+        ELSE 'UTC'
+      END
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Pending deliveries were scheduled for midnight UTC; move them to local delivery time
+UPDATE public.notifications AS n
+SET scheduled_for = public.letter_delivery_instant(l.send_date, p.timezone, p.delivery_hour)
+FROM public.letters AS l
+JOIN public.profiles AS p ON p.user_id = l.user_id
+WHERE n.letter_id = l.id
+  AND n.type = 'letter_delivery'
+  AND n.status = 'pending';
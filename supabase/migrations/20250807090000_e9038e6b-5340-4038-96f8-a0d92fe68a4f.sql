@@ -0,0 +1,75 @@
+-- Milestone reminders are opt-out; record the switch alongside the email toggle
+ALTER TABLE public.profiles
+ALTER COLUMN notification_preferences SET DEFAULT '{"email": true, "push": false, "milestone_reminders": true}'::jsonb;
+
+-- One reminder per milestone per reminder instant, so re-running the job is harmless
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_milestone_reminder_unique
+ON public.notifications(milestone_id, scheduled_for)
+WHERE type = 'milestone_reminder';
+
+-- Queue reminders for incomplete milestones whose reminder day (target_date minus
+-- each lead time) is today or tomorrow. Reminders go out at the user's delivery hour.
+CREATE OR REPLACE FUNCTION public.enqueue_milestone_reminders(p_lead_days INTEGER[] DEFAULT ARRAY[7, 1])
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO public.notifications (
+    user_id, letter_id, milestone_id, type, subject, content, scheduled_for, delivery_method, status
+  )
+  SELECT
+    l.user_id,
+    l.id,
+    m.id,
+    'milestone_reminder',
+    'Milestone reminder: ' || m.title,
+    CASE
+      WHEN lead.days = 0 THEN format('Your milestone "%s" is due today', m.title)
+      WHEN lead.days = 1 THEN format('Your milestone "%s" is due tomorrow', m.title)
+      ELSE format('Your milestone "%s" is due in %s days', m.title, lead.days)
+    END,
+    public.letter_delivery_instant(m.target_date - lead.days, p.timezone, p.delivery_hour),
+    'email',
+    'pending'
+  FROM public.milestones AS m
+  JOIN public.letters AS l ON l.id = m.letter_id
+  JOIN public.profiles AS p ON p.user_id = l.user_id
+  CROSS JOIN unnest(p_lead_days) AS lead(days)
+  WHERE COALESCE(m.completed, false) = false
+    AND l.status IN ('draft', 'scheduled')
+    AND m.target_date - lead.days BETWEEN current_date - 1 AND current_date + 1
+    AND COALESCE((p.notification_preferences ->> 'email')::boolean, true)
+    AND COALESCE((p.notification_preferences ->> 'milestone_reminders')::boolean, true)
+  ON CONFLICT (milestone_id, scheduled_for) WHERE type = 'milestone_reminder' DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Mark a claimed reminder as sent and flag its milestone in one transaction
+CREATE OR REPLACE FUNCTION public.complete_milestone_reminder(p_notification_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_milestone_id UUID;
+BEGIN
+  UPDATE public.notifications
+  SET status = 'sent',
+      sent_at = now(),
+      error_message = NULL
+  WHERE id = p_notification_id
+    AND status = 'processing'
+  RETURNING milestone_id INTO v_milestone_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Notification % is not being processed', p_notification_id;
+  END IF;
+
+  UPDATE public.milestones
+  SET reminder_sent = true
+  WHERE id = v_milestone_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_milestone_reminders(INTEGER[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_milestone_reminder(UUID) FROM PUBLIC, anon, authenticated;
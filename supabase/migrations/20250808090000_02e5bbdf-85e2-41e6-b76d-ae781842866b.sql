@@ -0,0 +1,51 @@
+-- Retry metadata for outgoing notifications
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+-- Notifications that ran out of attempts end up in 'dead_letter'
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_status_check;
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_status_check
+CHECK (status IN ('pending', 'processing', 'sent', 'failed', 'cancelled', 'dead_letter'));
+
+-- Earlier failures were recorded once and never retried; carry their error over
+UPDATE public.notifications
+SET last_error = error_message,
+    attempt_count = GREATEST(attempt_count, 1)
+WHERE status = 'failed' AND last_error IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_status_next_attempt
+ON public.notifications(status, next_attempt_at);
+
+-- Claim due notifications, honouring the backoff set by failed attempts
+CREATE OR REPLACE FUNCTION public.claim_due_notifications(
+  p_type TEXT,
+  p_limit INTEGER DEFAULT 25,
+  p_stale_after INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS SETOF public.notifications AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.notifications AS n
+  SET status = 'processing',
+      claimed_at = now()
+  WHERE n.id IN (
+    SELECT candidate.id
+    FROM public.notifications AS candidate
+    WHERE candidate.type = p_type
+      AND COALESCE(candidate.next_attempt_at, candidate.scheduled_for) <= now()
+      AND (
+        candidate.status = 'pending'
+        OR (candidate.status = 'processing' AND candidate.claimed_at < now() - p_stale_after)
+      )
+    ORDER BY COALESCE(candidate.next_attempt_at, candidate.scheduled_for)
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_notifications(TEXT, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
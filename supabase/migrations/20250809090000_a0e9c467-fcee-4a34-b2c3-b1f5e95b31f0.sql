@@ -0,0 +1,18 @@
+-- Local mail sink: with MAIL_PROVIDER=outbox, edge functions store rendered
+-- emails here instead of handing them to a provider
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  to_addresses TEXT[] NOT NULL,
+  from_address TEXT,
+  reply_to TEXT,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  text TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_created_at
+ON public.email_outbox(created_at DESC);
+
+-- Service role only: RLS on and no policies
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,43 @@
+-- Read state for the in-app notification center
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS read_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+ON public.notifications(user_id, created_at DESC)
+WHERE read_at IS NULL;
+
+-- Users may only flip read_at on their own rows, so instead of an UPDATE
+-- policy (which would also expose status and scheduling columns) this goes
+-- through a narrow function. NULL ids marks everything as read.
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(p_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (p_ids IS NULL OR id = ANY(p_ids));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.mark_notifications_read(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_notifications_read(UUID[]) TO authenticated;
+
+-- Stream notification changes to the browser (RLS still applies)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END;
+$$;
@@ -0,0 +1,53 @@
+-- Keep letter_delivery notifications in step with their letter, whichever
+-- path edits it (LetterForm, the status dropdown or trigger-letter-delivery):
+--   * a scheduled letter whose send date moves gets its pending delivery
+--     re-timed, starting a fresh round of attempts
+--   * a letter leaving 'scheduled' (draft, archived, sent) has its
+--     outstanding deliveries cancelled. Rows being processed are left to the
+--     worker, which cancels them itself when the letter is no longer scheduled.
+CREATE OR REPLACE FUNCTION public.reconcile_letter_deliveries()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'scheduled' AND NEW.status <> 'scheduled' THEN
+    UPDATE public.notifications
+    SET status = 'cancelled',
+        next_attempt_at = NULL,
+        error_message = format('Letter is %s, delivery cancelled', NEW.status)
+    WHERE letter_id = NEW.id
+      AND type = 'letter_delivery'
+      AND status IN ('pending', 'failed', 'dead_letter');
+  ELSIF NEW.status = 'scheduled' AND NEW.send_date IS DISTINCT FROM OLD.send_date THEN
+    UPDATE public.notifications AS n
+    SET scheduled_for = public.letter_delivery_instant(NEW.send_date, p.timezone, p.delivery_hour),
+        content = format('Your letter "%s" has been scheduled for delivery on %s', NEW.title, NEW.send_date),
+        attempt_count = 0,
+        next_attempt_at = NULL
+    FROM public.profiles AS p
+    WHERE p.user_id = NEW.user_id
+      AND n.letter_id = NEW.id
+      AND n.type = 'letter_delivery'
+      AND n.status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reconcile_letter_deliveries() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS reconcile_letter_deliveries ON public.letters;
+CREATE TRIGGER reconcile_letter_deliveries
+AFTER UPDATE OF status, send_date ON public.letters
+FOR EACH ROW
+EXECUTE FUNCTION public.reconcile_letter_deliveries();
+
+-- Deliveries left behind by letters that were already unscheduled
+UPDATE public.notifications AS n
+SET status = 'cancelled',
+    next_attempt_at = NULL,
+    error_message = format('Letter is %s, delivery cancelled', l.status)
+FROM public.letters AS l
+WHERE n.letter_id = l.id
+  AND n.type = 'letter_delivery'
+  AND n.status IN ('pending', 'failed', 'dead_letter')
+  AND l.status <> 'scheduled';
@@ -0,0 +1,136 @@
+-- Time-capsule mode: a sealed (is_locked) scheduled letter can't be read or
+-- rewritten by its author until it is delivered. The seal opens by itself on
+-- delivery; opening it early goes through break_letter_seal(), which is audited.
+
+-- Audit trail of seal changes
+CREATE TABLE IF NOT EXISTS public.letter_seal_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  letter_id UUID NOT NULL REFERENCES public.letters(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('sealed', 'broken', 'opened')),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_letter_seal_events_letter
+ON public.letter_seal_events(letter_id, created_at DESC);
+
+-- Written only by the trigger and break_letter_seal(); users can read their own
+ALTER TABLE public.letter_seal_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own seal events"
+ON public.letter_seal_events FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.enforce_letter_seal()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Delivery opens the seal
+  IF OLD.is_locked AND NEW.status = 'sent' AND OLD.status <> 'sent' THEN
+    NEW.is_locked := false;
+    INSERT INTO public.letter_seal_events (letter_id, user_id, action)
+    VALUES (NEW.id, NEW.user_id, 'opened');
+    RETURN NEW;
+  END IF;
+
+  IF OLD.is_locked THEN
+    IF NOT NEW.is_locked
+       AND COALESCE(current_setting('app.breaking_letter_seal', true), '') <> NEW.id::TEXT THEN
+      RAISE EXCEPTION 'Letter is sealed; break the seal to unlock it early'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.is_locked AND (
+      NEW.title IS DISTINCT FROM OLD.title
+      OR NEW.goal IS DISTINCT FROM OLD.goal
+      OR NEW.content IS DISTINCT FROM OLD.content
+      OR NEW.ai_enhanced_goal IS DISTINCT FROM OLD.ai_enhanced_goal
+      OR NEW.ai_enhanced_content IS DISTINCT FROM OLD.ai_enhanced_content
+    ) THEN
+      RAISE EXCEPTION 'Sealed letters cannot be edited until they are delivered'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Pulling a sealed letter back into drafts (or archiving it) would open it
+    IF NEW.is_locked AND NEW.status <> 'scheduled' THEN
+      RAISE EXCEPTION 'Sealed letters stay scheduled until they are delivered'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF NEW.is_locked THEN
+    IF NEW.status <> 'scheduled' THEN
+      RAISE EXCEPTION 'Only scheduled letters can be sealed'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.letter_seal_events (letter_id, user_id, action)
+    VALUES (NEW.id, NEW.user_id, 'sealed');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_letter_seal() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS enforce_letter_seal ON public.letters;
+CREATE TRIGGER enforce_letter_seal
+BEFORE UPDATE ON public.letters
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_letter_seal();
+
+-- New letters start unsealed; sealing happens once they are scheduled
+CREATE OR REPLACE FUNCTION public.prevent_sealed_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_locked AND NEW.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Only scheduled letters can be sealed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_sealed_insert ON public.letters;
+CREATE TRIGGER prevent_sealed_insert
+BEFORE INSERT ON public.letters
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_sealed_insert();
+
+-- Open a sealed letter before its send date. The reason is kept with the
+-- audit event so the author can see later why the capsule was opened.
+CREATE OR REPLACE FUNCTION public.break_letter_seal(p_letter_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID;
+  v_is_locked BOOLEAN;
+BEGIN
+  SELECT user_id, is_locked INTO v_user_id, v_is_locked
+  FROM public.letters
+  WHERE id = p_letter_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Letter % not found', p_letter_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT v_is_locked THEN
+    RAISE EXCEPTION 'Letter is not sealed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.breaking_letter_seal', p_letter_id::TEXT, true);
+
+  UPDATE public.letters
+  SET is_locked = false
+  WHERE id = p_letter_id;
+
+  PERFORM set_config('app.breaking_letter_seal', '', true);
+
+  INSERT INTO public.letter_seal_events (letter_id, user_id, action, reason)
+  VALUES (p_letter_id, v_user_id, 'broken', NULLIF(btrim(p_reason), ''));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.break_letter_seal(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.break_letter_seal(UUID, TEXT) TO authenticated;
@@ -0,0 +1,32 @@
+-- Private bucket for voice memos recorded in the letter form. Objects are
+-- stored as <user_id>/<file>; letters.voice_memo_url holds that path and
+-- playback goes through short-lived signed URLs.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'voice-memos',
+  'voice-memos',
+  false,
+  10485760, -- 10 MB, roughly 10 minutes of Opus audio
+  ARRAY['audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg', 'audio/wav']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Users only see and manage files in their own folder
+CREATE POLICY "Users can view their own voice memos"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'voice-memos' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+CREATE POLICY "Users can upload their own voice memos"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'voice-memos' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+CREATE POLICY "Users can update their own voice memos"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'voice-memos' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+CREATE POLICY "Users can delete their own voice memos"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'voice-memos' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
@@ -0,0 +1,65 @@
+-- Manual ordering for milestones within a letter
+ALTER TABLE public.milestones
+ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+
+-- Existing milestones keep their chronological order
+UPDATE public.milestones AS m
+SET position = ordered.row_number - 1
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY letter_id ORDER BY target_date, created_at) AS row_number
+  FROM public.milestones
+) AS ordered
+WHERE m.id = ordered.id;
+
+CREATE INDEX IF NOT EXISTS idx_milestones_letter_position
+ON public.milestones(letter_id, position);
+
+-- completed_at always follows completed, whichever client flips it. A
+-- timestamp supplied by the caller is kept so history can be backfilled.
+CREATE OR REPLACE FUNCTION public.set_milestone_completed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.completed IS TRUE THEN
+    IF TG_OP = 'INSERT' OR OLD.completed IS DISTINCT FROM TRUE THEN
+      NEW.completed_at := COALESCE(NEW.completed_at, now());
+    END IF;
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_milestone_completed_at ON public.milestones;
+CREATE TRIGGER set_milestone_completed_at
+BEFORE INSERT OR UPDATE OF completed, completed_at ON public.milestones
+FOR EACH ROW
+EXECUTE FUNCTION public.set_milestone_completed_at();
+
+-- Store a new order for a letter's milestones in one statement. Ids that do
+-- not belong to the letter are ignored.
+CREATE OR REPLACE FUNCTION public.reorder_milestones(p_letter_id UUID, p_milestone_ids UUID[])
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT user_id INTO v_user_id
+  FROM public.letters
+  WHERE id = p_letter_id;
+
+  IF NOT FOUND OR v_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Letter % not found', p_letter_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.milestones AS m
+  SET position = ordered.ordinality - 1
+  FROM unnest(p_milestone_ids) WITH ORDINALITY AS ordered(id, ordinality)
+  WHERE m.id = ordered.id
+    AND m.letter_id = p_letter_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reorder_milestones(UUID, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reorder_milestones(UUID, UUID[]) TO authenticated;
@@ -0,0 +1,88 @@
+-- Save a letter's milestone list as a diff instead of delete-and-reinsert,
+-- so ids, completion state and reminder history survive an edit.
+--
+-- p_milestones is an ordered JSON array of
+--   { "id"?, "title", "description"?, "percentage", "target_date" }
+-- Items whose id belongs to the letter are updated, the rest are inserted,
+-- and milestones missing from the array are deleted. Everything runs in the
+-- function's transaction, so a failure leaves the old list untouched.
+CREATE OR REPLACE FUNCTION public.sync_letter_milestones(p_letter_id UUID, p_milestones JSONB)
+RETURNS SETOF public.milestones AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT user_id INTO v_user_id
+  FROM public.letters
+  WHERE id = p_letter_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Letter % not found', p_letter_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF jsonb_typeof(p_milestones) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Milestones must be a JSON array'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  DROP TABLE IF EXISTS pg_temp.incoming_milestones;
+  CREATE TEMP TABLE incoming_milestones ON COMMIT DROP AS
+  SELECT
+    existing.id AS id,
+    item.value ->> 'title' AS title,
+    NULLIF(item.value ->> 'description', '') AS description,
+    (item.value ->> 'percentage')::DECIMAL(5,2) AS percentage,
+    (item.value ->> 'target_date')::DATE AS target_date,
+    (item.ordinality - 1)::INTEGER AS position
+  FROM jsonb_array_elements(p_milestones) WITH ORDINALITY AS item(value, ordinality)
+  LEFT JOIN public.milestones AS existing
+    ON existing.letter_id = p_letter_id
+   AND existing.id::TEXT = item.value ->> 'id';
+
+  DELETE FROM public.milestones AS m
+  WHERE m.letter_id = p_letter_id
+    AND NOT EXISTS (SELECT 1 FROM incoming_milestones AS i WHERE i.id = m.id);
+
+  -- A moved target date gets fresh reminders; drop the ones queued for the old date
+  UPDATE public.notifications AS n
+  SET status = 'cancelled',
+      error_message = 'Milestone target date changed'
+  FROM incoming_milestones AS i
+  JOIN public.milestones AS m ON m.id = i.id
+  WHERE n.milestone_id = m.id
+    AND n.type = 'milestone_reminder'
+    AND n.status = 'pending'
+    AND m.target_date IS DISTINCT FROM i.target_date;
+
+  -- Only touch rows that actually changed, so updated_at stays meaningful
+  UPDATE public.milestones AS m
+  SET title = i.title,
+      description = i.description,
+      percentage = i.percentage,
+      position = i.position,
+      reminder_sent = CASE
+        WHEN m.target_date IS DISTINCT FROM i.target_date THEN false
+        ELSE m.reminder_sent
+      END,
+      target_date = i.target_date
+  FROM incoming_milestones AS i
+  WHERE m.id = i.id
+    AND (m.title, m.description, m.percentage, m.position, m.target_date)
+        IS DISTINCT FROM (i.title, i.description, i.percentage, i.position, i.target_date);
+
+  INSERT INTO public.milestones (letter_id, title, description, percentage, target_date, position, completed)
+  SELECT p_letter_id, i.title, i.description, i.percentage, i.target_date, i.position, false
+  FROM incoming_milestones AS i
+  WHERE i.id IS NULL;
+
+  RETURN QUERY
+  SELECT *
+  FROM public.milestones
+  WHERE letter_id = p_letter_id
+  ORDER BY position, target_date;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.sync_letter_milestones(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.sync_letter_milestones(UUID, JSONB) TO authenticated;
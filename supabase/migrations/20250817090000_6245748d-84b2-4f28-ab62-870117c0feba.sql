@@ -0,0 +1,23 @@
+-- Full-text search over a letter's title, goal and content, weighted in that
+-- order. Sealed letters only expose their title, so searching cannot reveal
+-- what a time capsule says.
+ALTER TABLE public.letters
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  CASE
+    WHEN COALESCE(is_locked, false) THEN ''::TSVECTOR
+    ELSE
+      setweight(to_tsvector('english', COALESCE(goal, '')), 'B') ||
+      setweight(to_tsvector('english', COALESCE(content, '')), 'C')
+  END
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_letters_search_vector
+ON public.letters USING GIN (search_vector);
+
+-- The letters page filters by owner and sorts or ranges on these columns
+CREATE INDEX IF NOT EXISTS idx_letters_user_created_at
+ON public.letters(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_letters_user_send_date
+ON public.letters(user_id, send_date);
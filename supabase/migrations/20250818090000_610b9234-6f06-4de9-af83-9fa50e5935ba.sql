@@ -0,0 +1,129 @@
+-- Version history for letters. Every save that changes the title, goal or
+-- content stores the new text as a revision, so earlier wording can be
+-- compared and brought back.
+
+-- How the text of the latest save was produced. The client sets 'ai' when
+-- the saved wording came from an accepted AI suggestion.
+ALTER TABLE public.letters
+ADD COLUMN IF NOT EXISTS last_edit_source TEXT NOT NULL DEFAULT 'manual'
+  CHECK (last_edit_source IN ('manual', 'ai'));
+
+CREATE TABLE IF NOT EXISTS public.letter_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  letter_id UUID NOT NULL REFERENCES public.letters(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  goal TEXT NOT NULL,
+  content TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'ai', 'restore')),
+  restored_from UUID REFERENCES public.letter_revisions(id) ON DELETE SET NULL,
+  -- NULL when the change was made by the service (no signed-in user)
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (letter_id, revision_number)
+);
+
+-- Written only by the trigger. History of a sealed letter would reveal what
+-- it says, so it stays hidden until the seal opens.
+ALTER TABLE public.letter_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of their unsealed letters"
+ON public.letter_revisions FOR SELECT
+USING (
+  auth.uid() = user_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.letters AS l
+    WHERE l.id = letter_id AND l.is_locked
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.record_letter_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_restored_from UUID;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND (NEW.title, NEW.goal, NEW.content) IS NOT DISTINCT FROM (OLD.title, OLD.goal, OLD.content) THEN
+    RETURN NEW;
+  END IF;
+
+  v_restored_from := NULLIF(current_setting('app.restoring_letter_revision', true), '')::UUID;
+
+  INSERT INTO public.letter_revisions (
+    letter_id, user_id, revision_number, title, goal, content, source, restored_from, created_by
+  )
+  SELECT
+    NEW.id,
+    NEW.user_id,
+    COALESCE(MAX(r.revision_number), 0) + 1,
+    NEW.title,
+    NEW.goal,
+    NEW.content,
+    CASE WHEN v_restored_from IS NOT NULL THEN 'restore' ELSE NEW.last_edit_source END,
+    v_restored_from,
+    auth.uid()
+  FROM public.letter_revisions AS r
+  WHERE r.letter_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_letter_revision() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS record_letter_revision ON public.letters;
+CREATE TRIGGER record_letter_revision
+AFTER INSERT OR UPDATE OF title, goal, content ON public.letters
+FOR EACH ROW
+EXECUTE FUNCTION public.record_letter_revision();
+
+-- Existing letters start their history from what they say today
+INSERT INTO public.letter_revisions (letter_id, user_id, revision_number, title, goal, content, created_by, created_at)
+SELECT l.id, l.user_id, 1, l.title, l.goal, l.content, l.user_id, l.updated_at
+FROM public.letters AS l
+WHERE NOT EXISTS (SELECT 1 FROM public.letter_revisions AS r WHERE r.letter_id = l.id);
+
+-- Put a letter's title, goal and content back to an earlier revision. The
+-- restore is itself recorded as a new revision, so it can be undone too.
+CREATE OR REPLACE FUNCTION public.restore_letter_revision(p_revision_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_revision public.letter_revisions%ROWTYPE;
+  v_user_id UUID;
+BEGIN
+  SELECT * INTO v_revision
+  FROM public.letter_revisions
+  WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision % not found', p_revision_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT user_id INTO v_user_id
+  FROM public.letters
+  WHERE id = v_revision.letter_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Revision % not found', p_revision_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.restoring_letter_revision', p_revision_id::TEXT, true);
+
+  -- enforce_letter_seal still rejects this for sealed letters
+  UPDATE public.letters
+  SET title = v_revision.title,
+      goal = v_revision.goal,
+      content = v_revision.content,
+      last_edit_source = 'manual'
+  WHERE id = v_revision.letter_id;
+
+  PERFORM set_config('app.restoring_letter_revision', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.restore_letter_revision(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_letter_revision(UUID) TO authenticated;
@@ -0,0 +1,57 @@
+-- Every AI edge function records a row in ai_events: what it was asked, what
+-- it answered, how long the model took and how many tokens it used. The app
+-- reports back whether the user kept the suggestion.
+
+ALTER TABLE public.ai_events
+DROP CONSTRAINT IF EXISTS ai_events_event_type_check;
+
+ALTER TABLE public.ai_events
+ADD CONSTRAINT ai_events_event_type_check
+  CHECK (event_type IN (
+    'goal_rewrite',
+    'milestone_generation',
+    'motivation_nudge',
+    'embedding',
+    'field_enhancement',
+    'milestone_inference',
+    'letter_enhancement'
+  ));
+
+ALTER TABLE public.ai_events
+ADD COLUMN IF NOT EXISTS model TEXT,
+ADD COLUMN IF NOT EXISTS latency_ms INTEGER,
+ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER,
+ADD COLUMN IF NOT EXISTS completion_tokens INTEGER,
+ADD COLUMN IF NOT EXISTS total_tokens INTEGER,
+-- NULL until the app reports what the user did with the suggestion
+ADD COLUMN IF NOT EXISTS applied BOOLEAN,
+ADD COLUMN IF NOT EXISTS applied_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_ai_events_user_created
+ON public.ai_events(user_id, created_at DESC);
+
+-- Record whether a suggestion was used. Only the outcome can change; the
+-- rest of the row is written by the edge function.
+CREATE OR REPLACE FUNCTION public.mark_ai_event_applied(p_event_id UUID, p_applied BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT user_id INTO v_user_id
+  FROM public.ai_events
+  WHERE id = p_event_id;
+
+  IF NOT FOUND OR v_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'AI event % not found', p_event_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE public.ai_events
+  SET applied = p_applied,
+      applied_at = CASE WHEN p_applied THEN now() ELSE NULL END
+  WHERE id = p_event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.mark_ai_event_applied(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_ai_event_applied(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,94 @@
+-- Per-user limits for the AI edge functions: a sliding window of requests
+-- per function, and a monthly token budget across all of them. Token usage
+-- comes from ai_events, so only the request log is new.
+
+CREATE TABLE IF NOT EXISTS public.ai_rate_limits (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  function_name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_rate_limits_user_function
+ON public.ai_rate_limits(user_id, function_name, created_at);
+
+-- Written and read only by the edge functions
+ALTER TABLE public.ai_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Check both limits and, if the call is allowed, count it. Concurrent calls
+-- for the same user and function queue on an advisory lock so a burst can't
+-- slip past the window. A budget of 0 means no monthly limit.
+CREATE OR REPLACE FUNCTION public.consume_ai_quota(
+  p_user_id UUID,
+  p_function_name TEXT,
+  p_window_seconds INTEGER,
+  p_max_requests INTEGER,
+  p_monthly_token_budget INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_window INTERVAL := make_interval(secs => p_window_seconds);
+  v_month_start TIMESTAMP WITH TIME ZONE := date_trunc('month', now());
+  v_month_end TIMESTAMP WITH TIME ZONE := date_trunc('month', now()) + INTERVAL '1 month';
+  v_count INTEGER;
+  v_oldest TIMESTAMP WITH TIME ZONE;
+  v_tokens_used BIGINT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::TEXT || ':' || p_function_name));
+
+  -- Anything outside the window will never count again
+  DELETE FROM public.ai_rate_limits
+  WHERE user_id = p_user_id
+    AND function_name = p_function_name
+    AND created_at <= now() - v_window;
+
+  SELECT COUNT(*), MIN(created_at) INTO v_count, v_oldest
+  FROM public.ai_rate_limits
+  WHERE user_id = p_user_id
+    AND function_name = p_function_name;
+
+  SELECT COALESCE(SUM(total_tokens), 0) INTO v_tokens_used
+  FROM public.ai_events
+  WHERE user_id = p_user_id
+    AND created_at >= v_month_start;
+
+  IF p_monthly_token_budget > 0 AND v_tokens_used >= p_monthly_token_budget THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'monthly_quota',
+      'retry_after_seconds', CEIL(EXTRACT(EPOCH FROM v_month_end - now()))::INTEGER,
+      'remaining_requests', GREATEST(p_max_requests - v_count, 0),
+      'tokens_used', v_tokens_used,
+      'token_budget', p_monthly_token_budget,
+      'resets_at', v_month_end
+    );
+  END IF;
+
+  IF v_count >= p_max_requests THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'rate_limit',
+      'retry_after_seconds', GREATEST(CEIL(EXTRACT(EPOCH FROM v_oldest + v_window - now()))::INTEGER, 1),
+      'remaining_requests', 0,
+      'tokens_used', v_tokens_used,
+      'token_budget', p_monthly_token_budget,
+      'resets_at', v_month_end
+    );
+  END IF;
+
+  INSERT INTO public.ai_rate_limits (user_id, function_name)
+  VALUES (p_user_id, p_function_name);
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'reason', NULL,
+    'retry_after_seconds', 0,
+    'remaining_requests', p_max_requests - v_count - 1,
+    'tokens_used', v_tokens_used,
+    'token_budget', p_monthly_token_budget,
+    'resets_at', v_month_end
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.consume_ai_quota(UUID, TEXT, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
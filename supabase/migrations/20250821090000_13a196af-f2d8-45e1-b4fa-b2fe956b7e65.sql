@@ -0,0 +1,76 @@
+-- Draft autosave writes the title, goal and content every couple of seconds
+-- while the author types, and each write used to become its own revision.
+-- Autosaves now fold into one revision per sitting: while the saves keep
+-- coming, the latest autosaved revision is rewritten in place. A regular
+-- save, an AI suggestion, a restore or a long pause starts a new one.
+
+-- How the latest save was made. The client sends 'autosave' from the draft
+-- autosave and 'save' everywhere else, so the value never lingers.
+ALTER TABLE public.letters
+ADD COLUMN IF NOT EXISTS last_save_kind TEXT NOT NULL DEFAULT 'save'
+  CHECK (last_save_kind IN ('save', 'autosave'));
+
+ALTER TABLE public.letter_revisions
+ADD COLUMN IF NOT EXISTS autosave BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.record_letter_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_restored_from UUID;
+  v_autosave BOOLEAN;
+  v_latest public.letter_revisions%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND (NEW.title, NEW.goal, NEW.content) IS NOT DISTINCT FROM (OLD.title, OLD.goal, OLD.content) THEN
+    RETURN NEW;
+  END IF;
+
+  v_restored_from := NULLIF(current_setting('app.restoring_letter_revision', true), '')::UUID;
+  v_autosave := NEW.last_save_kind = 'autosave' AND v_restored_from IS NULL;
+
+  -- Only an autosave that follows another autosave continues its revision
+  IF TG_OP = 'UPDATE' AND v_autosave AND OLD.last_save_kind = 'autosave' THEN
+    SELECT * INTO v_latest
+    FROM public.letter_revisions
+    WHERE letter_id = NEW.id
+    ORDER BY revision_number DESC
+    LIMIT 1;
+
+    IF FOUND
+       AND v_latest.autosave
+       AND v_latest.source = NEW.last_edit_source
+       AND v_latest.created_by IS NOT DISTINCT FROM auth.uid()
+       AND v_latest.created_at > now() - INTERVAL '10 minutes' THEN
+      UPDATE public.letter_revisions
+      SET title = NEW.title,
+          goal = NEW.goal,
+          content = NEW.content,
+          created_at = now()
+      WHERE id = v_latest.id;
+
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.letter_revisions (
+    letter_id, user_id, revision_number, title, goal, content, source, restored_from, created_by, autosave
+  )
+  SELECT
+    NEW.id,
+    NEW.user_id,
+    COALESCE(MAX(r.revision_number), 0) + 1,
+    NEW.title,
+    NEW.goal,
+    NEW.content,
+    CASE WHEN v_restored_from IS NOT NULL THEN 'restore' ELSE NEW.last_edit_source END,
+    v_restored_from,
+    auth.uid(),
+    v_autosave
+  FROM public.letter_revisions AS r
+  WHERE r.letter_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_letter_revision() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,6 @@
+-- The delivery worker records that an email went out before it marks the
+-- notification sent. If that status update fails, the row is reclaimed as
+-- stale 'processing' and completed without sending the email a second time.
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS email_sent_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS provider_message_id TEXT;
@@ -0,0 +1,97 @@
+-- Close two ways around the letter seal. Marking a sealed letter sent opened
+-- it, and authors can update their own rows, so setting status = 'sent'
+-- directly skipped break_letter_seal(). Moving the send date earlier did the
+-- same more slowly. Delivery now opens the seal only from inside
+-- complete_letter_delivery(), and a sealed letter can only move later.
+
+CREATE OR REPLACE FUNCTION public.enforce_letter_seal()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Delivery opens the seal
+  IF OLD.is_locked AND NEW.status = 'sent' AND OLD.status <> 'sent' THEN
+    IF COALESCE(current_setting('app.delivering_letter', true), '') <> NEW.id::TEXT THEN
+      RAISE EXCEPTION 'Sealed letters are only marked sent by their delivery'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.is_locked := false;
+    INSERT INTO public.letter_seal_events (letter_id, user_id, action)
+    VALUES (NEW.id, NEW.user_id, 'opened');
+    RETURN NEW;
+  END IF;
+
+  IF OLD.is_locked THEN
+    IF NOT NEW.is_locked
+       AND COALESCE(current_setting('app.breaking_letter_seal', true), '') <> NEW.id::TEXT THEN
+      RAISE EXCEPTION 'Letter is sealed; break the seal to unlock it early'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.is_locked AND (
+      NEW.title IS DISTINCT FROM OLD.title
+      OR NEW.goal IS DISTINCT FROM OLD.goal
+      OR NEW.content IS DISTINCT FROM OLD.content
+      OR NEW.ai_enhanced_goal IS DISTINCT FROM OLD.ai_enhanced_goal
+      OR NEW.ai_enhanced_content IS DISTINCT FROM OLD.ai_enhanced_content
+    ) THEN
+      RAISE EXCEPTION 'Sealed letters cannot be edited until they are delivered'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- An earlier date would open the capsule early without breaking the seal
+    IF NEW.is_locked AND NEW.send_date < OLD.send_date THEN
+      RAISE EXCEPTION 'Sealed letters can only be moved to a later date'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Pulling a sealed letter back into drafts (or archiving it) would open it
+    IF NEW.is_locked AND NEW.status <> 'scheduled' THEN
+      RAISE EXCEPTION 'Sealed letters stay scheduled until they are delivered'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF NEW.is_locked THEN
+    IF NEW.status <> 'scheduled' THEN
+      RAISE EXCEPTION 'Only scheduled letters can be sealed'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.letter_seal_events (letter_id, user_id, action)
+    VALUES (NEW.id, NEW.user_id, 'sealed');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_letter_seal() FROM PUBLIC, anon, authenticated;
+
+-- Mark a claimed letter delivery as sent together with its letter. The flag
+-- tells enforce_letter_seal that this is the delivery opening the seal.
+CREATE OR REPLACE FUNCTION public.complete_letter_delivery(p_notification_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_letter_id UUID;
+BEGIN
+  UPDATE public.notifications
+  SET status = 'sent',
+      sent_at = now(),
+      error_message = NULL
+  WHERE id = p_notification_id
+    AND status = 'processing'
+  RETURNING letter_id INTO v_letter_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Notification % is not being processed', p_notification_id;
+  END IF;
+
+  PERFORM set_config('app.delivering_letter', v_letter_id::TEXT, true);
+
+  UPDATE public.letters
+  SET status = 'sent'
+  WHERE id = v_letter_id;
+
+  PERFORM set_config('app.delivering_letter', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.complete_letter_delivery(UUID) FROM PUBLIC, anon, authenticated;
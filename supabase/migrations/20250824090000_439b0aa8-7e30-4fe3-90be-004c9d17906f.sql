@@ -0,0 +1,17 @@
+-- consume_ai_quota() sums ai_events.total_tokens for the monthly budget, but
+-- users could still insert their own ai_events rows, so one row with a large
+-- negative count wiped the month's usage. Only the edge functions (service
+-- role) write these rows now, and token counts can't go below zero.
+
+DROP POLICY IF EXISTS "Users can create their own AI events" ON public.ai_events;
+
+-- The edge functions never write negative counts; any such row was forged
+DELETE FROM public.ai_events
+WHERE prompt_tokens < 0
+   OR completion_tokens < 0
+   OR total_tokens < 0;
+
+ALTER TABLE public.ai_events
+ADD CONSTRAINT ai_events_prompt_tokens_check CHECK (prompt_tokens >= 0),
+ADD CONSTRAINT ai_events_completion_tokens_check CHECK (completion_tokens >= 0),
+ADD CONSTRAINT ai_events_total_tokens_check CHECK (total_tokens >= 0);
@@ -0,0 +1,46 @@
+-- Pending deliveries and milestone reminders are timed from the user's
+-- timezone and delivery hour when they are queued. Changing either setting
+-- left them at the old instant, so re-time them whenever the profile changes.
+-- A reminder keeps its local reminder day; only the hour and zone move.
+CREATE OR REPLACE FUNCTION public.retime_pending_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old_zone TEXT := CASE
+    WHEN EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = OLD.timezone) THEN OLD.timezone
+    ELSE 'UTC'
+  END;
+BEGIN
+  IF NEW.timezone IS NOT DISTINCT FROM OLD.timezone
+     AND NEW.delivery_hour IS NOT DISTINCT FROM OLD.delivery_hour THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.notifications AS n
+  SET scheduled_for = public.letter_delivery_instant(l.send_date, NEW.timezone, NEW.delivery_hour)
+  FROM public.letters AS l
+  WHERE n.letter_id = l.id
+    AND n.user_id = NEW.user_id
+    AND n.type = 'letter_delivery'
+    AND n.status = 'pending';
+
+  UPDATE public.notifications AS n
+  SET scheduled_for = public.letter_delivery_instant(
+    (n.scheduled_for AT TIME ZONE v_old_zone)::DATE,
+    NEW.timezone,
+    NEW.delivery_hour
+  )
+  WHERE n.user_id = NEW.user_id
+    AND n.type = 'milestone_reminder'
+    AND n.status = 'pending';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.retime_pending_notifications() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS retime_pending_notifications ON public.profiles;
+CREATE TRIGGER retime_pending_notifications
+AFTER UPDATE OF timezone, delivery_hour ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.retime_pending_notifications();
@@ -0,0 +1,62 @@
+-- Run with `supabase test db`
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email)
+VALUES ('00000000-0000-0000-0000-000000000001', 'retime@example.com');
+
+UPDATE public.profiles
+SET timezone = 'UTC', delivery_hour = 9
+WHERE user_id = '00000000-0000-0000-0000-000000000001';
+
+INSERT INTO public.letters (id, user_id, title, content, goal, send_date, status)
+VALUES (
+  '00000000-0000-0000-0000-000000000010',
+  '00000000-0000-0000-0000-000000000001',
+  'Retime', 'Dear me', 'Keep going', '2030-06-01', 'scheduled'
+);
+
+INSERT INTO public.milestones (id, letter_id, title, target_date)
+VALUES (
+  '00000000-0000-0000-0000-000000000020',
+  '00000000-0000-0000-0000-000000000010',
+  'Halfway', '2030-05-08'
+);
+
+INSERT INTO public.notifications (id, user_id, letter_id, milestone_id, type, content, scheduled_for, status)
+VALUES
+  ('00000000-0000-0000-0000-000000000101', '00000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000010', NULL, 'letter_delivery', 'Delivery',
+   '2030-06-01 09:00:00+00', 'pending'),
+  ('00000000-0000-0000-0000-000000000102', '00000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-000000000020',
+   'milestone_reminder', 'Reminder', '2030-05-01 09:00:00+00', 'pending'),
+  ('00000000-0000-0000-0000-000000000103', '00000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-000000000010', NULL, 'letter_delivery', 'Old delivery',
+   '2030-01-01 09:00:00+00', 'cancelled');
+
+UPDATE public.profiles
+SET timezone = 'Europe/Berlin', delivery_hour = 7
+WHERE user_id = '00000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT scheduled_for FROM public.notifications WHERE id = '00000000-0000-0000-0000-000000000101'),
+  '2030-06-01 05:00:00+00'::TIMESTAMPTZ,
+  'a pending delivery moves to the new delivery hour and zone'
+);
+
+SELECT is(
+  (SELECT scheduled_for FROM public.notifications WHERE id = '00000000-0000-0000-0000-000000000102'),
+  '2030-05-01 05:00:00+00'::TIMESTAMPTZ,
+  'a pending reminder keeps its day and moves to the new hour and zone'
+);
+
+SELECT is(
+  (SELECT scheduled_for FROM public.notifications WHERE id = '00000000-0000-0000-0000-000000000103'),
+  '2030-01-01 09:00:00+00'::TIMESTAMPTZ,
+  'finished notifications are left alone'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
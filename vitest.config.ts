@@ -30,6 +30,8 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      // Edge functions import zod from esm.sh; tests use the installed copy
+      'https://esm.sh/zod@3.23.8': 'zod',
     },
   },
 })